@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { VaultIndex, VaultIndexChange, frontmatterList, isMarkdownPath } from './vaultIndex';
+import { LinkResolver } from './linkResolver';
+
+type BacklinkSection = 'linked' | 'unlinked';
+
+export type BacklinkNode =
+  | { kind: 'section'; section: BacklinkSection }
+  | { kind: 'file'; section: BacklinkSection; filePath: string; mentions: BacklinkMention[] }
+  | { kind: 'mention'; filePath: string; mention: BacklinkMention };
+
+type BacklinkMention = {
+  line: number;
+  context: string; // trimmed text of the line containing the link or mention
+};
+
+export class BacklinksTreeProvider implements vscode.TreeDataProvider<BacklinkNode> {
+  private _onDidChangeTreeData: vscode.EventEmitter<BacklinkNode | undefined | void> = new vscode.EventEmitter<BacklinkNode | undefined | void>();
+  readonly onDidChangeTreeData: vscode.Event<BacklinkNode | undefined | void> = this._onDidChangeTreeData.event;
+
+  private activeFile: string | undefined;
+  // Computed on demand and dropped whenever the active note or the index changes
+  private linked: Map<string, BacklinkMention[]> | undefined;
+  // Computed on demand and kept across index changes, only the changed notes are read again
+  private unlinked: Map<string, BacklinkMention[]> | undefined;
+  private unlinkedScan: Promise<Map<string, BacklinkMention[]>> | undefined;
+  private unlinkedNames = ''; // names of the active note the unlinked mentions are of
+  private scanGeneration = 0; // bumped to drop the unlinked mentions and stop running scans
+  private changedDuringScan = new Set<string>();
+
+  constructor(private context: vscode.ExtensionContext, private vaultIndex: VaultIndex, private resolver: LinkResolver) {
+    context.subscriptions.push(vaultIndex.onDidChange(change => {
+      this.onIndexChange(change).catch(err => console.error('Backlinks: error updating unlinked mentions:', err));
+    }));
+  }
+
+  /**
+   * Follow the note shown in the active editor or preview. Non-vault files clear the view.
+   */
+  public setActiveFile(uri: vscode.Uri | undefined): void {
+    const root = this.vaultIndex.vaultPath;
+    let filePath: string | undefined;
+    if (uri && uri.scheme === 'file' && root && isMarkdownPath(uri.fsPath) && path.normalize(uri.fsPath).startsWith(path.normalize(root))) {
+      filePath = path.normalize(uri.fsPath);
+    }
+    if (filePath === this.activeFile) return;
+    this.activeFile = filePath;
+    this.refresh();
+  }
+
+  refresh(): void {
+    this.linked = undefined;
+    this.dropUnlinked();
+    this._onDidChangeTreeData.fire();
+  }
+
+  private dropUnlinked(): void {
+    this.unlinked = undefined;
+    this.unlinkedScan = undefined;
+    this.changedDuringScan.clear();
+    this.scanGeneration++;
+  }
+
+  private async onIndexChange(change: VaultIndexChange): Promise<void> {
+    this.linked = undefined;
+    const paths = [...change.changed, ...change.removed];
+    if (change.full || this.mentionNames().join('\n') !== this.unlinkedNames) {
+      this.dropUnlinked();
+    } else if (this.unlinkedScan) {
+      paths.forEach(p => this.changedDuringScan.add(p));
+    } else if (this.unlinked) {
+      await this.updateUnlinked(this.unlinked, paths, this.scanGeneration);
+    }
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: BacklinkNode): vscode.TreeItem {
+    if (element.kind === 'section') {
+      const isLinked = element.section === 'linked';
+      const count = isLinked && this.linked ? ` (${this.countMentions(this.linked)})` : '';
+      const item = new vscode.TreeItem(
+        isLinked ? `Linked mentions${count}` : 'Unlinked mentions',
+        isLinked ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+      );
+      item.iconPath = new vscode.ThemeIcon(isLinked ? 'references' : 'search');
+      item.contextValue = 'obsidianBacklinkSection';
+      return item;
+    }
+
+    if (element.kind === 'file') {
+      const root = this.vaultIndex.vaultPath || '';
+      const item = new vscode.TreeItem(
+        `${path.basename(element.filePath, '.md')} (${element.mentions.length})`,
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+      item.resourceUri = vscode.Uri.file(element.filePath);
+      item.description = path.dirname(path.relative(root, element.filePath)).replace(/^\.$/, '');
+      item.iconPath = new vscode.ThemeIcon('file');
+      item.contextValue = 'obsidianBacklinkFile';
+      return item;
+    }
+
+    const item = new vscode.TreeItem(element.mention.context, vscode.TreeItemCollapsibleState.None);
+    item.description = `line ${element.mention.line + 1}`;
+    item.tooltip = element.mention.context;
+    item.contextValue = 'obsidianBacklink';
+    const position = new vscode.Position(element.mention.line, 0);
+    item.command = {
+      command: 'vscode.open',
+      title: 'Open at line',
+      arguments: [vscode.Uri.file(element.filePath), { selection: new vscode.Range(position, position), preview: false }]
+    };
+    return item;
+  }
+
+  async getChildren(element?: BacklinkNode): Promise<BacklinkNode[]> {
+    if (!this.activeFile) {
+      return [];
+    }
+
+    if (!element) {
+      await this.vaultIndex.ready();
+      // Compute linked mentions up front so the section label can show the count
+      await this.getLinkedMentions();
+      return [
+        { kind: 'section', section: 'linked' },
+        { kind: 'section', section: 'unlinked' }
+      ];
+    }
+
+    if (element.kind === 'section') {
+      // Unlinked mentions need a full-text pass over the vault, so they load only when expanded
+      const mentions = element.section === 'linked'
+        ? await this.getLinkedMentions()
+        : await this.getUnlinkedMentions();
+      return Array.from(mentions.entries())
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([filePath, list]) => ({ kind: 'file', section: element.section, filePath, mentions: list }));
+    }
+
+    if (element.kind === 'file') {
+      return element.mentions.map(mention => ({ kind: 'mention', filePath: element.filePath, mention }));
+    }
+
+    return [];
+  }
+
+  private async getLinkedMentions(): Promise<Map<string, BacklinkMention[]>> {
+    if (this.linked) return this.linked;
+    const target = this.activeFile;
+    const result = new Map<string, BacklinkMention[]>();
+
+    for (const note of this.vaultIndex.getNotes()) {
+      const lines = note.links
+        .filter(link => this.resolver.resolveIndexedLink(link, note.filePath) === target)
+        .map(link => link.line);
+      if (lines.length === 0) continue;
+
+      const content = await this.readLines(note.filePath);
+      result.set(note.filePath, Array.from(new Set(lines)).map(line => ({
+        line,
+        context: (content[line] || '').trim()
+      })));
+    }
+
+    if (target === this.activeFile) {
+      this.linked = result;
+    }
+    return result;
+  }
+
+  private getUnlinkedMentions(): Promise<Map<string, BacklinkMention[]>> {
+    if (this.unlinked) return Promise.resolve(this.unlinked);
+    if (!this.unlinkedScan) {
+      this.unlinkedScan = this.scanUnlinkedMentions(this.scanGeneration);
+    }
+    return this.unlinkedScan;
+  }
+
+  private async scanUnlinkedMentions(generation: number): Promise<Map<string, BacklinkMention[]>> {
+    const result = new Map<string, BacklinkMention[]>();
+    this.unlinkedNames = this.mentionNames().join('\n');
+    const notes = this.vaultIndex.getNotes().map(note => note.filePath);
+    if (!await this.updateUnlinked(result, notes, generation)) return result;
+
+    // Notes changed while the vault was read
+    while (this.changedDuringScan.size > 0 && generation === this.scanGeneration) {
+      const changed = Array.from(this.changedDuringScan);
+      this.changedDuringScan.clear();
+      await this.updateUnlinked(result, changed, generation);
+    }
+    if (generation === this.scanGeneration) {
+      this.unlinked = result;
+      this.unlinkedScan = undefined;
+    }
+    return result;
+  }
+
+  /**
+   * The note title plus any frontmatter aliases of the active note.
+   */
+  private mentionNames(): string[] {
+    if (!this.activeFile) return [];
+    const activeNote = this.vaultIndex.getNote(this.activeFile);
+    return [path.basename(this.activeFile, '.md'), ...frontmatterList(activeNote?.frontmatter.aliases)]
+      .filter(name => name.length > 1);
+  }
+
+  /**
+   * Search the notes (or removed folders) at `paths` again for unlinked mentions of the active
+   * note into `result`; false once the scan `generation` is dropped.
+   */
+  private async updateUnlinked(result: Map<string, BacklinkMention[]>, paths: string[], generation: number): Promise<boolean> {
+    const target = this.activeFile;
+    const names = this.mentionNames();
+    const escaped = names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const mentionRegex = new RegExp(`(^|[^\\w])(${escaped.join('|')})(?=$|[^\\w])`, 'i');
+
+    for (const filePath of paths) {
+      if (generation !== this.scanGeneration) return false;
+      result.delete(filePath);
+      if (!this.vaultIndex.getNote(filePath)) {
+        // A removed folder takes its notes along
+        for (const key of Array.from(result.keys())) {
+          if (key.startsWith(filePath + path.sep)) result.delete(key);
+        }
+        continue;
+      }
+      if (names.length === 0 || filePath === target) continue;
+
+      const content = await this.readLines(filePath);
+      if (generation !== this.scanGeneration) return false;
+      const mentions: BacklinkMention[] = [];
+      content.forEach((line, index) => {
+        // Ignore text inside links, those are either linked mentions or point elsewhere
+        const withoutLinks = line.replace(/\[\[[^\]]*\]\]/g, ' ').replace(/\[[^\]]*\]\([^)]*\)/g, ' ');
+        if (mentionRegex.test(withoutLinks)) {
+          mentions.push({ line: index, context: line.trim() });
+        }
+      });
+      if (mentions.length > 0) {
+        result.set(filePath, mentions);
+      }
+    }
+    return true;
+  }
+
+  private async readLines(filePath: string): Promise<string[]> {
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      return content.split('\n').map(line => line.replace(/\r$/, ''));
+    } catch (err) {
+      return [];
+    }
+  }
+
+  private countMentions(mentions: Map<string, BacklinkMention[]>): number {
+    let count = 0;
+    mentions.forEach(list => { count += list.length; });
+    return count;
+  }
+}
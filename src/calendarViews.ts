@@ -0,0 +1,370 @@
+import * as path from 'path';
+import { Task } from './vaultTasks';
+import { addDays, stripTaskMetadata } from './taskMetadata';
+import { TaskStatus, findTaskStatus, isClosedStatus } from './taskStatus';
+
+/**
+ * Week, agenda and year modes of the calendar view. The month grid is built in extension.ts;
+ * these build the body of the other modes, the webview script posts the same messages for all.
+ */
+
+export type CalendarMode = 'month' | 'week' | 'agenda' | 'year';
+
+// What the year heatmap colours the days by
+export type HeatmapMetric = 'tasks' | 'words';
+
+export const CALENDAR_MODES: { mode: CalendarMode; label: string; title: string }[] = [
+  { mode: 'month', label: 'Month', title: 'Month grid' },
+  { mode: 'week', label: 'Week', title: 'Notes and tasks of each day of the week' },
+  { mode: 'agenda', label: 'Agenda', title: 'Due and scheduled tasks of the next days' },
+  { mode: 'year', label: 'Year', title: 'Heatmap of the tasks completed or words written each day' }
+];
+
+/**
+ * Tasks of a day: the open and done tasks written in its notes, and the open tasks due on it
+ * once it is past.
+ */
+export interface DayTaskCounts {
+  open: number;
+  done: number;
+  overdue: number;
+}
+
+const DAY_NAMES = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * First day (YYYY-MM-DD) of the week containing `date`.
+ */
+export function weekStartOf(date: string, startOnMonday: boolean): string {
+  const [y, m, d] = date.split('-').map(n => parseInt(n, 10));
+  let offset = new Date(y, m - 1, d).getDay();
+  if (startOnMonday) {
+    offset = offset === 0 ? 6 : offset - 1;
+  }
+  return addDays(date, -offset);
+}
+
+// e.g. "Mo 13 Oct"
+function dayLabel(date: string): string {
+  const [y, m, d] = date.split('-').map(n => parseInt(n, 10));
+  return `${DAY_NAMES[new Date(y, m - 1, d).getDay()]} ${d} ${MONTH_NAMES[m - 1]}`;
+}
+
+/**
+ * Title of the week view's header, e.g. "13 – 19 Oct 2026" or "29 Sep – 5 Oct 2026".
+ */
+export function weekTitle(weekStart: string): string {
+  const end = addDays(weekStart, 6);
+  const [, m1, d1] = weekStart.split('-').map(n => parseInt(n, 10));
+  const [y2, m2, d2] = end.split('-').map(n => parseInt(n, 10));
+  return m1 === m2
+    ? `${d1} – ${d2} ${MONTH_NAMES[m2 - 1]} ${y2}`
+    : `${d1} ${MONTH_NAMES[m1 - 1]} – ${d2} ${MONTH_NAMES[m2 - 1]} ${y2}`;
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function countTasksByDay(tasks: Task[], statuses: TaskStatus[], today: string): Map<string, DayTaskCounts> {
+  const counts = new Map<string, DayTaskCounts>();
+  const countsOf = (date: string) => {
+    let day = counts.get(date);
+    if (!day) {
+      day = { open: 0, done: 0, overdue: 0 };
+      counts.set(date, day);
+    }
+    return day;
+  };
+  for (const task of tasks) {
+    const status = findTaskStatus(task.status, statuses);
+    if (status?.type === 'nonTask') continue;
+    const closed = isClosedStatus(status);
+    if (task.date) {
+      if (status?.type === 'done') {
+        countsOf(task.date).done++;
+      } else if (!closed) {
+        countsOf(task.date).open++;
+      }
+    }
+    if (task.due && task.due < today && !closed) {
+      countsOf(task.due).overdue++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Tooltip of a day's task counts, e.g. "3 open · 2 done · 1 overdue".
+ */
+export function taskCountsTitle(counts: DayTaskCounts): string {
+  return [
+    `${counts.open} open`,
+    `${counts.done} done`,
+    ...(counts.overdue > 0 ? [`${counts.overdue} overdue`] : [])
+  ].join(' · ');
+}
+
+/**
+ * One row per day: its notes, and the open and done tasks written in them.
+ * @param notesByDate paths of the date-prefixed notes, by date
+ */
+export function weekViewHtml(weekStart: string, notesByDate: Map<string, string[]>, taskCounts: Map<string, DayTaskCounts>, today: string): string {
+  let html = '<div class="week-view">';
+  for (let i = 0; i < 7; i++) {
+    const date = addDays(weekStart, i);
+    const notes = notesByDate.get(date) || [];
+    const day = taskCounts.get(date);
+    const counts = day && day.open + day.done + day.overdue > 0
+      ? `<span class="task-counts${day.overdue > 0 ? ' overdue' : ''}" title="Tasks in the notes of this day, and open tasks due on it">${taskCountsTitle(day)}</span>`
+      : '';
+    const notesHtml = notes.map(filePath =>
+      `<div class="week-note" data-file="${escapeHtml(filePath)}" title="${escapeHtml(filePath)}">${escapeHtml(path.basename(filePath, '.md'))}</div>`
+    ).join('');
+    html += `<div class="week-day${date === today ? ' today' : ''}${notes.length > 0 ? ' has-file' : ''}">
+      <div class="week-day-header" data-date="${date}" title="Options for ${date}"><span class="week-day-label">${dayLabel(date)}</span>${counts}</div>
+      ${notesHtml || '<div class="empty-day">No notes</div>'}
+    </div>`;
+  }
+  return html + '</div>';
+}
+
+/**
+ * The next `days` days from `from`, each with the tasks due or scheduled on it; open tasks due
+ * before `from` come first. The checkboxes toggle the tasks.
+ */
+export function agendaHtml(from: string, days: number, tasks: Task[], statuses: TaskStatus[]): string {
+  const end = addDays(from, days - 1);
+  const byDate = new Map<string, Task[]>();
+  const overdue: Task[] = [];
+  for (const task of tasks) {
+    const status = findTaskStatus(task.status, statuses);
+    if (status?.type === 'nonTask') continue;
+    if (task.due && task.due < from && !isClosedStatus(status)) {
+      overdue.push(task);
+      continue;
+    }
+    // A task due and scheduled on different days shows on both
+    for (const date of new Set([task.scheduled, task.due])) {
+      if (date && date >= from && date <= end) {
+        if (!byDate.has(date)) byDate.set(date, []);
+        byDate.get(date)!.push(task);
+      }
+    }
+  }
+
+  const byDateThenLine = (a: Task, b: Task) =>
+    (a.due || '').localeCompare(b.due || '') || a.filePath.localeCompare(b.filePath) || a.lineNumber - b.lineNumber;
+  const taskHtml = (task: Task, date?: string) => {
+    const closed = isClosedStatus(findTaskStatus(task.status, statuses));
+    const firstLine = task.task.split('\n')[0];
+    // Which date puts the task on this day, then its other date
+    const when = [
+      date && task.due === date ? '📅' : date && task.scheduled === date ? '⏳' : '',
+      task.due && task.due !== date ? `📅 ${task.due}` : '',
+      task.scheduled && task.scheduled !== date ? `⏳ ${task.scheduled}` : ''
+    ].filter(w => w).join(' ');
+    return `<div class="agenda-task${closed ? ' closed' : ''}" data-file="${escapeHtml(task.filePath)}" data-line="${task.lineNumber}">
+      <input type="checkbox" class="agenda-check"${closed ? ' checked' : ''} title="${closed ? 'Reopen' : 'Mark done'}">
+      <span class="agenda-text" title="${escapeHtml(path.basename(task.filePath))}:${task.lineNumber + 1}">${escapeHtml(stripTaskMetadata(firstLine) || firstLine)}</span>
+      <span class="agenda-when">${when}</span>
+    </div>`;
+  };
+
+  let html = '<div class="agenda-view">';
+  if (overdue.length > 0) {
+    html += `<div class="agenda-day overdue"><div class="agenda-day-header">Overdue</div>${overdue.sort(byDateThenLine).map(t => taskHtml(t)).join('')}</div>`;
+  }
+  for (let i = 0; i < days; i++) {
+    const date = addDays(from, i);
+    const dayTasks = (byDate.get(date) || []).sort(byDateThenLine);
+    html += `<div class="agenda-day${i === 0 ? ' today' : ''}">
+      <div class="agenda-day-header" data-date="${date}" title="Options for ${date}">${i === 0 ? 'Today · ' : ''}${dayLabel(date)}</div>
+      ${dayTasks.map(t => taskHtml(t, date)).join('') || '<div class="empty-day">Nothing due</div>'}
+    </div>`;
+  }
+  return html + '<button class="agenda-more">Show more days</button></div>';
+}
+
+/**
+ * Contribution graph of a year: one row per week, each day coloured by its share of the
+ * busiest day's value (tasks completed or words written).
+ */
+export function heatmapHtml(year: number, values: Map<string, number>, metric: HeatmapMetric, startOnMonday: boolean, today: string): string {
+  const first = `${year}-01-01`;
+  const last = `${year}-12-31`;
+  const unit = metric === 'tasks' ? 'tasks completed' : 'words written';
+  let max = 0;
+  let total = 0;
+  values.forEach((value, date) => {
+    if (date < first || date > last) return;
+    max = Math.max(max, value);
+    total += value;
+  });
+  const dayHeaders = startOnMonday ? ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'] : ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+  let html = `<div class="heatmap-total">${total.toLocaleString('en-US')} ${unit}</div>
+    <div class="heatmap"><div></div>${dayHeaders.map(day => `<div class="day-header">${day}</div>`).join('')}`;
+  for (let weekStart = weekStartOf(first, startOnMonday); weekStart <= last; weekStart = addDays(weekStart, 7)) {
+    // Month name on the week its first day falls in
+    const monthStart = [...Array(7).keys()].map(i => addDays(weekStart, i)).find(d => d.endsWith('-01') && d >= first && d <= last);
+    html += `<div class="heatmap-month">${monthStart ? MONTH_NAMES[parseInt(monthStart.slice(5, 7), 10) - 1] : ''}</div>`;
+    for (let i = 0; i < 7; i++) {
+      const date = addDays(weekStart, i);
+      if (date < first || date > last) {
+        html += '<div></div>';
+        continue;
+      }
+      const value = values.get(date) || 0;
+      // Levels 1-4 by quarter of the busiest day, 0 for none
+      const level = value > 0 ? Math.min(4, Math.ceil((value / max) * 4)) : 0;
+      html += `<div class="heat-day level-${level}${date === today ? ' today' : ''}" data-date="${date}" title="${date}: ${value.toLocaleString('en-US')} ${unit}"></div>`;
+    }
+  }
+  return html + '</div>';
+}
+
+export const CALENDAR_VIEWS_CSS = `
+        .mode-switch {
+            display: flex;
+            gap: 2px;
+            margin-bottom: 8px;
+        }
+        .mode-switch button {
+            flex: 1;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 2px 4px;
+            cursor: pointer;
+            border-radius: 2px;
+            font-size: 11px;
+        }
+        .mode-switch button.active {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .week-day, .agenda-day {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding: 4px 2px;
+        }
+        .week-day-header, .agenda-day-header {
+            display: flex;
+            justify-content: space-between;
+            font-weight: bold;
+            cursor: pointer;
+            margin-bottom: 2px;
+        }
+        .week-day-header:hover, .agenda-day-header:hover {
+            color: var(--vscode-textLink-foreground);
+        }
+        .week-day.today .week-day-label, .agenda-day.today .agenda-day-header {
+            color: var(--vscode-focusBorder);
+        }
+        .agenda-day.overdue .agenda-day-header {
+            color: var(--vscode-errorForeground);
+            cursor: default;
+        }
+        .task-counts {
+            font-weight: normal;
+            color: var(--vscode-descriptionForeground);
+        }
+        .task-counts.overdue {
+            color: var(--vscode-errorForeground);
+        }
+        .week-note {
+            padding-left: 8px;
+            cursor: pointer;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .week-note:hover, .agenda-text:hover {
+            text-decoration: underline;
+        }
+        .empty-day {
+            padding-left: 8px;
+            color: var(--vscode-descriptionForeground);
+            opacity: 0.6;
+        }
+        .agenda-task {
+            display: flex;
+            align-items: flex-start;
+            gap: 4px;
+        }
+        .agenda-check {
+            margin: 1px 0 0;
+        }
+        .agenda-text {
+            flex: 1;
+            cursor: pointer;
+            overflow-wrap: anywhere;
+        }
+        .agenda-task.closed .agenda-text {
+            text-decoration: line-through;
+            opacity: 0.6;
+        }
+        .agenda-when {
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
+        .agenda-more {
+            width: 100%;
+            margin-top: 6px;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 4px;
+            cursor: pointer;
+        }
+        .heatmap-total {
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 4px;
+        }
+        .heatmap {
+            display: grid;
+            grid-template-columns: 28px repeat(7, 1fr);
+            gap: 2px;
+        }
+        .heatmap-month {
+            font-size: 10px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .heat-day {
+            height: 12px;
+            border-radius: 2px;
+            cursor: pointer;
+            background: var(--vscode-editorWidget-background);
+            outline: 1px solid var(--vscode-panel-border);
+        }
+        .heat-day.level-1, .heat-day.level-2, .heat-day.level-3, .heat-day.level-4 {
+            background: var(--vscode-charts-green);
+        }
+        .heat-day.level-1 {
+            opacity: 0.35;
+        }
+        .heat-day.level-2 {
+            opacity: 0.55;
+        }
+        .heat-day.level-3 {
+            opacity: 0.8;
+        }
+        .heat-day.today {
+            outline: 1px solid var(--vscode-focusBorder);
+        }
+        .heat-day:hover {
+            outline: 1px solid var(--vscode-foreground);
+        }
+        .metric-select {
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            font-size: 11px;
+        }`;
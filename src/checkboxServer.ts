@@ -2,6 +2,8 @@ import { randomUUID, timingSafeEqual } from 'crypto';
 import express, { Request, Response } from 'express';
 import { AddressInfo } from 'net';
 import * as vscode from 'vscode';
+import { addRecurrenceEdits } from './recurrence';
+import { getTaskStatuses, findTaskStatus, nextTaskStatus, taskStatusCharClass } from './taskStatus';
 
 export function createCheckboxServer() {
     const serverNonce = randomUUID().toString();
@@ -11,6 +13,7 @@ export function createCheckboxServer() {
     
     app.get('/checkbox/mark', handleCheckboxMark(serverNonce));
     app.get('/hashtag/open', handleHashtagOpen(serverNonce));
+    app.get('/file/open', handleFileOpen(serverNonce));
     
     const server = app.listen();
     const port = (server.address() as AddressInfo).port;
@@ -31,9 +34,7 @@ const handleCheckboxMark = (serverNonce: string) => async (req: Request, res: Re
 
     const source = req.query.source as string;
     const line = parseInt(req.query.line as string);
-    const checked = req.query.checked === 'true';
-
-    await markCheckbox(source, line, checked);
+    await markCheckbox(source, line);
 
     res.contentType('image/png');
     res.send(Buffer.from(emptyImage, 'base64'));
@@ -55,6 +56,31 @@ const handleHashtagOpen = (serverNonce: string) => async (req: Request, res: Res
     res.send(Buffer.from(emptyImage, 'base64'));
 };
 
+const handleFileOpen = (serverNonce: string) => async (req: Request, res: Response) => {
+    if (!validateNonce(req.query.nonce as string, serverNonce)) {
+        res.status(403).send('Forbidden');
+        return;
+    }
+
+    const filePath = req.query.path as string;
+    const line = parseInt(req.query.line as string) || 0;
+
+    if (filePath) {
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+            const editor = await vscode.window.showTextDocument(document, { preview: false });
+            const position = new vscode.Position(Math.min(line, document.lineCount - 1), 0);
+            editor.selection = new vscode.Selection(position, position);
+            editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not open file: ${String(error)}`);
+        }
+    }
+
+    res.contentType('image/png');
+    res.send(Buffer.from(emptyImage, 'base64'));
+};
+
 function validateNonce(nonce: string, serverNonce: string) {
     if (!nonce || !serverNonce) {
         return false;
@@ -62,7 +88,7 @@ function validateNonce(nonce: string, serverNonce: string) {
     return timingSafeEqual(Buffer.from(nonce), Buffer.from(serverNonce));
 }
 
-async function markCheckbox(source: string, line: number, checked: boolean) {
+async function markCheckbox(source: string, line: number) {
     try {
         // Convert webview URL to file:// URI
         let filePath = source;
@@ -81,24 +107,31 @@ async function markCheckbox(source: string, line: number, checked: boolean) {
         }
 
         const lineText = document.lineAt(line).text;
-        const checkboxMatch = lineText.match(/\[([ xX])\]/);
+        const statuses = getTaskStatuses();
+        const checkboxMatch = lineText.match(new RegExp(`\\[(${taskStatusCharClass(statuses)})\\]`));
         const checkboxColumn = checkboxMatch?.index;
 
         if (checkboxColumn === undefined || !checkboxMatch) {
             return;
         }
 
-        const newMark = checked ? 'x' : ' ';
+        // Clicks cycle through the configured statuses instead of toggling done/todo
+        const next = nextTaskStatus(checkboxMatch[1], statuses);
+        const newMark = next.symbol;
+        const completes = next.type === 'done' && findTaskStatus(checkboxMatch[1], statuses)?.type !== 'done';
 
         // Use WorkspaceEdit to modify the file without opening an editor
         const edit = new vscode.WorkspaceEdit();
-        const checkRange = new vscode.Range(
-            line,
-            checkboxColumn + 1,
-            line,
-            checkboxColumn + 2
-        );
-        edit.replace(uri, checkRange, newMark);
+        // Recurring tasks get their completion date and next occurrence in the same edit
+        if (!completes || !(await addRecurrenceEdits(edit, document, line, newMark))) {
+            const checkRange = new vscode.Range(
+                line,
+                checkboxColumn + 1,
+                line,
+                checkboxColumn + 2
+            );
+            edit.replace(uri, checkRange, newMark);
+        }
         
         // Apply the edit
         const editSuccess = await vscode.workspace.applyEdit(edit);
@@ -0,0 +1,141 @@
+/**
+ * Moment.js style date formats, as used by Obsidian for note names, e.g. `YYYY-MM-DD`,
+ * `GGGG-[W]WW` or `dddd, MMMM Do YYYY`. Text in square brackets is copied as is.
+ * Week tokens (`W`, `WW`, `w`, `ww`) are ISO weeks (starting on Monday, week 1 holding the first
+ * Thursday of the year) and `GGGG`/`gggg` the year those weeks belong to.
+ */
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Longest tokens first, so `YYYY` is not read as two `YY`
+const TOKEN_REGEX = /\[([^\]]*)\]|YYYY|YY|GGGG|gggg|Q|MMMM|MMM|MM|M|Do|DDDD|DD|D|dddd|ddd|dd|d|WW|W|ww|w|HH|H|hh|h|mm|m|ss|s|A|a|X/g;
+
+/**
+ * ISO week of a date, and the year it belongs to (Jan 1-3 can be in the last week of the
+ * previous year, Dec 29-31 in week 1 of the next one).
+ */
+export function isoWeek(date: Date): { year: number; week: number } {
+  // The Thursday of the date's week decides its year
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 3 - (date.getDay() + 6) % 7);
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  const week = 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / 86400000 / 7 - (3 - (firstThursday.getDay() + 6) % 7) / 7);
+  return { year: thursday.getFullYear(), week };
+}
+
+/**
+ * Monday of ISO week `week` of `year`.
+ */
+export function isoWeekStart(year: number, week: number): Date {
+  const jan4 = new Date(year, 0, 4);
+  return new Date(year, 0, 4 - (jan4.getDay() + 6) % 7 + (week - 1) * 7);
+}
+
+function ordinal(n: number): string {
+  const rest = n % 100;
+  if (rest >= 11 && rest <= 13) return `${n}th`;
+  return n + (['th', 'st', 'nd', 'rd'][n % 10] || 'th');
+}
+
+export function formatDate(date: Date, format: string): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const week = isoWeek(date);
+  const dayOfYear = Math.round((new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() - new Date(date.getFullYear(), 0, 1).getTime()) / 86400000) + 1;
+  const hours12 = date.getHours() % 12 || 12;
+
+  return format.replace(TOKEN_REGEX, (token, literal: string | undefined) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return pad(date.getFullYear() % 100);
+      case 'GGGG':
+      case 'gggg': return String(week.year);
+      case 'Q': return String(Math.floor(date.getMonth() / 3) + 1);
+      case 'MMMM': return MONTH_NAMES[date.getMonth()];
+      case 'MMM': return MONTH_NAMES[date.getMonth()].slice(0, 3);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'Do': return ordinal(date.getDate());
+      case 'DDDD': return pad(dayOfYear, 3);
+      case 'DD': return pad(date.getDate());
+      case 'D': return String(date.getDate());
+      case 'dddd': return DAY_NAMES[date.getDay()];
+      case 'ddd': return DAY_NAMES[date.getDay()].slice(0, 3);
+      case 'dd': return DAY_NAMES[date.getDay()].slice(0, 2);
+      case 'd': return String(date.getDay());
+      case 'WW':
+      case 'ww': return pad(week.week);
+      case 'W':
+      case 'w': return String(week.week);
+      case 'HH': return pad(date.getHours());
+      case 'H': return String(date.getHours());
+      case 'hh': return pad(hours12);
+      case 'h': return String(hours12);
+      case 'mm': return pad(date.getMinutes());
+      case 'm': return String(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      case 's': return String(date.getSeconds());
+      case 'A': return date.getHours() < 12 ? 'AM' : 'PM';
+      case 'a': return date.getHours() < 12 ? 'am' : 'pm';
+      case 'X': return String(Math.floor(date.getTime() / 1000));
+      default: return token;
+    }
+  });
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Read a date written in `format`, e.g. `2026/10/19` with `YYYY/MM/DD`; undefined when the text
+ * does not match the format or the format has no year, month and day.
+ */
+export function parseDate(text: string, format: string): Date | undefined {
+  const names = (list: string[], length?: number) => list.map(name => length ? name.slice(0, length) : name).join('|');
+  const fields: string[] = [];
+  let pattern = '';
+  let last = 0;
+  for (const match of format.matchAll(TOKEN_REGEX)) {
+    pattern += escapeRegex(format.slice(last, match.index));
+    last = match.index! + match[0].length;
+    if (match[1] !== undefined) {
+      pattern += escapeRegex(match[1]);
+      continue;
+    }
+    const token = match[0];
+    const group = ({
+      YYYY: '\\d{4}', YY: '\\d{2}', GGGG: '\\d{4}', gggg: '\\d{4}', Q: '\\d',
+      MMMM: names(MONTH_NAMES), MMM: names(MONTH_NAMES, 3), MM: '\\d{2}', M: '\\d{1,2}',
+      Do: '\\d{1,2}(?:st|nd|rd|th)', DDDD: '\\d{3}', DD: '\\d{2}', D: '\\d{1,2}',
+      dddd: names(DAY_NAMES), ddd: names(DAY_NAMES, 3), dd: names(DAY_NAMES, 2), d: '\\d',
+      X: '\\d+', A: 'AM|PM', a: 'am|pm'
+    } as Record<string, string>)[token] || '\\d{1,2}';
+    pattern += `(${group})`;
+    fields.push(token);
+  }
+  pattern += escapeRegex(format.slice(last));
+
+  const match = text.match(new RegExp(`^${pattern}$`, 'i'));
+  if (!match) return undefined;
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+  fields.forEach((token, i) => {
+    const value = match[i + 1];
+    switch (token) {
+      case 'YYYY': year = parseInt(value, 10); break;
+      case 'YY': year = 2000 + parseInt(value, 10); break;
+      case 'MMMM':
+      case 'MMM': month = MONTH_NAMES.findIndex(name => name.toLowerCase().startsWith(value.toLowerCase())) + 1; break;
+      case 'MM':
+      case 'M': month = parseInt(value, 10); break;
+      case 'Do':
+      case 'DD':
+      case 'D': day = parseInt(value, 10); break;
+    }
+  });
+  if (year === undefined || month === undefined || day === undefined) return undefined;
+  const date = new Date(year, month - 1, day);
+  // Rejects 2026-02-30 and day names that don't match the date
+  return formatDate(date, format).toLowerCase() === text.toLowerCase() ? date : undefined;
+}
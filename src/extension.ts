@@ -2,8 +2,29 @@ import * as vscode from 'vscode';
 import { ObsidianTreeProvider, ObsidianNode } from './obsidianTree';
 import { TaskTableProvider } from './taskTableProvider';
 import { HashtagTreeProvider } from './hashtagTree';
+import { BacklinksTreeProvider } from './backlinksTree';
 import { NetworkSyncProvider, NetworkSyncDragAndDropController } from './networkSyncProvider';
 import { createCheckboxServer } from './checkboxServer';
+import { VaultIndex, isMarkdownPath, BLOCK_ID_REGEX } from './vaultIndex';
+import { LinkResolver, parseLinkTarget } from './linkResolver';
+import { LinkRewriter } from './linkRewriter';
+import { WikiLinkCompletionProvider } from './wikiLinkCompletion';
+import { LinkDiagnostics, LinkQuickFixProvider, buildVaultHealthReport } from './linkDiagnostics';
+import { registerRecurringTaskWatcher } from './recurrence';
+import { taskQueryPlugin, registerTaskQueryRefresh } from './taskQueryBlock';
+import { registerIcsExport } from './taskExport';
+import { TaskTimeTracker, TaskTimerCodeLensProvider } from './timeTracking';
+import { CalendarMode, HeatmapMetric, CALENDAR_MODES, CALENDAR_VIEWS_CSS, weekStartOf, weekTitle, weekViewHtml, agendaHtml, heatmapHtml, countTasksByDay, taskCountsTitle } from './calendarViews';
+import { loadVaultTasks } from './vaultTasks';
+import { NotePeriod, NOTE_PERIODS, ensurePeriodicNote, periodicNotePath } from './periodicNotes';
+import { isoWeek, formatDate } from './dateFormat';
+import { newNoteContent, resolveTemplatePath } from './templates';
+import { getDailyNoteSettings, attachmentFolderFor } from './obsidianConfig';
+import { parseTaskFilterQuery } from './taskFilterQuery';
+import { loadTaskViews } from './taskViews';
+import { newKanbanNote } from './kanban';
+import { toIsoDate, addDays } from './taskMetadata';
+import { getTaskStatuses, isClosedStatus, findTaskStatus, taskStatusCharClass } from './taskStatus';
 import * as path from 'path';
 import { promises as fs } from 'fs';
 import * as os from 'os';
@@ -70,17 +91,20 @@ async function showMarkdownPreviewSafe(uri: vscode.Uri): Promise<void> {
 }
 
 // Helper function to create a new file with proper content and opening mode
-async function createAndOpenNewFile(filePath: string, baseFileName: string): Promise<void> {
+// (content: the filled-in template, see newNoteContent; else the title when addTitleToNewFiles is on)
+async function createAndOpenNewFile(filePath: string, baseFileName: string, content?: string): Promise<void> {
   const cfg = vscode.workspace.getConfiguration('obsidianManager');
   const addTitle = cfg.get<boolean>('addTitleToNewFiles', true);
   const newFileOpenMode = cfg.get<string>('newFileOpenMode', 'edit');
   
   // Determine content based on settings
-  let content = '';
-  if (addTitle) {
-    // Remove .md extension and use as title
-    const title = baseFileName.replace(/\.md$/, '');
-    content = `# ${title}\n\n`;
+  if (content === undefined) {
+    content = '';
+    if (addTitle) {
+      // Remove .md extension and use as title
+      const title = baseFileName.replace(/\.md$/, '');
+      content = `# ${title}\n\n`;
+    }
   }
   
   // Create the file
@@ -96,53 +120,20 @@ async function createAndOpenNewFile(filePath: string, baseFileName: string): Pro
 }
 
 // Helper function to get all markdown files from the vault
-async function getAllMarkdownFiles(provider: ObsidianTreeProvider, vaultPath: string): Promise<any[]> {
-  const allFiles: any[] = [];
-  
-  async function collectFiles(node?: any): Promise<void> {
-    const children = await provider.getChildren(node);
-    for (const child of children) {
-      if (child.isDirectory) {
-        await collectFiles(child);
-      } else if (child.resourceUri.fsPath.toLowerCase().endsWith('.md')) {
-        allFiles.push(child);
-      }
-    }
-  }
-  
-  await collectFiles();
-  return allFiles;
-}
-
-// Helper function to generate Obsidian link based on file paths
-function generateObsidianLink(targetFilePath: string, currentFilePath: string, vaultPath: string): string {
-  // Get relative paths from vault root
-  const targetRelative = path.relative(vaultPath, targetFilePath);
-  const currentRelative = path.relative(vaultPath, currentFilePath);
-  
-  // Remove .md extension for Obsidian link format
-  const targetWithoutExt = targetRelative.replace(/\.md$/, '');
-  
-  // Check if files are in same directory
-  const targetDir = path.dirname(targetRelative);
-  const currentDir = path.dirname(currentRelative);
-  
-  if (targetDir === currentDir && targetDir === '.') {
-    // Both files in vault root
-    return `[[${path.basename(targetWithoutExt)}]]`;
-  } else if (targetDir === currentDir) {
-    // Same directory, use just filename
-    return `[[${path.basename(targetWithoutExt)}]]`;
-  } else {
-    // Different directories, use full path relative to vault
-    return `[[${targetWithoutExt}]]`;
-  }
+async function getAllMarkdownFiles(vaultIndex: VaultIndex): Promise<ObsidianNode[]> {
+  await vaultIndex.ready();
+  return vaultIndex.getNotes().map(note => ({ resourceUri: vscode.Uri.file(note.filePath), isDirectory: false }));
 }
 
 class ObsidianDragAndDropController implements vscode.TreeDragAndDropController<any> {
   readonly dragMimeTypes = ['application/vnd.code.tree.obsidianFiles'];
   readonly dropMimeTypes = ['application/vnd.code.tree.obsidianFiles', 'text/uri-list'];
-  constructor(private refreshFn: () => Promise<void>) {}
+  constructor(
+    private refreshFn: () => Promise<void>,
+    private linkRewriter: LinkRewriter,
+    private vaultIndex: VaultIndex,
+    private linkResolver: LinkResolver
+  ) {}
   // Called when dragging items
   handleDrag(source: any[], data: vscode.DataTransfer, token: vscode.CancellationToken): void | Thenable<void> {
     _lastDragged = source;
@@ -201,13 +192,14 @@ class ObsidianDragAndDropController implements vscode.TreeDragAndDropController<
         
         // If dest exists, ask what to do
         let destExists = false;
+        let overwrite = false;
         try { await fs.access(destPath); destExists = true; } catch (e) { destExists = false; }
         if (destExists) {
           const choice = await vscode.window.showQuickPick(['Overwrite', 'Rename', 'Cancel'], { placeHolder: `Conflict for ${base}` });
           if (!choice || choice === 'Cancel') continue;
           if (choice === 'Overwrite') {
-            // remove dest then move
-            try { await fs.rm(destPath, { recursive: true, force: true }); } catch (e) {}
+            // Replaced by the move itself, so nothing is lost when the move is discarded
+            overwrite = true;
           } else if (choice === 'Rename') {
             // find a new name
             const ext = path.extname(base);
@@ -220,7 +212,8 @@ class ObsidianDragAndDropController implements vscode.TreeDragAndDropController<
             }
           }
         }
-        await fs.rename(srcPath, destPath);
+        // Move and update links pointing at the moved item (skipped if the preview is discarded)
+        if (!await this.linkRewriter.moveWithLinks(srcPath, destPath, overwrite)) continue;
         // If file open in editor, reopen new uri
         for (const ed of vscode.window.visibleTextEditors) {
           if (ed.document.uri.fsPath === srcPath) {
@@ -287,6 +280,14 @@ class ObsidianDragAndDropController implements vscode.TreeDragAndDropController<
 
     if (!destFolder) return;
 
+    // Files dropped onto a note are attached to it: moved to its attachment folder (Obsidian's
+    // setting by default) and embedded at its end
+    const vaultPath = this.vaultIndex.vaultPath;
+    const attachTo = target && !target.isDirectory && target.resourceUri && isMarkdownPath(target.resourceUri.fsPath) && vaultPath
+      ? target.resourceUri.fsPath as string
+      : undefined;
+    const attached: string[] = [];
+
     // Process each external file
     for (const sourceUri of uris) {
       if (token.isCancellationRequested) break;
@@ -310,6 +311,13 @@ class ObsidianDragAndDropController implements vscode.TreeDragAndDropController<
           vscode.window.showWarningMessage(`Cannot copy "${fileName}": unsupported file type (socket, pipe, or device file)`);
           continue;
         }
+
+        const attach = !!attachTo && sourceStats.isFile() && !isMarkdownPath(sourcePath);
+        const fileDestFolder = attach ? attachmentFolderFor(vaultPath!, attachTo!) : destFolder;
+        if (attach) {
+          await fs.mkdir(fileDestFolder, { recursive: true });
+          destPath = path.join(fileDestFolder, fileName);
+        }
         
         // Check if trying to copy a directory into itself or its subdirectory
         if (sourceStats.isDirectory()) {
@@ -347,7 +355,7 @@ class ObsidianDragAndDropController implements vscode.TreeDragAndDropController<
             
             while (true) {
               const candidate = `${nameOnly}-${idx}${ext}`;
-              const candidatePath = path.join(destFolder, candidate);
+              const candidatePath = path.join(fileDestFolder, candidate);
               try { 
                 await fs.access(candidatePath); 
                 idx++; 
@@ -367,6 +375,9 @@ class ObsidianDragAndDropController implements vscode.TreeDragAndDropController<
         } else {
           await fs.copyFile(sourcePath, destPath);
         }
+        if (attach) {
+          attached.push(destPath);
+        }
 
         // Delete the original file/directory after successful copy (move operation)
         try {
@@ -386,6 +397,18 @@ class ObsidianDragAndDropController implements vscode.TreeDragAndDropController<
       }
     }
 
+    if (attachTo && attached.length > 0) {
+      try {
+        // Indexed first, so the links can use the shortest form
+        await this.vaultIndex.refreshPaths(attached);
+        const content = await fs.readFile(attachTo, 'utf8');
+        const embeds = attached.map(filePath => `!${this.linkResolver.generateObsidianLink(filePath, attachTo)}`).join('\n');
+        await fs.writeFile(attachTo, `${content.replace(/\s*$/, '')}${content.trim() ? '\n\n' : ''}${embeds}\n`);
+      } catch (err) {
+        vscode.window.showErrorMessage(`Error embedding attachments: ${String(err)}`);
+      }
+    }
+
     // Refresh the tree view
     try { 
       await this.refreshFn(); 
@@ -429,6 +452,8 @@ class ObsidianDragAndDropController implements vscode.TreeDragAndDropController<
 
 // Wiki-link document link provider for Cmd+Click functionality in editor
 class WikiLinkProvider implements vscode.DocumentLinkProvider {
+  constructor(private resolver: LinkResolver) {}
+
   provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
     const links: vscode.DocumentLink[] = [];
     const text = document.getText();
@@ -445,34 +470,34 @@ class WikiLinkProvider implements vscode.DocumentLinkProvider {
     let match;
     
     while ((match = wikiLinkRegex.exec(text)) !== null) {
-      const linkText = match[1];
       const startPos = document.positionAt(match.index);
       const endPos = document.positionAt(match.index + match[0].length);
       
-      // Extract target (handle piped links)
-      let target = linkText;
-      if (linkText.includes('|')) {
-        target = linkText.split('|')[0].trim();
-      }
-      
-      // Clean target
-      let cleanTarget = target.trim();
-      if (cleanTarget.endsWith('.md')) {
-        cleanTarget = cleanTarget.slice(0, -3);
-      }
+      // Extract target (handle piped links and #heading / #^block fragments)
+      const { linkpath, subpath } = parseLinkTarget(match[1]);
       
-      // Resolve absolute path
-      const fullPath = path.join(configuredVault, `${cleanTarget}.md`);
+      // Resolve like Obsidian does; unresolved links point where Obsidian would create the note
+      const resolved = this.resolver.resolveLink(match[1], document.uri.fsPath);
+      const fullPath = resolved ? resolved.filePath : path.join(configuredVault, isMarkdownPath(linkpath) ? linkpath : `${linkpath}.md`);
       
-      // Create URI for the file directly (not via command)
-      const fileUri = vscode.Uri.file(fullPath);
+      // Create URI for the file directly (not via command); #L<n> makes the editor jump to the fragment
+      let fileUri = vscode.Uri.file(fullPath);
+      if (resolved && resolved.line !== undefined) {
+        fileUri = fileUri.with({ fragment: `L${resolved.line + 1}` });
+      }
       
       const documentLink = new vscode.DocumentLink(
         new vscode.Range(startPos, endPos),
         fileUri
       );
       
-      documentLink.tooltip = `Click to open "${target}"`;
+      if (!resolved) {
+        documentLink.tooltip = `"${linkpath}" not found in vault`;
+      } else if (!resolved.subpathFound) {
+        documentLink.tooltip = `"#${subpath}" not found in "${this.resolver.toVaultRelative(resolved.filePath)}"`;
+      } else {
+        documentLink.tooltip = `Click to open "${this.resolver.toVaultRelative(resolved.filePath)}${subpath ? '#' + subpath : ''}"`;
+      }
       links.push(documentLink);
     }
     
@@ -482,6 +507,8 @@ class WikiLinkProvider implements vscode.DocumentLinkProvider {
 
 // Hover provider to show "Open link" tooltip
 class WikiHoverProvider implements vscode.HoverProvider {
+  constructor(private resolver: LinkResolver) {}
+
   provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
     const line = document.lineAt(position.line);
     const text = line.text;
@@ -496,14 +523,9 @@ class WikiHoverProvider implements vscode.HoverProvider {
       
       // Check if cursor is within this wiki-link
       if (position.character >= startCol && position.character <= endCol) {
-        const linkText = match[1];
-        let target = linkText;
-        
-        // Handle piped links
-        if (linkText.includes('|')) {
-          const parts = linkText.split('|');
-          target = parts[0].trim();
-        }
+        // Handle piped links and fragments
+        const { linkpath, subpath } = parseLinkTarget(match[1]);
+        const resolved = this.resolver.resolveLink(match[1], document.uri.fsPath);
         
         const range = new vscode.Range(
           new vscode.Position(position.line, startCol),
@@ -513,8 +535,17 @@ class WikiHoverProvider implements vscode.HoverProvider {
         const markdown = new vscode.MarkdownString();
         markdown.isTrusted = true;
         markdown.supportHtml = true;
-        markdown.appendMarkdown(`**Wiki-link**: \`${target}\`\n\n`);
-        markdown.appendMarkdown(`*Click to open | Cmd+Click for new tab*`);
+        markdown.appendMarkdown(`**Wiki-link**: \`${linkpath}${subpath ? '#' + subpath : ''}\`\n\n`);
+        if (resolved) {
+          const lineInfo = resolved.line !== undefined ? ` (line ${resolved.line + 1})` : '';
+          markdown.appendMarkdown(`→ \`${this.resolver.toVaultRelative(resolved.filePath)}\`${lineInfo}\n\n`);
+          if (!resolved.subpathFound) {
+            markdown.appendMarkdown(`*\`#${subpath}\` not found in note*\n\n`);
+          }
+          markdown.appendMarkdown(`*Click to open | Cmd+Click for new tab*`);
+        } else {
+          markdown.appendMarkdown(`*Not found in vault*`);
+        }
         
         return new vscode.Hover(markdown, range);
       }
@@ -534,6 +565,12 @@ export async function activate(context: vscode.ExtensionContext) {
   checkboxServerPort = port;
   checkboxServerNonce = serverNonce;
   context.subscriptions.push(disposable);
+
+  // Shared vault index: one scan and one watcher feeding the tree, hashtags, calendar and task table
+  const vaultIndex = new VaultIndex(context);
+  const linkResolver = new LinkResolver(vaultIndex);
+  const linkRewriter = new LinkRewriter(vaultIndex, linkResolver);
+  context.subscriptions.push(vaultIndex, linkResolver);
   
   const openHandler = async (args: any) => {
     // Prefer a URI passed by the command (e.g., from a menu on a resource). Fallback to active editor.
@@ -730,7 +767,10 @@ export async function activate(context: vscode.ExtensionContext) {
     const fileName = name.endsWith('.md') ? name : `${name}.md`;
     const target = path.join(folderFs, fileName);
     try {
-      await createAndOpenNewFile(target, fileName);
+      // Template picked now, prompts of the template asked now; Esc cancels the note
+      const content = await newNoteContent(vaultIndex, target);
+      if (content === undefined) return;
+      await createAndOpenNewFile(target, fileName, content);
       // Refresh provider so view updates
       try { await provider.refreshAll(); } catch (e) { provider.refresh(); }
     } catch (err) {
@@ -800,15 +840,15 @@ export async function activate(context: vscode.ExtensionContext) {
     const newName = node.isDirectory ? input : (input.endsWith(ext) ? input : input + ext);
     const newPath = path.join(path.dirname(oldPath), newName);
     try {
-      // handle existing
-      try { await fs.access(newPath); // exists
+      // handle existing: replaced by the rename itself, so nothing is lost when it is discarded
+      let targetExists = false;
+      try { await fs.access(newPath); targetExists = true; } catch (e) { /* doesn't exist */ }
+      if (targetExists) {
         const choice = await vscode.window.showQuickPick(['Overwrite','Cancel'], { placeHolder: 'Target exists' });
         if (!choice || choice === 'Cancel') return;
-        await fs.rm(newPath, { recursive: true, force: true });
-      } catch (e) {
-        // doesn't exist
       }
-      await fs.rename(oldPath, newPath);
+      // Rename and update links pointing at the renamed item (nothing happens if the preview is discarded)
+      if (!await linkRewriter.moveWithLinks(oldPath, newPath, targetExists)) return;
       // reopen if needed
       for (const ed of vscode.window.visibleTextEditors) {
         if (ed.document.uri.fsPath === oldPath) {
@@ -849,71 +889,32 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(deleteCmd);
 
   // Register view provider and wait for initial preload so the view can render fully
-  const provider = new ObsidianTreeProvider(context);
+  const provider = new ObsidianTreeProvider(context, vaultIndex);
   await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Preloading Obsidian vault...' }, async () => {
     await provider.ensurePreloaded();
   });
 
-  // File system watcher to monitor vault changes
-  const cfg = vscode.workspace.getConfiguration('obsidianManager');
-  const vaultPath = cfg.get<string>('vault', '');
-  let fileWatcher: vscode.FileSystemWatcher | undefined;
-  let hashtagRefreshTimeout: NodeJS.Timeout | undefined;
-  
-  const setupFileWatcher = () => {
-    if (fileWatcher) {
-      fileWatcher.dispose();
-    }
-    
-    const currentVaultPath = vscode.workspace.getConfiguration('obsidianManager').get<string>('vault', '');
-    if (currentVaultPath) {
-      const pattern = new vscode.RelativePattern(currentVaultPath, '**/*.md');
-      fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
-      
-      // Debounced refresh function to prevent multiple rapid refreshes
-      const debouncedRefresh = () => {
-        // Calendar refresh (already has its own debounce)
-        vscode.commands.executeCommand('obsidianManager.refreshCalendar');
-        
-        // Hashtags refresh with debounce
-        if (hashtagRefreshTimeout) {
-          clearTimeout(hashtagRefreshTimeout);
-        }
-        hashtagRefreshTimeout = setTimeout(() => {
-          vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-          hashtagRefreshTimeout = undefined;
-        }, 500); // 500ms debounce for hashtags
-      };
-      
-      // Refresh calendar and hashtags when files are created, changed, or deleted
-      fileWatcher.onDidCreate(debouncedRefresh);
-      fileWatcher.onDidChange(debouncedRefresh);
-      fileWatcher.onDidDelete(debouncedRefresh);
-      
-      context.subscriptions.push(fileWatcher);
-    }
-  };
-  
-  setupFileWatcher();
-  
-  // Re-setup watcher when vault configuration changes
-  vscode.workspace.onDidChangeConfiguration(e => {
-    if (e.affectsConfiguration('obsidianManager.vault')) {
-      setupFileWatcher();
-    }
-  });
+  // Refresh calendar when notes are created, changed, or deleted (it has its own debounce)
+  context.subscriptions.push(vaultIndex.onDidChange(() => {
+    vscode.commands.executeCommand('obsidianManager.refreshCalendar');
+  }));
 
-  const dndController = new ObsidianDragAndDropController(async () => { try { await provider.refreshAll(); } catch (e) { provider.refresh(); } });
+  const dndController = new ObsidianDragAndDropController(async () => { try { await provider.refreshAll(); } catch (e) { provider.refresh(); } }, linkRewriter, vaultIndex, linkResolver);
   let treeView = vscode.window.createTreeView('obsidianFiles', { treeDataProvider: provider, dragAndDropController: dndController });
   context.subscriptions.push(treeView);
 
+  // Register backlinks tree provider (follows the active note, see revealFileInTree below)
+  const backlinksProvider = new BacklinksTreeProvider(context, vaultIndex, linkResolver);
+  const backlinksTreeView = vscode.window.createTreeView('obsidianBacklinks', { treeDataProvider: backlinksProvider });
+  context.subscriptions.push(backlinksTreeView);
+
   // Register hashtag tree provider
-  const hashtagProvider = new HashtagTreeProvider(context);
+  const hashtagProvider = new HashtagTreeProvider(context, vaultIndex);
   const hashtagTreeView = vscode.window.createTreeView('obsidianHashtags', { treeDataProvider: hashtagProvider });
   context.subscriptions.push(hashtagTreeView);
 
   // Register Network Sync tree provider
-  const networkSyncProvider = new NetworkSyncProvider(context);
+  const networkSyncProvider = new NetworkSyncProvider(context, linkRewriter);
   const networkSyncDnD = new NetworkSyncDragAndDropController(networkSyncProvider);
   const networkSyncTreeView = vscode.window.createTreeView('obsidianNetworkSync', {
     treeDataProvider: networkSyncProvider,
@@ -1006,6 +1007,9 @@ export async function activate(context: vscode.ExtensionContext) {
       return;
     }
 
+    // Backlinks follow the same active file
+    backlinksProvider.setActiveFile(documentUri);
+
     const documentPath = path.normalize(documentUri.fsPath);
     const cfg = vscode.workspace.getConfiguration('obsidianManager');
     const vaultPath = (cfg.get<string>('vault') || '').trim();
@@ -1079,7 +1083,47 @@ export async function activate(context: vscode.ExtensionContext) {
   let currentCalendarYear: number = now.getFullYear();
   let currentCalendarMonth: number = now.getMonth();
   let calendarUpdateFunction: ((year: number, month: number) => Promise<void>) | undefined;
+  // Month grid, week or agenda, kept across sessions
+  let currentCalendarMode: CalendarMode = context.workspaceState.get<CalendarMode>('obsidianManager.calendarMode', 'month');
+  let currentCalendarWeekStart: string | undefined; // first day of the week of the week mode
+  let currentAgendaDays: number | undefined; // days of the agenda once "Show more days" was clicked
+  let currentHeatmapMetric: HeatmapMetric = context.workspaceState.get<HeatmapMetric>('obsidianManager.calendarHeatmapMetric', 'tasks');
   
+  // Open a note of the calendar as set by obsidianManager.openFileMode
+  const openCalendarNote = async (filePath: string) => {
+    const openFileMode = vscode.workspace.getConfiguration('obsidianManager').get<string>('openFileMode', 'preview');
+    if (openFileMode === 'preview') {
+      await showMarkdownPreviewSafe(vscode.Uri.file(filePath));
+    } else {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      await vscode.window.showTextDocument(document, { preview: false });
+    }
+  };
+
+  // Open the note of the period containing `date`, creating it from its template when missing
+  const openPeriodicNote = async (period: NotePeriod, date: Date) => {
+    const vaultPath = vaultIndex.vaultPath;
+    if (!vaultPath) {
+      vscode.window.showErrorMessage('Please configure the `obsidianManager.vault` setting with the vault path first.');
+      return;
+    }
+    try {
+      const note = await ensurePeriodicNote(vaultPath, period, date);
+      if (!note) return;
+      const { filePath, created } = note;
+      if (!created) {
+        await openCalendarNote(filePath);
+      } else if (vscode.workspace.getConfiguration('obsidianManager').get<string>('newFileOpenMode', 'edit') === 'edit') {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+        await vscode.window.showTextDocument(document, { preview: false });
+      } else {
+        await showMarkdownPreviewSafe(vscode.Uri.file(filePath));
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error opening periodic note: ${error}`);
+    }
+  };
+
   const calendarViewProvider = vscode.window.registerWebviewViewProvider('obsidianCalendar', {
     resolveWebviewView(webviewView: vscode.WebviewView) {
       currentCalendarView = webviewView;
@@ -1119,88 +1163,146 @@ export async function activate(context: vscode.ExtensionContext) {
         const filesInFolder = new Set<string>();
         const filePathsMap = new Map<string, string[]>(); // Map date to array of full file paths
         if (vaultPath) {
-          const scanFolderRecursively = async (dirPath: string, depth: number = 0): Promise<void> => {
-            // Safety check: prevent infinite recursion
-            if (depth > 50) {
-              return;
-            }
-            
-            try {
-              const entries = await fs.readdir(dirPath, { withFileTypes: true });
-              for (const entry of entries) {
-                // Skip hidden files and folders
-                if (entry.name.startsWith('.')) {
-                  continue;
-                }
-                
-                if (entry.isFile() && entry.name.endsWith('.md')) {
-                  const dateMatch = entry.name.match(/^(\d{4}-\d{2}-\d{2})/);
-                  if (dateMatch) {
-                    const dateStr = dateMatch[1];
-                    filesInFolder.add(dateStr);
-                    // Store the full paths for this date (support multiple files)
-                    if (!filePathsMap.has(dateStr)) {
-                      filePathsMap.set(dateStr, []);
-                    }
-                    filePathsMap.get(dateStr)!.push(path.join(dirPath, entry.name));
-                  }
-                } else if (entry.isDirectory()) {
-                  await scanFolderRecursively(path.join(dirPath, entry.name), depth + 1);
-                }
-              }
-            } catch (e) {
-              // Ignore errors
+          // Always use the entire vault (root folder)
+          await vaultIndex.ready();
+          for (const note of vaultIndex.getNotes()) {
+            const dateStr = note.datePrefix;
+            if (!dateStr) continue;
+            filesInFolder.add(dateStr);
+            // Store the full paths for this date (support multiple files)
+            if (!filePathsMap.has(dateStr)) {
+              filePathsMap.set(dateStr, []);
             }
-          };
-          
-          // Always scan entire vault (root folder)
-          await scanFolderRecursively(vaultPath);
+            filePathsMap.get(dateStr)!.push(note.filePath);
+          }
         }
         
-        let calendarHtml = `
-          <div class="calendar-header">
-            <button onclick="previousMonth()">&lt;</button>
-            <span class="month-year">${monthNames[month]} ${year}</span>
-            <button onclick="nextMonth()">&gt;</button>
-          </div>
-          <div class="calendar-grid">
-            ${dayHeaders.map(day => `<div class="day-header">${day}</div>`).join('')}`;
+        // Header of a period that opens (or creates) its periodic note
+        const periodLink = (period: NotePeriod, date: Date, text: string) => {
+          const notePath = vaultPath ? periodicNotePath(vaultIndex.vaultPath || vaultPath, period, date) : '';
+          const exists = !!notePath && !!vaultIndex.getNote(notePath);
+          return `<span class="period-link${exists ? ' has-note' : ''}" data-period="${period}" data-period-date="${toIsoDate(date)}" title="${exists ? 'Open' : 'Create'} ${path.basename(notePath, '.md')}">${text}</span>`;
+        };
+        const parseDay = (date: string) => {
+          const [y, m, d] = date.split('-').map(n => parseInt(n, 10));
+          return new Date(y, m - 1, d);
+        };
+
+        const modeSwitchHtml = `
+          <div class="mode-switch">
+            ${CALENDAR_MODES.map(m => `<button data-mode="${m.mode}" title="${m.title}"${m.mode === currentCalendarMode ? ' class="active"' : ''}>${m.label}</button>`).join('')}
+          </div>`;
+
+        // Same tasks as the task table
+        await vaultIndex.ready();
+        const tasks = loadVaultTasks(vaultIndex);
+        const statuses = getTaskStatuses();
+        const taskCounts = countTasksByDay(tasks, statuses, todayStr);
+
+        let calendarHtml: string;
+        if (currentCalendarMode === 'week') {
+          const weekStart = currentCalendarWeekStart || weekStartOf(todayStr, startOnMonday);
+          currentCalendarWeekStart = weekStart;
+          calendarHtml = `${modeSwitchHtml}
+            <div class="calendar-header">
+              <button onclick="shiftWeek(-7)">&lt;</button>
+              <span class="month-year">${periodLink('week', parseDay(addDays(weekStart, startOnMonday ? 0 : 1)), weekTitle(weekStart))}</span>
+              <button onclick="shiftWeek(7)">&gt;</button>
+            </div>
+            ${weekViewHtml(weekStart, filePathsMap, taskCounts, todayStr)}`;
+        } else if (currentCalendarMode === 'agenda') {
+          const days = currentAgendaDays || cfg.get<number>('calendarAgendaDays', 14);
+          calendarHtml = `${modeSwitchHtml}
+            <div class="calendar-header">
+              <span class="month-year">Next ${days} days</span>
+            </div>
+            ${agendaHtml(todayStr, days, tasks, statuses)}`;
+        } else if (currentCalendarMode === 'year') {
+          // Tasks by their ✅ date, words by the date of their note
+          const values = new Map<string, number>();
+          if (currentHeatmapMetric === 'tasks') {
+            for (const task of tasks) {
+              if (task.doneDate && findTaskStatus(task.status, statuses)?.type === 'done') {
+                values.set(task.doneDate, (values.get(task.doneDate) || 0) + 1);
+              }
+            }
+          } else {
+            for (const note of vaultIndex.getNotes()) {
+              if (note.datePrefix) {
+                values.set(note.datePrefix, (values.get(note.datePrefix) || 0) + note.words);
+              }
+            }
+          }
+          calendarHtml = `${modeSwitchHtml}
+            <div class="calendar-header">
+              <button onclick="shiftYear(-1)">&lt;</button>
+              <span class="month-year">${periodLink('year', new Date(year, 0, 1), String(year))}</span>
+              <select class="metric-select" title="Colour the days by">
+                <option value="tasks"${currentHeatmapMetric === 'tasks' ? ' selected' : ''}>Tasks done</option>
+                <option value="words"${currentHeatmapMetric === 'words' ? ' selected' : ''}>Words</option>
+              </select>
+              <button onclick="shiftYear(1)">&gt;</button>
+            </div>
+            ${heatmapHtml(year, values, currentHeatmapMetric, startOnMonday, todayStr)}`;
+        } else {
+          calendarHtml = `${modeSwitchHtml}
+            <div class="calendar-header">
+              <button onclick="previousMonth()">&lt;</button>
+              <span class="month-year">${periodLink('month', new Date(year, month, 1), `${monthNames[month]} ${year}`)} ${periodLink('quarter', new Date(year, month, 1), `Q${Math.floor(month / 3) + 1}`)}</span>
+              <button onclick="nextMonth()">&gt;</button>
+            </div>
+            <div class="calendar-grid">
+              <div class="day-header" title="ISO week">W</div>
+              ${dayHeaders.map(day => `<div class="day-header">${day}</div>`).join('')}`;
         
-        const currentDate = new Date(startDate);
-        for (let week = 0; week < 6; week++) {
-          for (let day = 0; day < 7; day++) {
-            const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
-            const isCurrentMonth = currentDate.getMonth() === month;
-            const isToday = dateStr === todayStr;
-            const hasFile = filesInFolder.has(dateStr);
+          const currentDate = new Date(startDate);
+          for (let week = 0; week < 6; week++) {
+            // ISO week of the row, by its Monday
+            const monday = new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() + (startOnMonday ? 0 : 1));
+            calendarHtml += `<div class="week-number">${periodLink('week', monday, String(isoWeek(monday).week))}</div>`;
+            for (let day = 0; day < 7; day++) {
+              const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
+              const isCurrentMonth = currentDate.getMonth() === month;
+              const isToday = dateStr === todayStr;
+              const hasFile = filesInFolder.has(dateStr);
             
-            const classes = [
-              'day',
-              isCurrentMonth ? 'current-month' : 'other-month',
-              isToday ? 'today' : '',
-              hasFile ? 'has-file' : ''
-            ].filter(Boolean).join(' ');
+              const counts = taskCounts.get(dateStr);
+              const classes = [
+                'day',
+                isCurrentMonth ? 'current-month' : 'other-month',
+                isToday ? 'today' : '',
+                hasFile ? 'has-file' : '',
+                counts && counts.overdue > 0 ? 'has-overdue' : ''
+              ].filter(Boolean).join(' ');
             
-            // Generate dots for each file found for this date
-            let dotsHtml = '';
-            const filesForDate = filePathsMap.get(dateStr);
-            if (filesForDate && filesForDate.length > 0) {
-              dotsHtml = filesForDate.map(filePath => {
-                const fileName = path.basename(filePath, '.md');
-                return `<span class="file-dot" title="${fileName}"></span>`;
-              }).join('');
-            }
+              // Generate dots for each file found for this date
+              let dotsHtml = '';
+              const filesForDate = filePathsMap.get(dateStr);
+              if (filesForDate && filesForDate.length > 0) {
+                dotsHtml = filesForDate.map(filePath => {
+                  const fileName = path.basename(filePath, '.md');
+                  return `<span class="file-dot" title="${fileName}"></span>`;
+                }).join('');
+              }
+            
+              // Open and done tasks of the day's notes in the corner
+              const badgeHtml = counts && counts.open + counts.done > 0
+                ? `<span class="task-badge">${counts.open > 0 ? `<span class="open-count">${counts.open}</span>` : ''}${counts.done > 0 ? `<span class="done-count">${counts.done}</span>` : ''}</span>`
+                : '';
             
-            calendarHtml += `<div class="${classes}" onclick="dayClicked('${dateStr}')">
-              <span class="day-number">${currentDate.getDate()}</span>
-              <div class="file-dots">${dotsHtml}</div>
-            </div>`;
+              calendarHtml += `<div class="${classes}" onclick="dayClicked('${dateStr}')"${counts ? ` title="${taskCountsTitle(counts)}"` : ''}>
+                ${counts && counts.overdue > 0 ? '<span class="overdue-marker"></span>' : ''}
+                <span class="day-number">${currentDate.getDate()}</span>
+                ${badgeHtml}
+                <div class="file-dots">${dotsHtml}</div>
+              </div>`;
             
-            currentDate.setDate(currentDate.getDate() + 1);
+              currentDate.setDate(currentDate.getDate() + 1);
+            }
           }
-        }
         
-        calendarHtml += '</div>';
+          calendarHtml += '</div>';
+        }
         
         // Store current year and month for refresh
         currentCalendarYear = year;
@@ -1242,7 +1344,7 @@ export async function activate(context: vscode.ExtensionContext) {
         }
         .calendar-grid {
             display: grid;
-            grid-template-columns: repeat(7, 1fr);
+            grid-template-columns: auto repeat(7, 1fr);
             gap: 1px;
         }
         .day-header {
@@ -1313,6 +1415,52 @@ export async function activate(context: vscode.ExtensionContext) {
         .day.today.has-file .day-number {
             color: var(--vscode-editor-background);
         }
+        .week-number {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            padding: 0 3px;
+            font-size: 9px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .period-link {
+            cursor: pointer;
+        }
+        .period-link:hover {
+            color: var(--vscode-textLink-foreground);
+            text-decoration: underline;
+        }
+        .period-link.has-note {
+            color: var(--vscode-textLink-foreground);
+        }
+        .task-badge {
+            position: absolute;
+            top: 0;
+            right: 1px;
+            display: flex;
+            gap: 1px;
+            font-size: 8px;
+            line-height: 9px;
+        }
+        .open-count, .done-count {
+            border-radius: 2px;
+            padding: 0 1px;
+            color: var(--vscode-editor-background);
+        }
+        .open-count {
+            background: var(--vscode-charts-blue);
+        }
+        .done-count {
+            background: var(--vscode-charts-green);
+        }
+        .overdue-marker {
+            position: absolute;
+            top: 0;
+            left: 0;
+            border-top: 5px solid var(--vscode-errorForeground);
+            border-right: 5px solid transparent;
+        }
+${CALENDAR_VIEWS_CSS}
     </style>
 </head>
 <body>
@@ -1359,6 +1507,69 @@ export async function activate(context: vscode.ExtensionContext) {
                 existingFilePaths: existingFilePaths 
             });
         }
+
+        function shiftWeek(days) {
+            vscode.postMessage({ command: 'shiftCalendarWeek', days: days });
+        }
+
+        function shiftYear(years) {
+            currentYear += years;
+            vscode.postMessage({ command: 'updateCalendar', year: currentYear, month: currentMonth });
+        }
+
+        // Week and agenda modes
+        document.addEventListener('click', function(e) {
+            const target = e.target;
+            const periodLink = target.closest('[data-period]');
+            if (periodLink) {
+                vscode.postMessage({ command: 'openPeriodicNote', period: periodLink.getAttribute('data-period'), date: periodLink.getAttribute('data-period-date') });
+                return;
+            }
+            const modeButton = target.closest('.mode-switch button');
+            if (modeButton) {
+                vscode.postMessage({ command: 'setCalendarMode', mode: modeButton.getAttribute('data-mode') });
+                return;
+            }
+            const dayHeader = target.closest('[data-date]');
+            if (dayHeader) {
+                dayClicked(dayHeader.getAttribute('data-date'));
+                return;
+            }
+            if (target.classList.contains('week-note')) {
+                vscode.postMessage({ command: 'openNote', filePath: target.getAttribute('data-file') });
+                return;
+            }
+            const task = target.closest('.agenda-task');
+            if (task && target.classList.contains('agenda-text')) {
+                vscode.postMessage({ command: 'openTask', filePath: task.getAttribute('data-file'), lineNumber: parseInt(task.getAttribute('data-line'), 10) });
+                return;
+            }
+            if (target.classList.contains('agenda-more')) {
+                vscode.postMessage({ command: 'showMoreAgendaDays' });
+            }
+        });
+
+        document.addEventListener('change', function(e) {
+            if (e.target.classList.contains('metric-select')) {
+                vscode.postMessage({ command: 'setHeatmapMetric', metric: e.target.value });
+                return;
+            }
+            const task = e.target.closest('.agenda-task');
+            if (task && e.target.classList.contains('agenda-check')) {
+                e.target.disabled = true;
+                vscode.postMessage({ command: 'toggleTask', filePath: task.getAttribute('data-file'), lineNumber: parseInt(task.getAttribute('data-line'), 10) });
+            }
+        });
+
+        // The view is rebuilt on every change: keep the scroll position of the agenda
+        const mode = ${JSON.stringify(currentCalendarMode)};
+        const state = vscode.getState();
+        if (state && state.mode === mode) {
+            window.scrollTo(0, state.scrollY || 0);
+        }
+        window.addEventListener('scroll', function() {
+            vscode.setState({ mode: mode, scrollY: window.scrollY });
+        });
     </script>
 </body>
 </html>`;
@@ -1376,6 +1587,45 @@ export async function activate(context: vscode.ExtensionContext) {
           await updateCalendar(message.year, message.month);
 
 
+        } else if (message.command === 'setCalendarMode') {
+          currentCalendarMode = CALENDAR_MODES.some(m => m.mode === message.mode) ? message.mode : 'month';
+          await context.workspaceState.update('obsidianManager.calendarMode', currentCalendarMode);
+          if (currentCalendarMode === 'week') {
+            // The current week, or the first week of the month shown
+            const startOnMonday = vscode.workspace.getConfiguration('obsidianManager').get<string>('weekStartDay', 'monday') === 'monday';
+            const today = toIsoDate(new Date());
+            const shownMonth = toIsoDate(new Date(currentCalendarYear, currentCalendarMonth, 1));
+            currentCalendarWeekStart = weekStartOf(today.slice(0, 7) === shownMonth.slice(0, 7) ? today : shownMonth, startOnMonday);
+          }
+          currentAgendaDays = undefined;
+          await updateCalendar(currentCalendarYear, currentCalendarMonth);
+        } else if (message.command === 'shiftCalendarWeek') {
+          if (currentCalendarWeekStart) {
+            currentCalendarWeekStart = addDays(currentCalendarWeekStart, message.days);
+            // The month mode follows the month most of the week falls in
+            const [y, m] = addDays(currentCalendarWeekStart, 3).split('-').map(n => parseInt(n, 10));
+            await updateCalendar(y, m - 1);
+          }
+        } else if (message.command === 'setHeatmapMetric') {
+          currentHeatmapMetric = message.metric === 'words' ? 'words' : 'tasks';
+          await context.workspaceState.update('obsidianManager.calendarHeatmapMetric', currentHeatmapMetric);
+          await updateCalendar(currentCalendarYear, currentCalendarMonth);
+        } else if (message.command === 'showMoreAgendaDays') {
+          const step = vscode.workspace.getConfiguration('obsidianManager').get<number>('calendarAgendaDays', 14);
+          currentAgendaDays = (currentAgendaDays || step) + step;
+          await updateCalendar(currentCalendarYear, currentCalendarMonth);
+        } else if (message.command === 'openPeriodicNote') {
+          const [y, m, d] = String(message.date).split('-').map(n => parseInt(n, 10));
+          if (NOTE_PERIODS.some(p => p.period === message.period) && !isNaN(d)) {
+            await openPeriodicNote(message.period, new Date(y, m - 1, d));
+          }
+        } else if (message.command === 'openNote') {
+          await openCalendarNote(message.filePath);
+        } else if (message.command === 'openTask') {
+          await taskTableProvider.openFileAtLine(message.filePath, message.lineNumber);
+        } else if (message.command === 'toggleTask') {
+          // Same as a click on the status of the task in the task table
+          await taskTableProvider.toggleTask(message.filePath, message.lineNumber);
         } else if (message.command === 'dayClicked') {
           const cfg = vscode.workspace.getConfiguration('obsidianManager');
           const vaultPath = cfg.get<string>('vault', '');
@@ -1397,10 +1647,16 @@ export async function activate(context: vscode.ExtensionContext) {
             detail: 'OPEN_TASK_TABLE'
           });
           
-          // Add "Create new file" as second option
+          // Add "Create new file" as second option, in the daily notes folder (Obsidian's by default)
+          const [noteYear, noteMonth, noteDay] = String(message.date).split('-').map(Number);
+          const noteDate = new Date(noteYear, noteMonth - 1, noteDay);
+          const dailyNotes = getDailyNoteSettings(vaultIndex.vaultPath);
+          const dailyNoteName = formatDate(noteDate, dailyNotes.format);
+          const folderPath = path.join(vaultPath, dailyNotes.folder, path.dirname(dailyNoteName));
+          const folderLabel = path.relative(vaultPath, folderPath).split(path.sep).join('/');
           quickPickItems.push({
-            label: 'Create new file in root vault',
-            description: 'Create in root vault folder',
+            label: folderLabel ? `Create new file in ${folderLabel}` : 'Create new file in root vault',
+            description: folderLabel ? 'Create in the daily notes folder' : 'Create in root vault folder',
             detail: 'NEW_FILE'
           });
           
@@ -1442,12 +1698,11 @@ export async function activate(context: vscode.ExtensionContext) {
           
           if (selectedItem.detail === 'NEW_FILE') {
             // Create new file - prompt for filename
-            const folderPath = vaultPath; // Always use root vault
-            const defaultFileName = message.date; // YYYY-MM-DD format
+            const defaultFileName = path.basename(dailyNoteName); // daily note format, YYYY-MM-DD by default
             
             // Show input box for filename (without .md extension)
             const fileName = await vscode.window.showInputBox({
-              prompt: 'Create new file in root vault folder',
+              prompt: folderLabel ? `Create new file in ${folderLabel}` : 'Create new file in root vault folder',
               value: defaultFileName,
               placeHolder: 'Enter filename (without .md extension)',
               validateInput: (value) => {
@@ -1464,14 +1719,19 @@ export async function activate(context: vscode.ExtensionContext) {
             
             if (fileName) {
               try {
-                // Ensure folder exists
-                await fs.mkdir(folderPath, { recursive: true });
-                
                 const fullFileName = `${fileName.trim()}.md`;
                 const filePath = path.join(folderPath, fullFileName);
                 
+                // {{date}} of the template is the clicked day; the daily note template is used without asking
+                const dailyTemplate = dailyNotes.template ? await resolveTemplatePath(vaultPath, dailyNotes.template) : undefined;
+                const content = await newNoteContent(vaultIndex, filePath, noteDate, dailyTemplate);
+                if (content === undefined) return;
+                
+                // Ensure folder exists
+                await fs.mkdir(folderPath, { recursive: true });
+                
                 // Create and open the file
-                await createAndOpenNewFile(filePath, fullFileName);
+                await createAndOpenNewFile(filePath, fullFileName, content);
                 
                 // Refresh the tree view to show the new file
                 vscode.commands.executeCommand('obsidianManager.refreshView');
@@ -1487,16 +1747,7 @@ export async function activate(context: vscode.ExtensionContext) {
             // If fileName is undefined (user pressed Esc), do nothing
           } else {
             // Open existing file
-            const selectedFilePath = selectedItem.detail!;
-            
-            // Open the selected file
-            const openFileMode = cfg.get<string>('openFileMode', 'preview');
-            if (openFileMode === 'preview') {
-              await showMarkdownPreviewSafe(vscode.Uri.file(selectedFilePath));
-            } else {
-              const document = await vscode.workspace.openTextDocument(vscode.Uri.file(selectedFilePath));
-              await vscode.window.showTextDocument(document, { preview: false });
-            }
+            await openCalendarNote(selectedItem.detail!);
           }
         }
       });
@@ -1524,6 +1775,30 @@ export async function activate(context: vscode.ExtensionContext) {
   });
   context.subscriptions.push(refreshCalendarCmd);
 
+  // Open (or create) this week's, month's, quarter's or year's note; keybindings can pass
+  // { "period": "week" } and a { "date": "YYYY-MM-DD" } in the period
+  const openPeriodicNoteCmd = vscode.commands.registerCommand('obsidianManager.openPeriodicNote', async (arg?: NotePeriod | { period?: NotePeriod; date?: string }) => {
+    let period = typeof arg === 'string' ? arg : arg?.period;
+    const dateArg = typeof arg === 'object' ? arg?.date : undefined;
+    if (!period || !NOTE_PERIODS.some(p => p.period === period)) {
+      const picked = await vscode.window.showQuickPick(
+        NOTE_PERIODS.map(p => ({ label: p.label, period: p.period })),
+        { placeHolder: 'Open the note of the current period' }
+      );
+      if (!picked) {
+        return;
+      }
+      period = picked.period;
+    }
+    let date = new Date();
+    if (dateArg && /^\d{4}-\d{2}-\d{2}$/.test(dateArg)) {
+      const [y, m, d] = dateArg.split('-').map(n => parseInt(n, 10));
+      date = new Date(y, m - 1, d);
+    }
+    await openPeriodicNote(period, date);
+  });
+  context.subscriptions.push(openPeriodicNoteCmd);
+
 
 
 
@@ -1684,7 +1959,7 @@ export async function activate(context: vscode.ExtensionContext) {
     try {
       // Get all markdown files from the provider's cache
       await provider.ensurePreloaded();
-      const allFiles = await getAllMarkdownFiles(provider, configuredVault);
+      const allFiles = await getAllMarkdownFiles(vaultIndex);
       
       if (allFiles.length === 0) {
         vscode.window.showWarningMessage('No markdown files found in the vault.');
@@ -1729,10 +2004,9 @@ export async function activate(context: vscode.ExtensionContext) {
       let linkText: string;
       if (selectedText && !selection.isEmpty) {
         // Use selected text as custom link text
-        const targetWithoutExt = path.basename(selectedFilePath, '.md');
-        linkText = `[[${targetWithoutExt}|${selectedText}]]`;
+        linkText = linkResolver.generateObsidianLink(selectedFilePath, currentFilePath, selectedText);
       } else {
-        linkText = generateObsidianLink(selectedFilePath, currentFilePath, configuredVault);
+        linkText = linkResolver.generateObsidianLink(selectedFilePath, currentFilePath);
       }
       
       // Insert or replace the link
@@ -2002,7 +2276,7 @@ export async function activate(context: vscode.ExtensionContext) {
     try {
       // Get all markdown files from the provider's cache
       await provider.ensurePreloaded();
-      const allFiles = await getAllMarkdownFiles(provider, configuredVault);
+      const allFiles = await getAllMarkdownFiles(vaultIndex);
 
       // Create quick pick items - first option is to create a new file
       const quickPickItems: vscode.QuickPickItem[] = [];
@@ -2276,7 +2550,9 @@ export async function activate(context: vscode.ExtensionContext) {
         // File doesn't exist, proceed to create it
       }
       
-      await createAndOpenNewFile(target, fileName);
+      const content = await newNoteContent(vaultIndex, target);
+      if (content === undefined) return;
+      await createAndOpenNewFile(target, fileName, content);
       
       // Refresh provider so view updates
       try { await provider.refreshAll(); } catch (e) { provider.refresh(); }
@@ -2313,44 +2589,13 @@ export async function activate(context: vscode.ExtensionContext) {
         cancellable: false
       }, async (progress) => {
         
-        // Function to recursively search for today's files
-        const findTodayFiles = async (dirPath: string, depth: number = 0): Promise<string[]> => {
-          // Safety check: prevent infinite recursion
-          if (depth > 50) {
-            return [];
-          }
-          
-          const foundFiles: string[] = [];
-          try {
-            const entries = await fs.readdir(dirPath, { withFileTypes: true });
-            
-            for (const entry of entries) {
-              // Skip hidden files/folders
-              if (entry.name.startsWith('.')) continue;
-              
-              const fullPath = path.join(dirPath, entry.name);
-              
-              if (entry.isDirectory()) {
-                // Recursively search in subdirectories with incremented depth
-                const subFiles = await findTodayFiles(fullPath, depth + 1);
-                foundFiles.push(...subFiles);
-              } else if (entry.isFile() && entry.name.endsWith('.md')) {
-                // Check if filename contains today's date
-                if (entry.name.includes(todayString)) {
-                  foundFiles.push(fullPath);
-                }
-              }
-            }
-          } catch (err) {
-            // Ignore directories we can't read
-          }
-          return foundFiles;
-        };
-
         progress.report({ message: 'Searching for today\'s files...', increment: 20 });
         
         // Find all files containing today's date
-        const todayFiles = await findTodayFiles(configuredVault);
+        await vaultIndex.ready();
+        const todayFiles = vaultIndex.getNotes()
+          .map(note => note.filePath)
+          .filter(filePath => path.basename(filePath).includes(todayString));
         
         // Filter out the target file if it already exists
         const filteredFiles = todayFiles.filter(file => file !== targetPath);
@@ -2501,8 +2746,11 @@ export async function activate(context: vscode.ExtensionContext) {
         // File doesn't exist, proceed to create it
       }
       
+      const content = await newNoteContent(vaultIndex, targetPath);
+      if (content === undefined) return;
+      
       // Create and open the file
-      await createAndOpenNewFile(targetPath, fullFileName);
+      await createAndOpenNewFile(targetPath, fullFileName, content);
       
       // Refresh provider so view updates
       try { await provider.refreshAll(); } catch (e) { provider.refresh(); }
@@ -2636,50 +2884,50 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(openInPreviewModeContextCmd);
   context.subscriptions.push(openFileBesideContextCmd);
 
+  // Open a resolved vault file: notes honour openFileMode, attachments use the default editor.
+  // When `line` is given (heading or block fragment) the editor or preview is scrolled there.
+  const openResolvedWikiTarget = async (fullPath: string, openInNewTab: boolean, line?: number) => {
+    const cfg = vscode.workspace.getConfiguration('obsidianManager');
+    const targetUri = vscode.Uri.file(fullPath);
+    if (!isMarkdownPath(fullPath)) {
+      await vscode.commands.executeCommand('vscode.open', targetUri, openInNewTab ? vscode.ViewColumn.Beside : undefined);
+      return;
+    }
+    const openFileMode = cfg.get<string>('openFileMode', 'preview');
+    if (openFileMode === 'preview' && line === undefined) {
+      await showMarkdownPreviewSafe(targetUri);
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(targetUri);
+    const position = new vscode.Position(line || 0, 0);
+    const editor = await vscode.window.showTextDocument(document, { 
+      preview: false,
+      viewColumn: openInNewTab ? vscode.ViewColumn.Beside : undefined,
+      selection: new vscode.Range(position, position)
+    });
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop);
+
+    if (openFileMode === 'preview') {
+      // The built-in preview starts at the first line visible in the active editor
+      await vscode.commands.executeCommand('markdown.showPreview', targetUri);
+    }
+  };
+
   // Wiki-link command (no dialogs, only opens existing files)
   const openWikiLinkDirectCmd = vscode.commands.registerCommand('obsidianManager.openWikiLinkDirect', async (target: string, openInNewTab: boolean = false) => {
     if (!target) return;
-
-    const cfg = vscode.workspace.getConfiguration('obsidianManager');
-    const configuredVault = ((cfg.get<string>('vault') || '')).trim();
-    if (!configuredVault) return;
+    if (!vaultIndex.vaultPath) return;
 
     try {
-      // Clean up the target - same logic as main command
-      let cleanTarget = target.trim();
-      if (cleanTarget.endsWith('.md')) {
-        cleanTarget = cleanTarget.slice(0, -3);
-      }
-      if (cleanTarget.startsWith('[[') && cleanTarget.endsWith(']]')) {
-        cleanTarget = cleanTarget.slice(2, -2);
-      }
-      if (cleanTarget.includes('|')) {
-        cleanTarget = cleanTarget.split('|')[0].trim();
-      }
-      
-      // Build full path and check if file exists directly
-      const fullPath = path.join(configuredVault, `${cleanTarget}.md`);
-      const targetUri = vscode.Uri.file(fullPath);
-      
-      try {
-        // Check if file exists
-        const stat = await vscode.workspace.fs.stat(targetUri);
-        if (stat.type === vscode.FileType.File) {
-          // File exists - open it
-          const openFileMode = cfg.get<string>('openFileMode', 'preview');
-          if (openFileMode === 'preview') {
-            await showMarkdownPreviewSafe(targetUri);
-          } else {
-            const document = await vscode.workspace.openTextDocument(targetUri);
-            await vscode.window.showTextDocument(document, { 
-              preview: false,
-              viewColumn: openInNewTab ? vscode.ViewColumn.Beside : undefined
-            });
-          }
-        }
-      } catch {
-        // File doesn't exist - do nothing
-      }
+      await vaultIndex.ready();
+      // Resolve relative to the note currently open, like Obsidian does
+      const sourceUri = getCurrentDocumentUri();
+      const resolved = linkResolver.resolveLink(target, sourceUri ? sourceUri.fsPath : undefined);
+      if (resolved) {
+        await openResolvedWikiTarget(resolved.filePath, openInNewTab, resolved.line);
+      }
+      // File doesn't exist - do nothing
     } catch (err) {
       // Silent error handling
     }
@@ -2687,9 +2935,103 @@ export async function activate(context: vscode.ExtensionContext) {
   
   context.subscriptions.push(openWikiLinkDirectCmd);
 
+  // Open the wiki-link under the cursor, or ask for a link target
+  const openWikiLinkCmd = vscode.commands.registerCommand('obsidianManager.openWikiLink', async (target?: string) => {
+    if (!vaultIndex.vaultPath) {
+      vscode.window.showErrorMessage('Please configure the obsidianManager.vault setting first.');
+      return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (!target && editor) {
+      const position = editor.selection.active;
+      const lineText = editor.document.lineAt(position.line).text;
+      const wikiLinkRegex = /\[\[([^\]]+)\]\]/g;
+      let match;
+      while ((match = wikiLinkRegex.exec(lineText)) !== null) {
+        if (position.character >= match.index && position.character <= match.index + match[0].length) {
+          target = match[1];
+          break;
+        }
+      }
+    }
+    if (!target) {
+      target = await vscode.window.showInputBox({ prompt: 'Wiki-link target', placeHolder: 'Note, Note#Heading or Note#^block-id' });
+      if (!target) return;
+    }
+
+    await vaultIndex.ready();
+    const sourceUri = getCurrentDocumentUri();
+    const resolved = linkResolver.resolveLink(target, sourceUri ? sourceUri.fsPath : undefined);
+    if (!resolved) {
+      vscode.window.showWarningMessage(`No file found for [[${parseLinkTarget(target).linkpath}]]`);
+      return;
+    }
+    if (!resolved.subpathFound) {
+      vscode.window.showWarningMessage(`"#${parseLinkTarget(target).subpath}" not found, opening the note instead`);
+    }
+    try {
+      await openResolvedWikiTarget(resolved.filePath, false, resolved.line);
+    } catch (err) {
+      vscode.window.showErrorMessage(`Error opening wiki-link: ${String(err)}`);
+    }
+  });
+  context.subscriptions.push(openWikiLinkCmd);
+
+  // Copy a link to the current line: [[Note#Heading]] on a heading, [[Note#^id]] otherwise
+  // (a ^block-id is appended to the line when it does not have one yet)
+  const copyBlockLinkCmd = vscode.commands.registerCommand('obsidianManager.copyBlockLink', async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+      vscode.window.showErrorMessage('Open a Markdown file to copy a block link.');
+      return;
+    }
+
+    const document = editor.document;
+    const line = document.lineAt(editor.selection.active.line);
+    if (line.isEmptyOrWhitespace) {
+      vscode.window.showErrorMessage('The current line is empty, nothing to link to.');
+      return;
+    }
+
+    const linkpath = linkResolver.linkpathFor(document.uri.fsPath);
+    const headingMatch = line.text.match(/^#{1,6}\s+(.*?)\s*#*\s*$/);
+    let link: string;
+    if (headingMatch) {
+      // Characters that would end or alias the link become spaces, as in Obsidian
+      link = `[[${linkpath}#${headingMatch[1].replace(/[|#[\]^]/g, ' ').replace(/\s+/g, ' ').trim()}]]`;
+    } else {
+      const existing = line.text.match(BLOCK_ID_REGEX);
+      let blockId = existing ? existing[1] : '';
+      if (!blockId) {
+        // Unique in the note: the indexed ids and those of unsaved lines
+        const taken = new Set((vaultIndex.getNote(document.uri.fsPath)?.blocks || []).map(block => block.id.toLowerCase()));
+        for (let i = 0; i < document.lineCount; i++) {
+          const match = document.lineAt(i).text.match(BLOCK_ID_REGEX);
+          if (match) taken.add(match[1].toLowerCase());
+        }
+        do {
+          blockId = Array.from({ length: 6 }, () => '0123456789abcdefghijklmnopqrstuvwxyz'[Math.floor(Math.random() * 36)]).join('');
+        } while (taken.has(blockId));
+        const ok = await editor.edit(editBuilder => {
+          editBuilder.insert(line.range.end, `${line.text.endsWith(' ') ? '' : ' '}^${blockId}`);
+        });
+        if (!ok) {
+          vscode.window.showErrorMessage('Could not add a block id to the current line.');
+          return;
+        }
+      }
+      link = `[[${linkpath}#^${blockId}]]`;
+    }
+
+    await vscode.env.clipboard.writeText(link);
+    vscode.window.showInformationMessage(`Copied ${link}`);
+  });
+  context.subscriptions.push(copyBlockLinkCmd);
+
   // Register wiki-link providers for markdown editor
-  const wikiLinkProvider = new WikiLinkProvider();
-  const wikiHoverProvider = new WikiHoverProvider();
+  const wikiLinkProvider = new WikiLinkProvider(linkResolver);
+  const wikiHoverProvider = new WikiHoverProvider(linkResolver);
   
   context.subscriptions.push(
     vscode.languages.registerDocumentLinkProvider(
@@ -2699,9 +3041,75 @@ export async function activate(context: vscode.ExtensionContext) {
     vscode.languages.registerHoverProvider(
       { scheme: 'file', language: 'markdown' },
       wikiHoverProvider
+    ),
+    vscode.languages.registerCompletionItemProvider(
+      { scheme: 'file', language: 'markdown' },
+      new WikiLinkCompletionProvider(vaultIndex, linkResolver),
+      ...WikiLinkCompletionProvider.triggerCharacters
     )
   );
 
+  // Broken-link diagnostics and their quick fixes
+  context.subscriptions.push(
+    new LinkDiagnostics(vaultIndex, linkResolver),
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: 'file', language: 'markdown' },
+      new LinkQuickFixProvider(vaultIndex, linkResolver),
+      { providedCodeActionKinds: LinkQuickFixProvider.providedCodeActionKinds }
+    )
+  );
+
+  // Checking a recurring task in an editor creates its next occurrence
+  context.subscriptions.push(registerRecurringTaskWatcher());
+
+  // ```tasks query blocks in the preview follow the vault's tasks
+  context.subscriptions.push(registerTaskQueryRefresh(vaultIndex));
+
+  // Calendar apps can subscribe to the .ics file of obsidianManager.icsExportPath
+  context.subscriptions.push(registerIcsExport(vaultIndex));
+
+  // Quick fix target: create the note an unresolved link points at
+  const createLinkedNoteCmd = vscode.commands.registerCommand('obsidianManager.createLinkedNote', async (filePath: string) => {
+    if (!filePath || !vaultIndex.vaultPath) return;
+    const relative = path.relative(vaultIndex.vaultPath, filePath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      vscode.window.showErrorMessage(`Error creating note: ${filePath} is outside the vault`);
+      return;
+    }
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      try {
+        await fs.access(filePath);
+        vscode.window.showWarningMessage(`${path.basename(filePath)} already exists.`);
+        return;
+      } catch (e) {
+        // doesn't exist
+      }
+      await createAndOpenNewFile(filePath, path.basename(filePath));
+      await vaultIndex.refreshPaths([filePath]);
+    } catch (err) {
+      vscode.window.showErrorMessage(`Error creating note: ${String(err)}`);
+    }
+  });
+  context.subscriptions.push(createLinkedNoteCmd);
+
+  // Vault health report: broken links, orphan notes and unused attachments
+  const vaultHealthReportCmd = vscode.commands.registerCommand('obsidianManager.vaultHealthReport', async () => {
+    if (!vaultIndex.vaultPath) {
+      vscode.window.showErrorMessage('Please configure the obsidianManager.vault setting first.');
+      return;
+    }
+    try {
+      await vaultIndex.ready();
+      const content = buildVaultHealthReport(vaultIndex, linkResolver);
+      const document = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+      await vscode.window.showTextDocument(document, { preview: false });
+    } catch (err) {
+      vscode.window.showErrorMessage(`Error building vault health report: ${String(err)}`);
+    }
+  });
+  context.subscriptions.push(vaultHealthReportCmd);
+
   // Register context menu aliases (without numbers) that call the original commands
   const contextAliases = [
     { alias: 'obsidianManager.openFileFromView.context', original: 'obsidianManager.openFileFromView' },
@@ -2719,45 +3127,105 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(aliasCmd);
   }
 
-  // Listen for file save events to refresh the vault tree and calendar
+  // Listen for file save events: re-index just the saved note (the tree and calendar follow the index)
   const saveListener = vscode.workspace.onDidSaveTextDocument(async (document) => {
-    const cfg = vscode.workspace.getConfiguration('obsidianManager');
-    const vault = cfg.get<string>('vault') || '';
-    
-    if (vault && document.uri.scheme === 'file') {
-      const documentPath = document.uri.fsPath;
-      const vaultPath = vault.replace(/^~/, require('os').homedir());
-      
-      // Check if the saved file is within the configured vault
-      if (documentPath.startsWith(vaultPath)) {
-        // Refresh the vault tree
-        try {
-          await provider.refreshAll();
-        } catch (e) {
-          provider.refresh();
-        }
-        
-        // Refresh calendar if it's a markdown file and might be a daily note
-        if (documentPath.toLowerCase().endsWith('.md')) {
-          try {
-            await vscode.commands.executeCommand('obsidianManager.refreshCalendar');
-          } catch (e) {
-            // Calendar command might not be available, ignore error
-          }
-        }
-      }
+    const vaultPath = vaultIndex.vaultPath;
+    if (vaultPath && document.uri.scheme === 'file' && document.uri.fsPath.startsWith(vaultPath)) {
+      await vaultIndex.refreshPaths([document.uri.fsPath]);
     }
   });
   
   context.subscriptions.push(saveListener);
 
+  // Task timers: started from the task table or from the CodeLens above a task, shown in the status bar
+  const timeTracker = new TaskTimeTracker(context);
+  const taskTimerCodeLens = new TaskTimerCodeLensProvider(timeTracker, vaultIndex);
+  context.subscriptions.push(
+    timeTracker,
+    taskTimerCodeLens,
+    vscode.languages.registerCodeLensProvider({ scheme: 'file', language: 'markdown' }, taskTimerCodeLens),
+    vscode.commands.registerCommand('obsidianManager.startTaskTimer', async (uri?: vscode.Uri, line?: number) => {
+      // Without arguments: the task under the cursor
+      const editor = vscode.window.activeTextEditor;
+      const filePath = uri?.fsPath || editor?.document.uri.fsPath;
+      const lineNumber = typeof line === 'number' ? line : editor?.selection.active.line;
+      if (!filePath || lineNumber === undefined) {
+        vscode.window.showInformationMessage('Place the cursor on a task to start its timer.');
+        return;
+      }
+      await timeTracker.start(filePath, lineNumber);
+    }),
+    vscode.commands.registerCommand('obsidianManager.stopTaskTimer', async () => {
+      if (!timeTracker.running) {
+        vscode.window.showInformationMessage('No task timer is running.');
+        return;
+      }
+      await timeTracker.stop();
+    })
+  );
+
   // Task Table Provider
-  const taskTableProvider = new TaskTableProvider(context);
-  const showTaskTableCmd = vscode.commands.registerCommand('obsidianManager.showTaskTable', async (filterDate?: string, filterProject?: string, filterHashtag?: string) => {
+  const taskTableProvider = new TaskTableProvider(context, vaultIndex, timeTracker);
+  const showTaskTableCmd = vscode.commands.registerCommand('obsidianManager.showTaskTable', async (filterDate?: string | { query?: string }, filterProject?: string, filterHashtag?: string) => {
+    // Keybindings can open a pre-filtered table with { "query": "status:open tag:#work" }
+    if (filterDate && typeof filterDate === 'object') {
+      const query = filterDate.query || '';
+      const parsed = parseTaskFilterQuery(query, toIsoDate(new Date()));
+      if (parsed.errors.length > 0) {
+        vscode.window.showErrorMessage(`Invalid task query: ${parsed.errors.map(e => e.message).join('; ')}`);
+      }
+      await taskTableProvider.show(undefined, undefined, undefined, undefined, query);
+      return;
+    }
     await taskTableProvider.show(filterDate, filterProject, filterHashtag);
   });
   context.subscriptions.push(showTaskTableCmd);
 
+  // Open the task table on a saved view; keybindings can pass { "view": "This week @work" }
+  const openTaskViewCmd = vscode.commands.registerCommand('obsidianManager.openTaskView', async (arg?: string | { view?: string }) => {
+    const views = await loadTaskViews(vaultIndex.vaultPath || '');
+    let name = typeof arg === 'string' ? arg : arg?.view;
+    if (!name) {
+      if (views.length === 0) {
+        vscode.window.showInformationMessage('No saved task views yet. Save one with the save button next to the View dropdown of the task table.');
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        views.map(view => ({
+          label: view.name,
+          description: view.location === 'vault' ? 'vault' : 'settings',
+          detail: view.query || undefined
+        })),
+        { placeHolder: 'Open task view' }
+      );
+      if (!picked) {
+        return;
+      }
+      name = picked.label;
+    } else if (!views.some(view => view.name === name)) {
+      vscode.window.showErrorMessage(`Task view "${name}" not found.`);
+      return;
+    }
+    await taskTableProvider.show(undefined, undefined, undefined, undefined, undefined, name);
+  });
+  context.subscriptions.push(openTaskViewCmd);
+
+  // Export the filtered tasks of the table (every task when it is closed) to CSV, JSON or iCalendar
+  const exportTasksCmd = vscode.commands.registerCommand('obsidianManager.exportTasks', async () => {
+    await taskTableProvider.exportTasks();
+  });
+  context.subscriptions.push(exportTasksCmd);
+
+  // Undo/redo of the edits made from the task table (Ctrl+Z / Ctrl+Shift+Z inside the panel)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('obsidianManager.undoTaskTableEdit', async () => {
+      await taskTableProvider.undo();
+    }),
+    vscode.commands.registerCommand('obsidianManager.redoTaskTableEdit', async () => {
+      await taskTableProvider.redo();
+    })
+  );
+
   // Show Task Table filtered by project from root folder
   const showTaskTableForProjectCmd = vscode.commands.registerCommand('obsidianManager.showTaskTableForProject', async (...args: any[]) => {
     // Extract folder from args (TreeItem or Uri)
@@ -2797,6 +3265,9 @@ export async function activate(context: vscode.ExtensionContext) {
       const fullText = document.getText();
       const lines = fullText.split('\n');
       
+      // Any configured status: - [ ], - [x], - [/], - [-], ...
+      const checkboxRegex = new RegExp(`^(\\s*)-\\s*\\[(${taskStatusCharClass()})\\]\\s*(.*)$`);
+
       // Check if we're in preview mode (no active text editor for this document)
       const isInPreview = !vscode.window.activeTextEditor || 
                           vscode.window.activeTextEditor.document.uri.toString() !== uri.toString();
@@ -2807,8 +3278,8 @@ export async function activate(context: vscode.ExtensionContext) {
         
         for (let i = 0; i < lines.length; i++) {
           const line = lines[i];
-          // Match lines with checkboxes: - [ ] or - [x] or - [X]
-          const checkboxMatch = line.match(/^(\s*)-\s*\[([ xX])\]\s*(.*)$/);
+          // Match lines with checkboxes
+          const checkboxMatch = line.match(checkboxRegex);
           
           if (checkboxMatch) {
             const indent = checkboxMatch[1];
@@ -2830,7 +3301,7 @@ export async function activate(context: vscode.ExtensionContext) {
         await editor.edit(editBuilder => {
           for (let i = 0; i < lines.length; i++) {
             const line = lines[i];
-            const checkboxMatch = line.match(/^(\s*)-\s*\[([ xX])\]\s*(.*)$/);
+            const checkboxMatch = line.match(checkboxRegex);
             
             if (checkboxMatch) {
               const indent = checkboxMatch[1];
@@ -2873,6 +3344,9 @@ export async function activate(context: vscode.ExtensionContext) {
       const fullText = document.getText();
       const lines = fullText.split('\n');
       
+      // Regular list items, skipping those that already have a status checkbox
+      const listRegex = new RegExp(`^(\\s*)-\\s+(?!\\[(${taskStatusCharClass()})\\])(.+)$`);
+
       // Check if we're in preview mode (no active text editor for this document)
       const isInPreview = !vscode.window.activeTextEditor || 
                           vscode.window.activeTextEditor.document.uri.toString() !== uri.toString();
@@ -2884,7 +3358,7 @@ export async function activate(context: vscode.ExtensionContext) {
         for (let i = 0; i < lines.length; i++) {
           const line = lines[i];
           // Match lines with regular list items (but not already checkboxes)
-          const listMatch = line.match(/^(\s*)-\s+(?!\[([ xX])\])(.+)$/);
+          const listMatch = line.match(listRegex);
           
           if (listMatch) {
             const indent = listMatch[1];
@@ -2906,7 +3380,7 @@ export async function activate(context: vscode.ExtensionContext) {
         await editor.edit(editBuilder => {
           for (let i = 0; i < lines.length; i++) {
             const line = lines[i];
-            const listMatch = line.match(/^(\s*)-\s+(?!\[([ xX])\])(.+)$/);
+            const listMatch = line.match(listRegex);
             
             if (listMatch) {
               const indent = listMatch[1];
@@ -2957,12 +3431,14 @@ export async function activate(context: vscode.ExtensionContext) {
       
       // Collect uncompleted tasks with their children (indented lines)
       const uncompletedTasks: {lineIndex: number, lines: string[]}[] = [];
+      const statuses = getTaskStatuses();
       
       for (let i = 0; i < lines.length; i++) {
         const line = lines[i];
-        // Match uncompleted checkboxes: - [ ]
-        const match = line.match(/^(\s*)-\s*\[\s\]/);
-        if (match) {
+        // Match uncompleted checkboxes: - [ ], - [/], - [>], ... (anything but done and cancelled)
+        const match = line.match(/^(\s*)-\s*\[(.)\]/);
+        const status = match ? findTaskStatus(match[2], statuses) : undefined;
+        if (match && status && status.type !== 'nonTask' && !isClosedStatus(status)) {
           const taskLines: string[] = [line];
           const taskIndent = match[1].length;
           
@@ -3019,7 +3495,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
       // Get all markdown files from the provider's cache
       await provider.ensurePreloaded();
-      const allFiles = await getAllMarkdownFiles(provider, configuredVault);
+      const allFiles = await getAllMarkdownFiles(vaultIndex);
 
       // Create quick pick items
       const quickPickItems: vscode.QuickPickItem[] = [];
@@ -3230,6 +3706,55 @@ export async function activate(context: vscode.ExtensionContext) {
   });
   context.subscriptions.push(filterTasksByFileCmd);
 
+  // Open a note as a board, one column per heading (the lanes of an Obsidian Kanban note)
+  const openKanbanBoardCmd = vscode.commands.registerCommand('obsidianManager.openKanbanBoard', async (...args: any[]) => {
+    let fileUri: vscode.Uri | undefined;
+    const first = args && args[0];
+    if (first instanceof vscode.Uri) {
+      fileUri = first;
+    } else if (first?.resourceUri instanceof vscode.Uri) {
+      fileUri = first.resourceUri;
+    }
+    if (!fileUri && vscode.window.activeTextEditor) {
+      fileUri = vscode.window.activeTextEditor.document.uri;
+    }
+    if (fileUri) {
+      await taskTableProvider.showBoard(fileUri.fsPath);
+    }
+  });
+  context.subscriptions.push(openKanbanBoardCmd);
+
+  // Create a note in the Obsidian Kanban format and open it as a board
+  const newKanbanBoardCmd = vscode.commands.registerCommand('obsidianManager.newKanbanBoard', async (...args: any[]) => {
+    const first = args && args[0];
+    const folderUri: vscode.Uri | undefined = first instanceof vscode.Uri ? first : first?.resourceUri;
+    const folder = folderUri ? folderUri.fsPath : vaultIndex.vaultPath;
+    if (!folder) {
+      vscode.window.showErrorMessage('Please configure the obsidianManager.vault setting first.');
+      return;
+    }
+
+    const name = await vscode.window.showInputBox({ prompt: 'Kanban board name (without extension)', placeHolder: 'Project board' });
+    if (!name) return;
+    const target = path.join(folder, name.endsWith('.md') ? name : `${name}.md`);
+    try {
+      await fs.access(target);
+      vscode.window.showErrorMessage(`${path.basename(target)} already exists.`);
+      return;
+    } catch {
+      // Free name
+    }
+
+    try {
+      await fs.writeFile(target, newKanbanNote(['To do', 'Doing', 'Done']), 'utf8');
+      await vaultIndex.refreshPaths([target]);
+      await taskTableProvider.showBoard(target);
+    } catch (err) {
+      vscode.window.showErrorMessage(`Unable to create Kanban board: ${String(err)}`);
+    }
+  });
+  context.subscriptions.push(newKanbanBoardCmd);
+
   // Refresh hashtags command
   const refreshHashtagsCmd = vscode.commands.registerCommand('obsidianManager.refreshHashtags', async () => {
     hashtagProvider.refresh();
@@ -3249,6 +3774,46 @@ export async function activate(context: vscode.ExtensionContext) {
         liClass: 'task-list-item'
       });
       
+      // Checkboxes for the other configured statuses ([/], [-], ...), which the plugin leaves as text,
+      // and a data-task attribute with the status symbol on every task item
+      md.core.ruler.push('task_status_items', (state) => {
+        const extraSymbols = getTaskStatuses().map(s => s.symbol).filter(symbol => !/^[ xX]$/.test(symbol));
+        const tokens = state.tokens;
+        for (let i = 2; i < tokens.length; i++) {
+          const token = tokens[i];
+          const listItem = tokens[i - 2];
+          if (token.type !== 'inline' || tokens[i - 1].type !== 'paragraph_open' || listItem.type !== 'list_item_open' || !token.children) {
+            continue;
+          }
+          const existing = token.children.find(child => child.type === 'checkbox_input');
+          if (existing) {
+            listItem.attrSet('data-task', existing.attrGet('checked') ? 'x' : ' ');
+            continue;
+          }
+          const match = token.content.match(/^\[(.)\][ \u00A0]/);
+          const first = token.children[0];
+          if (!match || !extraSymbols.includes(match[1]) || !first || first.type !== 'text') {
+            continue;
+          }
+          first.content = first.content.slice(3);
+          const checkbox = new state.Token('checkbox_input', 'input', 0);
+          checkbox.attrs = [['type', 'checkbox'], ['class', 'task-list-item-checkbox'], ['data-task', match[1]]];
+          token.children.unshift(checkbox, new state.Token('label_open', 'label', 1));
+          token.children.push(new state.Token('label_close', 'label', -1));
+          listItem.attrSet('class', 'task-list-item');
+          listItem.attrSet('data-task', match[1]);
+          for (let j = i - 3; j >= 0; j--) {
+            if (tokens[j].level === listItem.level - 1) {
+              tokens[j].attrSet('class', 'task-list');
+              break;
+            }
+          }
+        }
+      });
+
+      // ```tasks and ```om-query blocks list the vault's tasks
+      taskQueryPlugin(md, vaultIndex);
+
       // Add line numbers to task list items
       md.core.ruler.after('inline', 'checkbox_line_numbers', (state) => {
         const tokens = state.tokens;
@@ -3266,6 +3831,10 @@ export async function activate(context: vscode.ExtensionContext) {
       
       // Inject server data into the HTML for the checkbox script
       md.core.ruler.push('checkbox_server_data', (state) => {
+        if (state.inlineMode) {
+          // md.renderInline (used by task query blocks) runs the core rules too
+          return;
+        }
         const serverDataToken = new state.Token('html_block', '', 0);
         serverDataToken.content = `<div hidden id="mdCheckboxServerData" data-port="${checkboxServerPort}" data-nonce="${checkboxServerNonce}"></div>`;
         state.tokens.unshift(serverDataToken);
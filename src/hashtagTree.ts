@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import { promises as fs } from 'fs';
+import { VaultIndex } from './vaultIndex';
+import { getTaskStatuses, findTaskStatus } from './taskStatus';
 
 export type HashtagNode = {
   hashtag: string;
@@ -12,14 +12,16 @@ export class HashtagTreeProvider implements vscode.TreeDataProvider<HashtagNode>
   readonly onDidChangeTreeData: vscode.Event<HashtagNode | undefined | void> = this._onDidChangeTreeData.event;
 
   private hashtags: Map<string, number> = new Map();
-  private vaultPath: string | undefined;
   private isRefreshing: boolean = false;
 
-  constructor(private context: vscode.ExtensionContext) {
+  constructor(private context: vscode.ExtensionContext, private vaultIndex: VaultIndex) {
     // Initial scan
     this.refreshHashtags().catch((err) => {
       console.error('Error during initial hashtag scan:', err);
     });
+
+    // Recount whenever the shared vault index changes
+    context.subscriptions.push(vaultIndex.onDidChange(() => this.refresh()));
   }
 
   refresh(): void {
@@ -75,94 +77,27 @@ export class HashtagTreeProvider implements vscode.TreeDataProvider<HashtagNode>
     this.isRefreshing = true;
     
     try {
-      const cfg = vscode.workspace.getConfiguration('obsidianManager');
-      const configuredVault = ((cfg.get<string>('vault') || '')).trim();
-      
-      if (!configuredVault) {
-        this.hashtags.clear();
-        this._onDidChangeTreeData.fire();
-        return;
-      }
-
-      this.vaultPath = this.normalizeToFsPath(configuredVault);
-      if (!this.vaultPath) {
-        this.hashtags.clear();
-        this._onDidChangeTreeData.fire();
-        return;
-      }
-
-      // Clear and rescan
+      await this.vaultIndex.ready();
       this.hashtags.clear();
-      await this.scanForHashtags(this.vaultPath);
-      this._onDidChangeTreeData.fire();
-    } finally {
-      this.isRefreshing = false;
-    }
-  }
+      const statuses = getTaskStatuses();
 
-  private async scanForHashtags(dir: string, depth: number = 0): Promise<void> {
-    // Safety check: prevent infinite recursion
-    if (depth > 50) {
-      return;
-    }
-    
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        // Skip hidden files/folders and special folders
-        if (entry.name.startsWith('.') || entry.name === '@eaDir') continue;
-        
-        const fullPath = path.join(dir, entry.name);
-        
-        if (entry.isDirectory()) {
-          await this.scanForHashtags(fullPath, depth + 1);
-        } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.md')) {
-          // Only process files with date prefix (YYYY-MM-DD)
-          const datePattern = /^\d{4}-\d{2}-\d{2}/;
-          if (datePattern.test(entry.name)) {
-            await this.extractHashtagsFromFile(fullPath);
-          }
-        }
-      }
-    } catch (err) {
-      console.error('HashtagTreeProvider: Error scanning directory:', dir, err);
-    }
-  }
+      for (const note of this.vaultIndex.getNotes()) {
+        // Only process files with date prefix (YYYY-MM-DD)
+        if (!note.datePrefix) continue;
 
-  private async extractHashtagsFromFile(filePath: string): Promise<void> {
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
-      const hashtagRegex = /#[a-zA-Z0-9_]+/g;
-      
-      for (const line of lines) {
-        // Only extract hashtags from task lines (- [ ] or - [x])
-        const isTask = line.includes('- [ ]') || line.includes('- [x]');
-        
-        if (isTask) {
-          const matches = line.match(hashtagRegex);
-          if (matches) {
-            for (const hashtag of matches) {
-              const current = this.hashtags.get(hashtag) || 0;
-              this.hashtags.set(hashtag, current + 1);
-            }
+        // Only extract hashtags from task lines (- [ ], - [x] or another configured status)
+        for (const task of note.tasks) {
+          if (task.bullet !== '-' || !findTaskStatus(task.status, statuses)) continue;
+          for (const hashtag of task.text.split('\n')[0].match(/#[a-zA-Z0-9_]+/g) || []) {
+            const current = this.hashtags.get(hashtag) || 0;
+            this.hashtags.set(hashtag, current + 1);
           }
         }
       }
-    } catch (err) {
-      console.error('HashtagTreeProvider: Error reading file:', filePath, err);
-    }
-  }
 
-  private normalizeToFsPath(input: string): string | undefined {
-    try {
-      if (!input) return undefined;
-      if (input.startsWith('file://')) return vscode.Uri.parse(input).fsPath;
-      if (input.startsWith('~')) return path.join(process.env.HOME || '', input.slice(1));
-      return input;
-    } catch (e) {
-      return undefined;
+      this._onDidChangeTreeData.fire();
+    } finally {
+      this.isRefreshing = false;
     }
   }
 }
@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import { NoteMetadata } from './vaultIndex';
+
+/**
+ * Notes in the format of the Obsidian Kanban plugin:
+ *
+ *   ---
+ *   kanban-plugin: basic
+ *   ---
+ *   ## To do
+ *   - [ ] a card
+ *   ## Done
+ *   **Complete**
+ *   - [x] another card
+ *   ***
+ *   ## Archive
+ *   %% kanban:settings
+ *   ```
+ *   {"kanban-plugin":"basic"}
+ *   ```
+ *   %%
+ *
+ * Each `##` heading is a lane; a `**Complete**` line right under it marks the lane whose
+ * cards are checked. Lanes after the `***` separator are archived.
+ */
+
+export interface KanbanLane {
+  title: string;
+  complete: boolean;
+}
+
+/**
+ * Lines of a note between a heading and the next heading (or the Kanban archive separator
+ * and settings block).
+ */
+export interface NoteSection {
+  title: string;
+  heading: number; // line of the heading
+  end: number; // first line after the section
+  complete: boolean; // Kanban lane marked **Complete**
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const COMPLETE_MARKER = '**Complete**';
+const ARCHIVE_SEPARATOR = '***';
+const SETTINGS_START = '%% kanban:settings';
+
+export function isKanbanNote(note: NoteMetadata): boolean {
+  return note.frontmatter['kanban-plugin'] !== undefined;
+}
+
+export function findSections(lines: string[]): NoteSection[] {
+  const sections: NoteSection[] = [];
+  let inFence = false;
+  const close = (end: number) => {
+    const last = sections[sections.length - 1];
+    if (last && last.end === -1) last.end = end;
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+    if (line.trim().startsWith(SETTINGS_START)) {
+      close(i);
+      break;
+    }
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    if (line.trim() === ARCHIVE_SEPARATOR) {
+      close(i);
+      continue;
+    }
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      close(i);
+      const next = lines.slice(i + 1).find(l => l.trim() !== '');
+      sections.push({ title: heading[2], heading: i, end: -1, complete: next?.trim() === COMPLETE_MARKER });
+    }
+  }
+  close(lines.length);
+  return sections;
+}
+
+/**
+ * Lanes of a Kanban note, in board order, without the archived ones.
+ */
+export function parseKanbanLanes(lines: string[]): KanbanLane[] {
+  const archive = lines.findIndex(l => l.trim() === ARCHIVE_SEPARATOR);
+  return findSections(lines)
+    .filter(s => archive === -1 || s.heading < archive)
+    .map(s => ({ title: s.title, complete: s.complete }));
+}
+
+/**
+ * Line a new card goes to: after the last non-blank line of the section, or right under
+ * its heading (and **Complete** marker) when it is empty.
+ */
+export function sectionInsertLine(lines: string[], section: NoteSection): number {
+  for (let i = section.end - 1; i > section.heading; i--) {
+    if (lines[i].trim() !== '') {
+      return i + 1;
+    }
+  }
+  return section.heading + 1;
+}
+
+/**
+ * Append a `## title` section, before the archive and the Kanban settings block if any.
+ */
+export function addSection(lines: string[], title: string): NoteSection {
+  let at = lines.findIndex(l => l.trim() === ARCHIVE_SEPARATOR || l.trim().startsWith(SETTINGS_START));
+  if (at === -1) {
+    at = lines.length;
+    while (at > 0 && lines[at - 1].trim() === '') at--;
+  }
+  lines.splice(at, 0, '', `## ${title}`, '');
+  return { title, heading: at + 1, end: at + 3, complete: false };
+}
+
+/**
+ * Lanes of every Kanban note among `notes`, by file path.
+ */
+export async function loadKanbanLanes(notes: NoteMetadata[]): Promise<Record<string, KanbanLane[]>> {
+  const lanes: Record<string, KanbanLane[]> = {};
+  for (const note of notes.filter(isKanbanNote)) {
+    try {
+      const content = await fs.readFile(note.filePath, 'utf-8');
+      lanes[note.filePath] = parseKanbanLanes(content.split('\n'));
+    } catch {
+      // Deleted since it was indexed
+    }
+  }
+  return lanes;
+}
+
+/**
+ * Content of a new, empty Kanban note; the last lane is marked complete.
+ */
+export function newKanbanNote(lanes: string[]): string {
+  const body = lanes.map((lane, i) => `## ${lane}\n\n${i === lanes.length - 1 ? `${COMPLETE_MARKER}\n` : ''}\n`).join('');
+  return `---\n\nkanban-plugin: basic\n\n---\n\n${body}\n\n${SETTINGS_START}\n\`\`\`\n{"kanban-plugin":"basic"}\n\`\`\`\n%%`;
+}
@@ -0,0 +1,288 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { VaultIndex, NoteMetadata, IndexedLink, parseNote, isMarkdownPath } from './vaultIndex';
+import { LinkResolver, parseLinkTarget, resolveSubpathInNote, resolveHeadingSlugInNote } from './linkResolver';
+
+const DIAGNOSTIC_SOURCE = 'Obsidian manager';
+
+// Diagnostic codes, also used by the quick fixes to know what to offer
+export const enum LinkProblem {
+  Unresolved = 'unresolved-link',
+  MissingFile = 'missing-file',
+  MissingHeading = 'missing-heading',
+  MissingBlock = 'missing-block',
+  Ambiguous = 'ambiguous-link',
+  DuplicateBlockId = 'duplicate-block-id'
+}
+
+/**
+ * Flags broken links, missing heading/block fragments, ambiguous link names and duplicate
+ * block ids. Scope is controlled by `obsidianManager.linkDiagnosticsScope`.
+ */
+export class LinkDiagnostics implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection('obsidianLinks');
+  private disposables: vscode.Disposable[] = [];
+  private updateTimeout: NodeJS.Timeout | undefined;
+
+  constructor(private vaultIndex: VaultIndex, private resolver: LinkResolver) {
+    const schedule = () => this.scheduleUpdate();
+    this.disposables.push(
+      this.collection,
+      vaultIndex.onDidChange(schedule),
+      vscode.workspace.onDidOpenTextDocument(schedule),
+      vscode.workspace.onDidCloseTextDocument(schedule),
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (e.document.languageId === 'markdown') schedule();
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('obsidianManager.linkDiagnosticsScope')) schedule();
+      })
+    );
+    this.scheduleUpdate();
+  }
+
+  private scheduleUpdate(): void {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.updateTimeout = setTimeout(() => {
+      this.updateTimeout = undefined;
+      this.update().catch(err => console.error('LinkDiagnostics: error updating diagnostics:', err));
+    }, 500);
+  }
+
+  private async update(): Promise<void> {
+    await this.vaultIndex.ready();
+    const scope = vscode.workspace.getConfiguration('obsidianManager').get<string>('linkDiagnosticsScope', 'openFiles');
+    const root = this.vaultIndex.vaultPath;
+    this.collection.clear();
+    if (scope === 'off' || !root) return;
+
+    // Open documents are checked against their live (possibly unsaved) text
+    const openNotes = new Map<string, NoteMetadata>();
+    for (const document of vscode.workspace.textDocuments) {
+      const filePath = document.uri.fsPath;
+      if (document.uri.scheme !== 'file' || !isMarkdownPath(filePath) || !filePath.startsWith(root)) continue;
+      openNotes.set(filePath, parseNote(filePath, document.getText(), 0, 0));
+    }
+
+    const notes = scope === 'vault'
+      ? this.vaultIndex.getNotes().map(note => openNotes.get(note.filePath) || note)
+      : Array.from(openNotes.values());
+
+    for (const note of notes) {
+      const diagnostics = this.checkNote(note);
+      if (diagnostics.length > 0) {
+        this.collection.set(vscode.Uri.file(note.filePath), diagnostics);
+      }
+    }
+  }
+
+  private checkNote(note: NoteMetadata): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const add = (range: vscode.Range, message: string, code: LinkProblem, severity: vscode.DiagnosticSeverity) => {
+      const diagnostic = new vscode.Diagnostic(range, message, severity);
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = code;
+      diagnostics.push(diagnostic);
+    };
+
+    for (const link of note.links) {
+      const range = new vscode.Range(link.line, link.column, link.line, link.column + link.length);
+      const { linkpath, subpath } = parseLinkTarget(link.target);
+      const resolved = this.resolver.resolveIndexedLink(link, note.filePath);
+
+      if (!resolved) {
+        if (link.kind === 'wiki') {
+          add(range, `Unresolved link: no note or file named "${linkpath}" in the vault`, LinkProblem.Unresolved, vscode.DiagnosticSeverity.Warning);
+        } else {
+          add(range, `Missing file: "${linkpath}" does not exist`, LinkProblem.MissingFile, vscode.DiagnosticSeverity.Warning);
+        }
+        continue;
+      }
+
+      if (subpath && isMarkdownPath(resolved)) {
+        // Fragments pointing into the note itself are checked against its live headings/blocks
+        let line = resolved === note.filePath
+          ? resolveSubpathInNote(note, subpath)
+          : this.resolver.resolveSubpath(resolved, subpath);
+        // Markdown links may use the GitHub-style anchor of the heading instead
+        const target = resolved === note.filePath ? note : this.vaultIndex.getNote(resolved);
+        if (line === undefined && link.kind === 'markdown' && !subpath.startsWith('^') && target) {
+          line = resolveHeadingSlugInNote(target, subpath);
+        }
+        if (line === undefined) {
+          const isBlock = subpath.startsWith('^');
+          add(
+            range,
+            isBlock
+              ? `Block "${subpath}" not found in ${path.basename(resolved)}`
+              : `Heading "${subpath}" not found in ${path.basename(resolved)}`,
+            isBlock ? LinkProblem.MissingBlock : LinkProblem.MissingHeading,
+            vscode.DiagnosticSeverity.Warning
+          );
+        }
+      }
+
+      if (link.kind === 'wiki' && linkpath && !linkpath.includes('/')) {
+        const candidates = this.resolver.findCandidates(linkpath);
+        if (candidates.length > 1) {
+          add(
+            range,
+            `Ambiguous link: "${linkpath}" matches ${candidates.length} files, resolved to ${this.resolver.toVaultRelative(resolved)}`,
+            LinkProblem.Ambiguous,
+            vscode.DiagnosticSeverity.Information
+          );
+        }
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const block of note.blocks) {
+      const id = block.id.toLowerCase();
+      if (seen.has(id)) {
+        add(
+          new vscode.Range(block.line, 0, block.line, Number.MAX_SAFE_INTEGER),
+          `Duplicate block id "^${block.id}"`,
+          LinkProblem.DuplicateBlockId,
+          vscode.DiagnosticSeverity.Warning
+        );
+      }
+      seen.add(id);
+    }
+
+    return diagnostics;
+  }
+
+  dispose(): void {
+    if (this.updateTimeout) clearTimeout(this.updateTimeout);
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+/**
+ * Quick fixes for link diagnostics: create the missing note, pick one of the ambiguous
+ * candidates, or remove the link keeping its text.
+ */
+export class LinkQuickFixProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private vaultIndex: VaultIndex, private resolver: LinkResolver) {}
+
+  provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    const root = this.vaultIndex.vaultPath;
+    if (!root) return actions;
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE) continue;
+      const code = diagnostic.code as LinkProblem;
+      const linkText = document.getText(diagnostic.range);
+      const isWiki = /^!?\[\[/.test(linkText);
+      const inner = isWiki
+        ? linkText.replace(/^!?\[\[/, '').replace(/\]\]$/, '')
+        : (linkText.match(/\]\(\s*<?([^)>\s]*)/) || [])[1] || '';
+      const { linkpath, alias } = parseLinkTarget(inner);
+
+      if (code === LinkProblem.Unresolved && linkpath) {
+        // Obsidian creates the notes of wikilinks relative to the vault root, markdown links
+        // point relative to their note; never outside the vault
+        const fileName = isMarkdownPath(linkpath) ? linkpath : `${linkpath}.md`;
+        const target = isWiki ? path.join(root, fileName) : path.resolve(path.dirname(document.uri.fsPath), fileName);
+        const relative = path.relative(root, target);
+        if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+          const action = new vscode.CodeAction(`Create note "${relative.split(path.sep).join('/')}"`, vscode.CodeActionKind.QuickFix);
+          action.command = {
+            command: 'obsidianManager.createLinkedNote',
+            title: 'Create note',
+            arguments: [target]
+          };
+          action.diagnostics = [diagnostic];
+          action.isPreferred = true;
+          actions.push(action);
+        }
+      }
+
+      if (code === LinkProblem.Ambiguous && isWiki) {
+        for (const candidate of this.resolver.findCandidates(linkpath)) {
+          const relative = this.resolver.toVaultRelative(candidate);
+          const newLinkpath = isMarkdownPath(linkpath) ? relative : relative.replace(/\.md$/i, '');
+          const action = new vscode.CodeAction(`Link to ${relative}`, vscode.CodeActionKind.QuickFix);
+          action.edit = new vscode.WorkspaceEdit();
+          action.edit.replace(document.uri, diagnostic.range, linkText.replace(/^(!?\[\[)[^\]|#]*/, `$1${newLinkpath}`));
+          action.diagnostics = [diagnostic];
+          actions.push(action);
+        }
+      }
+
+      if (code !== LinkProblem.DuplicateBlockId) {
+        // Keep the visible text of the link
+        const label = isWiki
+          ? (alias || linkpath.split('/').pop() || linkpath)
+          : (linkText.match(/^!?\[([^\]]*)\]/) || [])[1] || '';
+        const action = new vscode.CodeAction('Remove link (keep text)', vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, diagnostic.range, label);
+        action.diagnostics = [diagnostic];
+        actions.push(action);
+      }
+    }
+
+    return actions;
+  }
+}
+
+/**
+ * Markdown report listing broken links, orphan notes (no incoming links) and attachments
+ * that no note links to or embeds.
+ */
+export function buildVaultHealthReport(vaultIndex: VaultIndex, resolver: LinkResolver): string {
+  const notes = vaultIndex.getNotes();
+  const referenced = new Set<string>();
+  const broken: { source: NoteMetadata; link: IndexedLink }[] = [];
+
+  for (const note of notes) {
+    for (const link of note.links) {
+      const resolved = resolver.resolveIndexedLink(link, note.filePath);
+      if (!resolved) {
+        broken.push({ source: note, link });
+      } else if (resolved !== note.filePath) {
+        referenced.add(resolved);
+      }
+    }
+  }
+
+  const fileLink = (filePath: string, line?: number) => {
+    const uri = vscode.Uri.file(filePath).with(line !== undefined ? { fragment: `L${line + 1}` } : {});
+    return `[${resolver.toVaultRelative(filePath)}](${uri.toString()})`;
+  };
+
+  const orphans = notes.filter(note => !referenced.has(note.filePath)).map(note => note.filePath).sort();
+  const unusedAttachments = vaultIndex.getAttachments().filter(a => !referenced.has(a)).sort();
+
+  const lines: string[] = [
+    '# Vault health report',
+    '',
+    `- Notes: ${notes.length}`,
+    `- Attachments: ${vaultIndex.getAttachments().length}`,
+    `- Broken links: ${broken.length}`,
+    `- Orphan notes: ${orphans.length}`,
+    `- Unused attachments: ${unusedAttachments.length}`,
+    '',
+    `## Broken links (${broken.length})`,
+    ''
+  ];
+  broken
+    .sort((a, b) => a.source.filePath.localeCompare(b.source.filePath) || a.link.line - b.link.line)
+    .forEach(({ source, link }) => {
+      lines.push(`- ${fileLink(source.filePath, link.line)} line ${link.line + 1}: \`${link.target}\``);
+    });
+
+  lines.push('', `## Orphan notes (${orphans.length})`, '', '_Notes no other note links to._', '');
+  orphans.forEach(filePath => lines.push(`- ${fileLink(filePath)}`));
+
+  lines.push('', `## Unused attachments (${unusedAttachments.length})`, '', '_Files no note links to or embeds._', '');
+  unusedAttachments.forEach(filePath => lines.push(`- ${fileLink(filePath)}`));
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { VaultIndex, IndexedLink, NoteMetadata, isMarkdownPath } from './vaultIndex';
+import { getNewLinkFormat } from './obsidianConfig';
+
+export interface ParsedLinkTarget {
+  linkpath: string; // file part of the link, e.g. "Projects/Note" or "diagram.png"
+  subpath: string; // fragment after '#', without the '#' ('' if none)
+  alias?: string; // display text after '|'
+}
+
+export interface ResolvedLink {
+  filePath: string;
+  line?: number; // 0-indexed line of the #heading or #^block fragment, if any
+  subpathFound: boolean; // false when a fragment was given but does not exist in the note
+}
+
+/**
+ * Split the inside of a wiki-link ("Note#Heading|alias") into its parts.
+ * Also accepts the text with the surrounding [[ ]] and a leading '!' for embeds.
+ */
+export function parseLinkTarget(raw: string): ParsedLinkTarget {
+  let text = raw.trim();
+  if (text.startsWith('!')) text = text.slice(1);
+  if (text.startsWith('[[') && text.endsWith(']]')) text = text.slice(2, -2);
+
+  let alias: string | undefined;
+  const pipeIndex = text.indexOf('|');
+  if (pipeIndex !== -1) {
+    alias = text.slice(pipeIndex + 1).trim();
+    text = text.slice(0, pipeIndex);
+  }
+
+  let subpath = '';
+  const hashIndex = text.indexOf('#');
+  if (hashIndex !== -1) {
+    subpath = text.slice(hashIndex + 1).trim();
+    text = text.slice(0, hashIndex);
+  }
+
+  return { linkpath: text.trim(), subpath, alias };
+}
+
+// Obsidian compares headings ignoring case, surrounding space and characters not allowed in links
+function normalizeHeading(text: string): string {
+  return text.replace(/[\[\]|^:#]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * GitHub-style anchor of a heading, as used by markdown links: "## My Heading!" -> "my-heading".
+ */
+export function githubHeadingSlug(text: string): string {
+  return text.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+}
+
+/**
+ * Line of the heading whose GitHub-style anchor is `slug` (URL-encoded or not) in a parsed note.
+ */
+export function resolveHeadingSlugInNote(note: NoteMetadata, slug: string): number | undefined {
+  let wanted = slug;
+  try { wanted = decodeURIComponent(slug); } catch (e) { /* keep as written */ }
+  wanted = wanted.toLowerCase();
+  const heading = note.headings.find(h => githubHeadingSlug(h.text) === wanted);
+  return heading ? heading.line : undefined;
+}
+
+/**
+ * Line of a "#Heading", "#Parent#Child" or "#^block-id" fragment inside a parsed note.
+ */
+export function resolveSubpathInNote(note: NoteMetadata, subpath: string): number | undefined {
+  if (!subpath) return undefined;
+
+  if (subpath.startsWith('^')) {
+    const id = subpath.slice(1).toLowerCase();
+    const block = note.blocks.find(b => b.id.toLowerCase() === id);
+    return block ? block.line : undefined;
+  }
+
+  // Nested headings ("#Parent#Child") must appear in order; the last one is the target
+  const wanted = subpath.split('#').map(normalizeHeading).filter(Boolean);
+  let searchFrom = 0;
+  let line: number | undefined;
+  for (const part of wanted) {
+    const heading = note.headings.find(h => h.line >= searchFrom && normalizeHeading(h.text) === part);
+    if (!heading) return undefined;
+    line = heading.line;
+    searchFrom = heading.line + 1;
+  }
+  return line;
+}
+
+/**
+ * Resolves wiki-link targets the way Obsidian does:
+ * relative paths, exact vault paths, then case-insensitive basename / path-suffix matches.
+ * When several files match, the one in the linking note's folder wins, then the shortest path.
+ */
+export class LinkResolver implements vscode.Disposable {
+  // lower-cased file name -> files with that name (notes and attachments)
+  private byName: Map<string, string[]> | undefined;
+  private indexListener: vscode.Disposable;
+
+  constructor(private vaultIndex: VaultIndex) {
+    // Rebuilt lazily on the next lookup
+    this.indexListener = vaultIndex.onDidChange(() => { this.byName = undefined; });
+  }
+
+  /**
+   * Resolve a link path (no fragment, no alias) to an absolute file path, or undefined if
+   * nothing in the vault matches. `sourcePath` is the note containing the link.
+   */
+  public resolve(linkpath: string, sourcePath?: string): string | undefined {
+    const root = this.vaultIndex.vaultPath;
+    if (!root) return undefined;
+
+    let target = linkpath.trim().replace(/\\/g, '/');
+    if (!target) return sourcePath; // [[#Heading]] points at the current note
+    try { target = decodeURI(target); } catch (e) { /* keep as written */ }
+
+    // Obsidian omits the extension for notes; try both forms
+    const candidates = isMarkdownPath(target) ? [target] : [`${target}.md`, target];
+
+    // Relative links ("./Note", "../Other/Note") are resolved against the source folder
+    if (sourcePath && /^\.\.?\//.test(target)) {
+      for (const candidate of candidates) {
+        const full = path.resolve(path.dirname(sourcePath), candidate);
+        if (this.exists(full)) return full;
+      }
+    }
+
+    for (const candidate of candidates) {
+      const relative = candidate.replace(/^\/+/, '').toLowerCase();
+      const matches = this.matchPath(relative);
+      if (matches.length > 0) {
+        return this.pickBest(matches, relative, sourcePath);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * All vault files a link path could refer to (before the tie-breaking rules of `resolve`).
+   * More than one entry means the link is ambiguous.
+   */
+  public findCandidates(linkpath: string): string[] {
+    let target = linkpath.trim().replace(/\\/g, '/');
+    if (!target) return [];
+    try { target = decodeURI(target); } catch (e) { /* keep as written */ }
+    const candidates = isMarkdownPath(target) ? [target] : [`${target}.md`, target];
+    for (const candidate of candidates) {
+      const matches = this.matchPath(candidate.replace(/^\/+/, '').toLowerCase());
+      if (matches.length > 0) return matches;
+    }
+    return [];
+  }
+
+  private matchPath(relative: string): string[] {
+    const name = relative.split('/').pop() || '';
+    return (this.getNameMap().get(name) || []).filter(filePath => {
+      const fileRelative = this.toVaultRelative(filePath).toLowerCase();
+      return fileRelative === relative || fileRelative.endsWith('/' + relative);
+    });
+  }
+
+  /**
+   * Resolve full link text ("Note#Heading|alias", "Note#^block") to a file and, for
+   * heading and block fragments, the line they point at.
+   */
+  public resolveLink(raw: string, sourcePath?: string): ResolvedLink | undefined {
+    const { linkpath, subpath } = parseLinkTarget(raw);
+    const filePath = this.resolve(linkpath, sourcePath);
+    if (!filePath) return undefined;
+    if (!subpath) return { filePath, subpathFound: true };
+    const line = this.resolveSubpath(filePath, subpath);
+    return { filePath, line, subpathFound: line !== undefined };
+  }
+
+  /**
+   * Resolve a link recorded in the index. Markdown links are relative to the source note
+   * first (as in any markdown renderer), wiki-links follow the Obsidian rules.
+   */
+  public resolveIndexedLink(link: IndexedLink, sourcePath: string): string | undefined {
+    const { linkpath } = parseLinkTarget(link.target);
+    if (link.kind === 'markdown' && linkpath) {
+      const relative = path.resolve(path.dirname(sourcePath), linkpath);
+      if (this.exists(relative)) return relative;
+    }
+    return this.resolve(linkpath, sourcePath);
+  }
+
+  /**
+   * Line of a "#Heading", "#Parent#Child" or "#^block-id" fragment inside an indexed note.
+   */
+  public resolveSubpath(filePath: string, subpath: string): number | undefined {
+    const note = this.vaultIndex.getNote(filePath);
+    return note ? resolveSubpathInNote(note, subpath) : undefined;
+  }
+
+  /**
+   * Link text to `targetFilePath` from `currentFilePath` in Obsidian's "New link format":
+   * shortest (the bare name when it is unambiguous or in the same folder, the vault path
+   * otherwise), relative to the current note, or the vault path.
+   */
+  public linkpathFor(targetFilePath: string, currentFilePath?: string): string {
+    const relative = this.toVaultRelative(targetFilePath);
+    const stripExt = (p: string) => isMarkdownPath(p) ? p.slice(0, -3) : p;
+
+    const format = getNewLinkFormat(this.vaultIndex.vaultPath);
+    if (format === 'absolute') {
+      return stripExt(relative);
+    }
+    if (format === 'relative' && currentFilePath) {
+      const fromNote = path.relative(path.dirname(currentFilePath), targetFilePath).split(path.sep).join('/');
+      // "./" keeps links into subfolders from being read as vault paths
+      return stripExt(fromNote.startsWith('../') || !fromNote.includes('/') ? fromNote : `./${fromNote}`);
+    }
+
+    const name = stripExt(path.basename(targetFilePath));
+    if (this.resolve(name, currentFilePath) === targetFilePath) {
+      return name;
+    }
+    return stripExt(relative);
+  }
+
+  /**
+   * Build a [[wiki-link]] pointing at `targetFilePath`, optionally with display text.
+   */
+  public generateObsidianLink(targetFilePath: string, currentFilePath: string, alias?: string): string {
+    const linkpath = this.linkpathFor(targetFilePath, currentFilePath);
+    return alias ? `[[${linkpath}|${alias}]]` : `[[${linkpath}]]`;
+  }
+
+  public toVaultRelative(filePath: string): string {
+    const root = this.vaultIndex.vaultPath || '';
+    return path.relative(root, filePath).split(path.sep).join('/');
+  }
+
+  private pickBest(matches: string[], relative: string, sourcePath?: string): string {
+    if (matches.length === 1) return matches[0];
+
+    // An exact vault path always wins over a suffix match
+    const exact = matches.find(m => this.toVaultRelative(m).toLowerCase() === relative);
+    if (exact) return exact;
+
+    if (sourcePath) {
+      const sourceDir = path.dirname(sourcePath);
+      const sameFolder = matches.find(m => path.dirname(m) === sourceDir);
+      if (sameFolder) return sameFolder;
+    }
+
+    return matches.slice().sort((a, b) => {
+      const depth = (p: string) => this.toVaultRelative(p).split('/').length;
+      return depth(a) - depth(b) || a.length - b.length || a.localeCompare(b);
+    })[0];
+  }
+
+  private exists(filePath: string): boolean {
+    const name = path.basename(filePath).toLowerCase();
+    return (this.getNameMap().get(name) || []).includes(filePath);
+  }
+
+  private getNameMap(): Map<string, string[]> {
+    if (!this.byName) {
+      const byName = new Map<string, string[]>();
+      const add = (filePath: string) => {
+        const name = path.basename(filePath).toLowerCase();
+        const list = byName.get(name);
+        if (list) list.push(filePath); else byName.set(name, [filePath]);
+      };
+      this.vaultIndex.getNotes().forEach(note => add(note.filePath));
+      this.vaultIndex.getAttachments().forEach(add);
+      this.byName = byName;
+    }
+    return this.byName;
+  }
+
+  dispose(): void {
+    this.indexListener.dispose();
+  }
+}
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { VaultIndex, IndexedLink, NoteMetadata, isMarkdownPath } from './vaultIndex';
+import { LinkResolver, parseLinkTarget } from './linkResolver';
+
+type LinkUpdate = {
+  filePath: string; // note containing the link (current location)
+  range: vscode.Range;
+  newText: string;
+};
+
+/**
+ * Renames/moves files and folders while keeping every link that points at them valid.
+ * The move and all link updates go through a single WorkspaceEdit, so they can be
+ * reviewed in the refactor preview and undone in one step.
+ */
+export class LinkRewriter {
+  constructor(private vaultIndex: VaultIndex, private resolver: LinkResolver) {}
+
+  /**
+   * Move `oldPath` (file or folder) to `newPath` and rewrite links vault-wide.
+   * Returns false when the user discarded the preview or the edit could not be applied.
+   */
+  public async moveWithLinks(oldPath: string, newPath: string, overwrite: boolean = false): Promise<boolean> {
+    await this.vaultIndex.ready();
+
+    const moves = this.collectMoves(oldPath, newPath);
+    const updates = await this.collectLinkUpdates(moves);
+
+    const edit = new vscode.WorkspaceEdit();
+    const root = this.vaultIndex.vaultPath || '';
+    for (const update of updates) {
+      edit.replace(vscode.Uri.file(update.filePath), update.range, update.newText, {
+        label: 'Update links',
+        description: path.relative(root, update.filePath),
+        needsConfirmation: true
+      });
+    }
+    // Text edits target the old locations, so the move comes last
+    edit.renameFile(vscode.Uri.file(oldPath), vscode.Uri.file(newPath), { overwrite }, {
+      label: `Move ${path.basename(oldPath)}`,
+      description: `${path.relative(root, oldPath)} → ${path.relative(root, newPath)}`,
+      needsConfirmation: updates.length > 0
+    });
+
+    const applied = await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+    if (!applied) {
+      return false;
+    }
+
+    // Persist the rewritten notes like Obsidian does; undo stays available in the editors
+    const edited = new Set(updates.map(u => moves.get(u.filePath) || u.filePath));
+    for (const filePath of edited) {
+      const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath);
+      if (document && document.isDirty) {
+        await document.save();
+      }
+    }
+
+    await this.vaultIndex.refreshPaths([oldPath, newPath, ...edited]);
+    return true;
+  }
+
+  /**
+   * Map every indexed note and attachment affected by the move to its new location.
+   */
+  private collectMoves(oldPath: string, newPath: string): Map<string, string> {
+    const moves = new Map<string, string>();
+    const prefix = oldPath + path.sep;
+    const all = [
+      ...this.vaultIndex.getNotes().map(n => n.filePath),
+      ...this.vaultIndex.getAttachments()
+    ];
+    for (const filePath of all) {
+      if (filePath === oldPath) {
+        moves.set(filePath, newPath);
+      } else if (filePath.startsWith(prefix)) {
+        moves.set(filePath, path.join(newPath, filePath.slice(prefix.length)));
+      }
+    }
+    return moves;
+  }
+
+  private async collectLinkUpdates(moves: Map<string, string>): Promise<LinkUpdate[]> {
+    const updates: LinkUpdate[] = [];
+    if (moves.size === 0) return updates;
+
+    // Names that will be taken after the move, to know whether a bare [[Name]] stays unambiguous
+    const nameCounts = new Map<string, number>();
+    for (const note of this.vaultIndex.getNotes()) {
+      const name = path.basename(moves.get(note.filePath) || note.filePath).toLowerCase();
+      nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+    }
+    for (const attachment of this.vaultIndex.getAttachments()) {
+      const name = path.basename(moves.get(attachment) || attachment).toLowerCase();
+      nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+    }
+
+    for (const note of this.vaultIndex.getNotes()) {
+      const noteUpdates = note.links
+        .map(link => this.rewriteLink(note, link, moves, nameCounts))
+        .filter((u): u is { link: IndexedLink; newTarget: string } => !!u);
+      if (noteUpdates.length === 0) continue;
+
+      // Work on the live document so unsaved changes and exact columns are respected
+      let document: vscode.TextDocument;
+      try {
+        document = await vscode.workspace.openTextDocument(vscode.Uri.file(note.filePath));
+      } catch (err) {
+        continue;
+      }
+
+      for (const { link, newTarget } of noteUpdates) {
+        if (link.line >= document.lineCount) continue;
+        const lineText = document.lineAt(link.line).text;
+        const original = lineText.substr(link.column, link.length);
+        const newText = replaceLinkTarget(original, link, newTarget);
+        if (!newText || newText === original) continue;
+        updates.push({
+          filePath: note.filePath,
+          range: new vscode.Range(link.line, link.column, link.line, link.column + link.length),
+          newText
+        });
+      }
+    }
+    return updates;
+  }
+
+  /**
+   * New link path for `link` when its target and/or its source note move, or undefined if
+   * the link text can stay as it is.
+   */
+  private rewriteLink(
+    note: NoteMetadata,
+    link: IndexedLink,
+    moves: Map<string, string>,
+    nameCounts: Map<string, number>
+  ): { link: IndexedLink; newTarget: string } | undefined {
+    const resolved = this.resolver.resolveIndexedLink(link, note.filePath);
+    if (!resolved) return undefined;
+
+    const newSource = moves.get(note.filePath) || note.filePath;
+    const newTarget = moves.get(resolved) || resolved;
+    if (newSource === note.filePath && newTarget === resolved) return undefined;
+
+    const { linkpath } = parseLinkTarget(link.target);
+    // [[#Heading]] always points at the note it is written in
+    if (!linkpath) return undefined;
+    const keepExtension = isMarkdownPath(linkpath) || !isMarkdownPath(newTarget);
+    const strip = (p: string) => keepExtension ? p : p.replace(/\.md$/i, '');
+
+    if (link.kind === 'markdown') {
+      // Relative links change whenever the source or the target moves
+      const relative = path.relative(path.dirname(newSource), newTarget).split(path.sep).join('/');
+      return { link, newTarget: strip(relative.replace(/ /g, '%20')) };
+    }
+
+    // Wiki-links only depend on the target; moving the source note does not break them
+    if (newTarget === resolved) return undefined;
+
+    const newName = path.basename(newTarget);
+    const bareNameStillUnique = (nameCounts.get(newName.toLowerCase()) || 0) <= 1;
+    if (!linkpath.includes('/') && bareNameStillUnique) {
+      return { link, newTarget: strip(newName) };
+    }
+    return { link, newTarget: strip(this.resolver.toVaultRelative(newTarget)) };
+  }
+}
+
+/**
+ * Replace the path part of a link's source text, keeping embed marker, fragment, alias and title.
+ */
+function replaceLinkTarget(original: string, link: IndexedLink, newTarget: string): string | undefined {
+  if (link.kind === 'wiki') {
+    const match = original.match(/^(!?\[\[)([^\]|#]*)(.*)$/);
+    if (!match) return undefined;
+    return `${match[1]}${newTarget}${match[3]}`;
+  }
+  const match = original.match(/^(!?\[[^\]]*\]\(\s*<?)([^)#\s>]*)(.*)$/);
+  if (!match) return undefined;
+  return `${match[1]}${newTarget}${match[3]}`;
+}
@@ -4,6 +4,7 @@ import * as fs from 'fs';
 import { promises as fsp } from 'fs';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
+import type { LinkRewriter } from './linkRewriter';
 
 const execFileAsync = promisify(execFile);
 
@@ -233,7 +234,10 @@ export class NetworkSyncProvider implements vscode.TreeDataProvider<NetworkSyncN
   /** Map from networkUrl → human-readable status line shown as node description */
   private statusMap = new Map<string, string>();
 
-  constructor(private readonly context: vscode.ExtensionContext) {}
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly linkRewriter?: LinkRewriter
+  ) {}
 
   refresh(): void {
     this._onDidChangeTreeData.fire();
@@ -577,6 +581,18 @@ export class NetworkSyncProvider implements vscode.TreeDataProvider<NetworkSyncN
     return undefined;
   }
 
+  /**
+   * Rename/move a local file or folder. Goes through the link rewriter when available so
+   * vault links pointing at it are updated; returns false if the user cancelled the preview.
+   */
+  async movePath(from: string, to: string): Promise<boolean> {
+    if (this.linkRewriter) {
+      return this.linkRewriter.moveWithLinks(from, to);
+    }
+    await fsp.rename(from, to);
+    return true;
+  }
+
   private async triggerAutoSync(networkUrl: string): Promise<void> {
     try {
       await this.syncPath(networkUrl, undefined, undefined, true);
@@ -691,7 +707,7 @@ export class NetworkSyncProvider implements vscode.TreeDataProvider<NetworkSyncN
     }
 
     try {
-      await fsp.rename(node.localPath, destPath);
+      if (!await this.movePath(node.localPath, destPath)) return;
     } catch (err) {
       vscode.window.showErrorMessage(`Could not rename: ${String(err)}`);
       return;
@@ -737,7 +753,7 @@ export class NetworkSyncProvider implements vscode.TreeDataProvider<NetworkSyncN
     }
 
     try {
-      await fsp.rename(node.localPath, destPath);
+      if (!await this.movePath(node.localPath, destPath)) return;
     } catch (err) {
       vscode.window.showErrorMessage(`Could not rename folder: ${String(err)}`);
       return;
@@ -842,7 +858,7 @@ export class NetworkSyncDragAndDropController implements vscode.TreeDragAndDropC
       }
 
       try {
-        await fsp.rename(src.localPath, destPath);
+        if (!await this.provider.movePath(src.localPath, destPath)) continue;
         needsSync = true;
       } catch (err) {
         vscode.window.showErrorMessage(`Could not move "${base}": ${String(err)}`);
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { readFileSync } from 'fs';
+
+/**
+ * Settings Obsidian keeps in `<vault>/.obsidian/`: daily-notes.json (core Daily notes plugin),
+ * templates.json (core Templates plugin) and app.json (Files and links). They are the defaults
+ * of the matching `obsidianManager.*` settings, which override them when set.
+ */
+
+export type NewLinkFormat = 'shortest' | 'relative' | 'absolute';
+
+export interface ObsidianConfig {
+  dailyNotes: { folder: string; format: string; template: string }; // '' when not set
+  templates: { folder: string; dateFormat: string; timeFormat: string };
+  attachmentFolder: string; // '/' vault root, './' folder of the note, './sub' below it, else relative to the vault
+  newLinkFormat: NewLinkFormat;
+  excludedFiles: string[]; // path prefixes relative to the vault, or /regular expressions/
+}
+
+export interface DailyNoteSettings {
+  folder: string; // relative to the vault, '' for its root
+  format: string; // moment.js format, may hold folders, e.g. YYYY/MM/YYYY-MM-DD
+  template: string; // note relative to the templates folder or the vault, '' for none
+}
+
+export interface TemplateSettings {
+  folder: string; // relative to the vault, '' when not set
+  dateFormat: string;
+  timeFormat: string;
+}
+
+const CONFIG_FILES = ['app.json', 'daily-notes.json', 'templates.json'];
+
+// vault path -> settings read from its .obsidian folder, until one of the files changes
+const configCache = new Map<string, ObsidianConfig>();
+
+function readJson(filePath: string): Record<string, unknown> {
+  try {
+    const data = JSON.parse(readFileSync(filePath, 'utf8'));
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+  } catch {
+    // Missing (plugin never configured) or being written
+    return {};
+  }
+}
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const trimSlashes = (folder: string) => folder.replace(/^[\\/]+|[\\/]+$/g, '');
+
+export function readObsidianConfig(vaultPath: string): ObsidianConfig {
+  const cached = configCache.get(vaultPath);
+  if (cached) return cached;
+
+  const configDir = path.join(vaultPath, '.obsidian');
+  const daily = readJson(path.join(configDir, 'daily-notes.json'));
+  const templates = readJson(path.join(configDir, 'templates.json'));
+  const app = readJson(path.join(configDir, 'app.json'));
+  const linkFormat = text(app.newLinkFormat);
+  const config: ObsidianConfig = {
+    dailyNotes: { folder: trimSlashes(text(daily.folder)), format: text(daily.format), template: text(daily.template) },
+    templates: { folder: trimSlashes(text(templates.folder)), dateFormat: text(templates.dateFormat), timeFormat: text(templates.timeFormat) },
+    attachmentFolder: text(app.attachmentFolderPath),
+    newLinkFormat: linkFormat === 'relative' || linkFormat === 'absolute' ? linkFormat : 'shortest',
+    excludedFiles: Array.isArray(app.userIgnoreFilters) ? app.userIgnoreFilters.filter((f): f is string => typeof f === 'string' && f.trim() !== '') : []
+  };
+  configCache.set(vaultPath, config);
+  return config;
+}
+
+/**
+ * Whether `fsPath` is one of the .obsidian files read here; the vault index reloads them on change.
+ */
+export function isObsidianConfigFile(vaultPath: string, fsPath: string): boolean {
+  return path.dirname(fsPath) === path.join(vaultPath, '.obsidian') && CONFIG_FILES.includes(path.basename(fsPath));
+}
+
+export function clearObsidianConfigCache(vaultPath?: string): void {
+  if (vaultPath) {
+    configCache.delete(vaultPath);
+  } else {
+    configCache.clear();
+  }
+}
+
+export function getDailyNoteSettings(vaultPath: string | undefined): DailyNoteSettings {
+  const cfg = vscode.workspace.getConfiguration('obsidianManager');
+  const obsidian = vaultPath ? readObsidianConfig(vaultPath).dailyNotes : undefined;
+  return {
+    // '/' puts them back in the vault root when Obsidian uses a folder
+    folder: trimSlashes((cfg.get<string>('dailyNotesFolder', '') || '').trim() || obsidian?.folder || ''),
+    format: (cfg.get<string>('dailyNoteFormat', '') || '').trim() || obsidian?.format || 'YYYY-MM-DD',
+    template: (cfg.get<string>('dailyNoteTemplate', '') || '').trim() || obsidian?.template || ''
+  };
+}
+
+export function getTemplateSettings(vaultPath: string | undefined): TemplateSettings {
+  const cfg = vscode.workspace.getConfiguration('obsidianManager');
+  const obsidian = vaultPath ? readObsidianConfig(vaultPath).templates : undefined;
+  return {
+    folder: trimSlashes((cfg.get<string>('templatesFolder', '') || '').trim() || obsidian?.folder || ''),
+    dateFormat: (cfg.get<string>('templateDateFormat', '') || '').trim() || obsidian?.dateFormat || 'YYYY-MM-DD',
+    timeFormat: (cfg.get<string>('templateTimeFormat', '') || '').trim() || obsidian?.timeFormat || 'HH:mm'
+  };
+}
+
+export function getNewLinkFormat(vaultPath: string | undefined): NewLinkFormat {
+  const configured = vscode.workspace.getConfiguration('obsidianManager').get<string>('newLinkFormat', '');
+  if (configured === 'shortest' || configured === 'relative' || configured === 'absolute') return configured;
+  return vaultPath ? readObsidianConfig(vaultPath).newLinkFormat : 'shortest';
+}
+
+/**
+ * Folder new attachments of the note `notePath` go to; Obsidian's default is the vault root.
+ */
+export function attachmentFolderFor(vaultPath: string, notePath: string): string {
+  const configured = (vscode.workspace.getConfiguration('obsidianManager').get<string>('attachmentFolder', '') || '').trim();
+  const folder = configured || readObsidianConfig(vaultPath).attachmentFolder || '/';
+  if (folder === '.' || folder.startsWith('./')) {
+    return path.join(path.dirname(notePath), trimSlashes(folder.slice(1)));
+  }
+  return path.join(vaultPath, trimSlashes(folder));
+}
+
+/**
+ * Test of the vault-relative paths (forward slashes, folders ending with '/') left out of the
+ * vault: `obsidianManager.excludedFiles`, else Obsidian's "Excluded files". Like in Obsidian,
+ * a filter is a path prefix, or a regular expression between slashes.
+ */
+export function excludedPathMatcher(vaultPath: string | undefined): (relativePath: string) => boolean {
+  const configured = vscode.workspace.getConfiguration('obsidianManager').get<string[]>('excludedFiles', []) || [];
+  const filters = configured.length > 0 ? configured : vaultPath ? readObsidianConfig(vaultPath).excludedFiles : [];
+  const prefixes: string[] = [];
+  const patterns: RegExp[] = [];
+  for (const filter of filters.map(f => f.trim()).filter(f => f)) {
+    const regex = filter.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) {
+      try {
+        patterns.push(new RegExp(regex[1], regex[2].replace('g', '')));
+      } catch {
+        console.warn(`Excluded files: invalid regular expression ${filter}`);
+      }
+    } else {
+      prefixes.push(filter.replace(/\\/g, '/').replace(/^\/+/, ''));
+    }
+  }
+  if (prefixes.length === 0 && patterns.length === 0) return () => false;
+  return relativePath => prefixes.some(prefix => relativePath.startsWith(prefix)) || patterns.some(pattern => pattern.test(relativePath));
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { promises as fs } from 'fs';
+import { VaultIndex, isMarkdownPath } from './vaultIndex';
+import { getTaskStatuses, findTaskStatus, isClosedStatus } from './taskStatus';
 
 export type ObsidianNode = {
   resourceUri: vscode.Uri;
@@ -11,29 +12,12 @@ export class ObsidianTreeProvider implements vscode.TreeDataProvider<ObsidianNod
   private _onDidChangeTreeData: vscode.EventEmitter<ObsidianNode | undefined | void> = new vscode.EventEmitter<ObsidianNode | undefined | void>();
   readonly onDidChangeTreeData: vscode.Event<ObsidianNode | undefined | void> = this._onDidChangeTreeData.event;
 
-  private cache: Map<string, ObsidianNode[]> = new Map();
-  private taskCache: Map<string, {completed: number, total: number, lastModified: number}> = new Map();
-  private taskCountPromises: Map<string, Promise<{completed: number, total: number}>> = new Map();
-  private rootPath: string | undefined;
-  private preloadPromise: Promise<void> | undefined;
-
-  constructor(private context: vscode.ExtensionContext) {
-    // Kick off a background preload of the vault
-    this.preloadVault().catch(() => { /* ignore preload errors */ });
-
-    // Re-preload when configuration changes
-        vscode.workspace.onDidChangeConfiguration(e => {
-          if (e.affectsConfiguration('obsidianManager.vault')) {
-          this.preloadVault().catch(() => {});
-          this.refresh();
-        }
-      });
+  constructor(private context: vscode.ExtensionContext, private vaultIndex: VaultIndex) {
+    // The shared index owns scanning and watching; redraw whenever it changes
+    context.subscriptions.push(vaultIndex.onDidChange(() => this.refresh()));
   }
 
   refresh(): void {
-    // Clear task cache when refreshing to ensure task counts are updated
-    this.taskCache.clear();
-    this.taskCountPromises.clear();
     this._onDidChangeTreeData.fire();
   }
 
@@ -41,8 +25,8 @@ export class ObsidianTreeProvider implements vscode.TreeDataProvider<ObsidianNod
     const baseName = path.basename(element.resourceUri.fsPath);
     let label = baseName;
     
-    // Add task count for markdown files (cached)
-    if (!element.isDirectory && element.resourceUri.fsPath.toLowerCase().endsWith('.md')) {
+    // Add task count for markdown files (from the vault index)
+    if (!element.isDirectory && isMarkdownPath(element.resourceUri.fsPath)) {
       const taskCount = this.getTaskCountSync(element.resourceUri.fsPath);
       if (taskCount.total > 0) {
         label = `${baseName} [${taskCount.completed}/${taskCount.total}]`;
@@ -67,8 +51,7 @@ export class ObsidianTreeProvider implements vscode.TreeDataProvider<ObsidianNod
     if (element.isDirectory) {
       // Check if this is a root folder (direct child of vault root)
       const parentPath = path.dirname(element.resourceUri.fsPath);
-      const configuredVault = ((cfg.get<string>('vault') || '')).trim();
-      const root = this.normalizeToFsPath(configuredVault);
+      const root = this.vaultIndex.vaultPath;
       const isRootFolder = root && parentPath === root;
       
       treeItem.contextValue = isRootFolder ? 'obsidianRootFolder' : 'obsidianFolder';
@@ -93,55 +76,39 @@ export class ObsidianTreeProvider implements vscode.TreeDataProvider<ObsidianNod
   }
 
   async getChildren(element?: ObsidianNode): Promise<ObsidianNode[]> {
-  const cfg = vscode.workspace.getConfiguration('obsidianManager');
-       const configuredVault = ((cfg.get<string>('vault') || '')).trim();
-    if (!configuredVault) {
-      return [];
-    }
-
-    const root = this.normalizeToFsPath(configuredVault);
+    const cfg = vscode.workspace.getConfiguration('obsidianManager');
+    const root = this.vaultIndex.vaultPath;
     if (!root) return [];
 
+    await this.vaultIndex.ready();
+
     // support two view modes: 'folders' (hierarchical) and 'list' (flat list of .md files)
     const viewMode = (cfg.get<string>('viewMode') || 'folders').trim();
 
     if (!element) {
       if (viewMode === 'list') {
-        // return a flat list of all .md files found in the cache (preloaded)
-        const seen = new Set<string>();
-        const files: ObsidianNode[] = [];
-        for (const nodes of this.cache.values()) {
-          for (const n of nodes) {
-            if (!n.isDirectory && !seen.has(n.resourceUri.fsPath)) {
-              seen.add(n.resourceUri.fsPath);
-              files.push(n);
-            }
-          }
-        }
-        files.sort((a, b) => a.resourceUri.fsPath.localeCompare(b.resourceUri.fsPath));
-        return files;
+        return this.vaultIndex.getNotes()
+          .map(note => ({ resourceUri: vscode.Uri.file(note.filePath), isDirectory: false }))
+          .sort((a, b) => a.resourceUri.fsPath.localeCompare(b.resourceUri.fsPath));
       }
-
-      const cached = this.cache.get(root);
-      if (cached) return cached;
-      await this.scanDirIntoCache(root);
-      return this.cache.get(root) || [];
+      return this.toNodes(root);
     }
 
-    const cached = this.cache.get(element.resourceUri.fsPath);
-    if (cached) return cached;
-    await this.scanDirIntoCache(element.resourceUri.fsPath);
-    return this.cache.get(element.resourceUri.fsPath) || [];
+    return this.toNodes(element.resourceUri.fsPath);
+  }
+
+  private toNodes(dir: string): ObsidianNode[] {
+    return this.vaultIndex.getChildren(dir).map(entry => ({
+      resourceUri: vscode.Uri.file(entry.fsPath),
+      isDirectory: entry.isDirectory
+    }));
   }
 
   // Required by TreeView.reveal: return the parent element for a given element (or undefined for root-level)
   getParent(element: ObsidianNode): vscode.ProviderResult<ObsidianNode> {
     if (!element) return undefined;
     
-    const cfg = vscode.workspace.getConfiguration('obsidianManager');
-    const configuredVault = ((cfg.get<string>('vault') || '')).trim();
-    const root = this.normalizeToFsPath(configuredVault);
-    
+    const root = this.vaultIndex.vaultPath;
     if (!root) return undefined;
     
     const elementPath = path.normalize(element.resourceUri.fsPath);
@@ -162,171 +129,37 @@ export class ObsidianTreeProvider implements vscode.TreeDataProvider<ObsidianNod
     return { resourceUri: vscode.Uri.file(parentPath), isDirectory: true } as ObsidianNode;
   }
 
-  private normalizeToFsPath(input: string): string | undefined {
-    try {
-      if (!input) return undefined;
-      if (input.startsWith('file://')) return vscode.Uri.parse(input).fsPath;
-      if (input.startsWith('~')) return path.join(process.env.HOME || '', input.slice(1));
-      return input;
-    } catch (e) {
-      return undefined;
-    }
-  }
-
-  private async preloadVault(): Promise<void> {
-    const cfg = vscode.workspace.getConfiguration('obsidianManager');
-  const configuredVault = ((cfg.get<string>('vault') || '')).trim();
-    const root = this.normalizeToFsPath(configuredVault);
-    if (!root) return;
-    this.rootPath = root;
-    this.cache.clear();
-    await this.scanDirIntoCache(root);
-  }
-
   /**
-   * Ensure the initial preload is running and return a promise that resolves when done.
+   * Ensure the initial vault scan has completed.
    * Public so the extension can wait for the tree to be populated before rendering.
    */
   public ensurePreloaded(): Promise<void> {
-    if (!this.preloadPromise) {
-      this.preloadPromise = this.preloadVault();
-    }
-    return this.preloadPromise;
+    return this.vaultIndex.ready();
   }
 
-  // Public helper to trigger a fresh preload/scan and refresh the view
+  // Public helper to trigger a fresh scan and refresh the view
   public async refreshAll(): Promise<void> {
-    // Reset preloadPromise so ensurePreloaded will re-run preloadVault
-    this.preloadPromise = undefined;
-    // Clear task cache to ensure fresh task counts
-    this.taskCache.clear();
-    this.taskCountPromises.clear();
-    await this.ensurePreloaded();
+    await this.vaultIndex.rescan();
     this.refresh();
   }
 
-  private async scanDirIntoCache(dir: string, depth: number = 0): Promise<void> {
-    // Safety check: prevent infinite recursion
-    if (depth > 50) {
-      return;
-    }
-    
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-      const nodes: ObsidianNode[] = [];
-      const subdirs: string[] = [];
-      const mdFiles: string[] = [];
-      
-      // First pass: collect entries
-      for (const e of entries) {
-        // Skip hidden files/folders and special folders
-        if (e.name.startsWith('.') || e.name === '@eaDir') continue;
-        
-        const full = path.join(dir, e.name);
-        if (e.isDirectory()) {
-          nodes.push({ resourceUri: vscode.Uri.file(full), isDirectory: true });
-          subdirs.push(full);
-        } else if (e.isFile() && e.name.toLowerCase().endsWith('.md')) {
-          nodes.push({ resourceUri: vscode.Uri.file(full), isDirectory: false });
-          mdFiles.push(full);
-        }
-      }
-      
-      // Optimized sorting: directories first, then simple string comparison
-      nodes.sort((a, b) => {
-        if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1;
-        // Simple string comparison is faster than localeCompare for ASCII
-        const aPath = a.resourceUri.fsPath;
-        const bPath = b.resourceUri.fsPath;
-        return aPath < bPath ? -1 : aPath > bPath ? 1 : 0;
-      });
-      
-      this.cache.set(dir, nodes);
-      
-      // Preload task counts for .md files in parallel (batch operation)
-      if (mdFiles.length > 0) {
-        this.preloadTaskCounts(mdFiles);
-      }
-      
-      // Recursively preload subdirectories in parallel (but limit concurrency)
-      if (subdirs.length > 0) {
-        const batchSize = 5; // Process 5 directories at a time
-        for (let i = 0; i < subdirs.length; i += batchSize) {
-          const batch = subdirs.slice(i, i + batchSize);
-          await Promise.all(batch.map(subdir => this.scanDirIntoCache(subdir, depth + 1)));
-        }
-      }
-    } catch (err) {
-      // on error store empty to avoid repeated attempts
-      this.cache.set(dir, []);
-    }
-  }
-
   private getIconForFile(fsPath: string): { light: vscode.Uri; dark: vscode.Uri } | undefined {
     const img = this.context.asAbsolutePath('images/obsidian.svg');
     return { light: vscode.Uri.file(img), dark: vscode.Uri.file(img) };
   }
 
-  // Synchronous version for getTreeItem (uses cache only)
+  // Task counts come straight from the index
   private getTaskCountSync(filePath: string): {completed: number, total: number} {
-    const cached = this.taskCache.get(filePath);
-    if (cached) {
-      return { completed: cached.completed, total: cached.total };
-    }
-    return { completed: 0, total: 0 };
-  }
-
-  // Asynchronous version for preloading
-  private async getTaskCountAsync(filePath: string): Promise<{completed: number, total: number}> {
-    try {
-      // Check if we have cached task count and file hasn't been modified
-      const stat = await fs.stat(filePath);
-      const lastModified = stat.mtime.getTime();
-      
-      const cached = this.taskCache.get(filePath);
-      if (cached && cached.lastModified === lastModified) {
-        return { completed: cached.completed, total: cached.total };
-      }
-
-      // Read file and count tasks
-      const content = await fs.readFile(filePath, 'utf8');
-      
-      // Match both - [ ] (uncompleted) and - [x] or - [X] (completed) tasks
-      const taskRegex = /^[\s]*[-*+]\s+\[(\s|x|X)\]/gm;
-      const matches = content.match(taskRegex) || [];
-      
-      const total = matches.length;
-      const completed = matches.filter((match: string) => match.includes('[x]') || match.includes('[X]')).length;
-      
-      // Cache the result
-      this.taskCache.set(filePath, { completed, total, lastModified });
-      
-      return { completed, total };
-    } catch (err) {
-      // If file can't be read, return no tasks
+    const note = this.vaultIndex.getNote(filePath);
+    if (!note) {
       return { completed: 0, total: 0 };
     }
-  }
-
-  // Preload task counts for multiple files in parallel
-  private preloadTaskCounts(filePaths: string[]): void {
-    // Fire and forget - load in background
-    Promise.all(
-      filePaths.map(filePath => {
-        // Avoid duplicate promises
-        if (!this.taskCountPromises.has(filePath)) {
-          const promise = this.getTaskCountAsync(filePath).finally(() => {
-            this.taskCountPromises.delete(filePath);
-          });
-          this.taskCountPromises.set(filePath, promise);
-        }
-        return this.taskCountPromises.get(filePath);
-      })
-    ).then(() => {
-      // Refresh tree to show task counts once loaded
-      this._onDidChangeTreeData.fire();
-    }).catch(() => {
-      // Ignore errors in background loading
-    });
+    // Every configured status counts; done and cancelled tasks count as completed
+    const statuses = getTaskStatuses();
+    const tasks = note.tasks
+      .map(t => findTaskStatus(t.status, statuses))
+      .filter(status => status && status.type !== 'nonTask');
+    const completed = tasks.filter(isClosedStatus).length;
+    return { completed, total: tasks.length };
   }
 }
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { formatDate, isoWeekStart, isoWeek } from './dateFormat';
+import { renderTemplate, resolveTemplatePath } from './templates';
+
+/**
+ * Weekly, monthly, quarterly and yearly notes. Each period has a folder (relative to the vault),
+ * a moment.js style filename format and an optional template note, set in
+ * `obsidianManager.periodicNotes`. Weeks are ISO weeks, from Monday to Sunday.
+ */
+
+export type NotePeriod = 'week' | 'month' | 'quarter' | 'year';
+
+export interface PeriodicNoteSettings {
+  folder: string; // relative to the vault, '' for its root
+  format: string; // e.g. GGGG-[W]WW
+  template: string; // note relative to the templates folder or the vault, '' for none
+}
+
+export const NOTE_PERIODS: { period: NotePeriod; label: string }[] = [
+  { period: 'week', label: 'Weekly note' },
+  { period: 'month', label: 'Monthly note' },
+  { period: 'quarter', label: 'Quarterly note' },
+  { period: 'year', label: 'Yearly note' }
+];
+
+const DEFAULT_FORMATS: Record<NotePeriod, string> = {
+  week: 'GGGG-[W]WW',
+  month: 'YYYY-MM',
+  quarter: 'YYYY-[Q]Q',
+  year: 'YYYY'
+};
+
+export function getPeriodicNoteSettings(period: NotePeriod): PeriodicNoteSettings {
+  const configured = vscode.workspace.getConfiguration('obsidianManager').get<Partial<Record<NotePeriod, Partial<PeriodicNoteSettings>>>>('periodicNotes', {});
+  const settings = configured?.[period] || {};
+  return {
+    folder: (settings.folder || '').trim().replace(/^[\\/]+|[\\/]+$/g, ''),
+    format: (settings.format || '').trim() || DEFAULT_FORMATS[period],
+    template: (settings.template || '').trim()
+  };
+}
+
+/**
+ * First day of the period containing `date`.
+ */
+export function periodStart(period: NotePeriod, date: Date): Date {
+  switch (period) {
+    case 'week': {
+      const week = isoWeek(date);
+      return isoWeekStart(week.year, week.week);
+    }
+    case 'month': return new Date(date.getFullYear(), date.getMonth(), 1);
+    case 'quarter': return new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1);
+    default: return new Date(date.getFullYear(), 0, 1);
+  }
+}
+
+/**
+ * Path of the note of the period containing `date`; the format may hold folders too.
+ */
+export function periodicNotePath(vaultPath: string, period: NotePeriod, date: Date): string {
+  const settings = getPeriodicNoteSettings(period);
+  return path.join(vaultPath, settings.folder, `${formatDate(periodStart(period, date), settings.format)}.md`);
+}
+
+/**
+ * Content of a new periodic note: its template filled in (see renderTemplate), `{{date}}` being
+ * the first day of the period, else a `# title` line. Undefined when a prompt was cancelled.
+ */
+async function periodicNoteContent(vaultPath: string, period: NotePeriod, date: Date, title: string): Promise<string | undefined> {
+  const settings = getPeriodicNoteSettings(period);
+  if (settings.template) {
+    const templatePath = await resolveTemplatePath(vaultPath, settings.template);
+    if (templatePath) {
+      return renderTemplate(await fs.readFile(templatePath, 'utf8'), { title, date: periodStart(period, date), vaultPath });
+    }
+    vscode.window.showWarningMessage(`Periodic notes: template "${settings.template}" not found, the note was created without it.`);
+  }
+  const addTitle = vscode.workspace.getConfiguration('obsidianManager').get<boolean>('addTitleToNewFiles', true);
+  return addTitle ? `# ${title}\n\n` : '';
+}
+
+/**
+ * The note of the period containing `date`, created (with its folders) when missing; undefined
+ * when a prompt of its template was cancelled.
+ */
+export async function ensurePeriodicNote(vaultPath: string, period: NotePeriod, date: Date): Promise<{ filePath: string; created: boolean } | undefined> {
+  const filePath = periodicNotePath(vaultPath, period, date);
+  try {
+    await fs.access(filePath);
+    return { filePath, created: false };
+  } catch {
+    // Not created yet
+  }
+  const content = await periodicNoteContent(vaultPath, period, date, path.basename(filePath, '.md'));
+  if (content === undefined) return undefined;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, 'utf8');
+  return { filePath, created: true };
+}
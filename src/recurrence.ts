@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { parseTaskMetadata, setDoneDate, toIsoDate } from './taskMetadata';
+import { normalizeToFsPath } from './vaultIndex';
+import { getDailyNoteSettings } from './obsidianConfig';
+import { formatDate } from './dateFormat';
+import { findTaskStatus, isClosedStatus } from './taskStatus';
+
+/**
+ * Recurring tasks (`🔁 every …` or Dataview `[repeat:: every …]`).
+ *
+ * Supported rules:
+ *   every day | every 3 days | every weekday
+ *   every week | every 2 weeks on Monday, Thursday | every Friday
+ *   every month | every month on the 15th | every month on the last
+ *   every year
+ * followed by an optional `when done` (next date counts from the completion date
+ * instead of the task's own dates) and `until YYYY-MM-DD` (no occurrence after that date).
+ */
+export interface RecurrenceRule {
+  interval: number;
+  unit: 'day' | 'week' | 'month' | 'year';
+  weekdays?: number[]; // 0 = Sunday, only for weekly rules
+  monthDay?: number; // 1-31, or -1 for the last day of the month
+  whenDone: boolean;
+  until?: string; // YYYY-MM-DD
+}
+
+export type RecurringTaskPlacement = 'above' | 'dailyNote' | 'off';
+
+export interface NextOccurrence {
+  line: string; // the new task line, unchecked
+  date: string; // reference date of the new occurrence (due, scheduled or start)
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const TASK_LINE_REGEX = /^(\s*[-*+]\s+)\[(.)\](.*)$/;
+
+export function parseRecurrenceRule(text: string): RecurrenceRule | undefined {
+  let rule = text.toLowerCase().replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+  const result: RecurrenceRule = { interval: 1, unit: 'day', whenDone: false };
+
+  const untilMatch = rule.match(/\s*until (\d{4}-\d{2}-\d{2})/);
+  if (untilMatch) {
+    result.until = untilMatch[1];
+    rule = rule.replace(untilMatch[0], '');
+  }
+  if (/\s*when done\b/.test(rule)) {
+    result.whenDone = true;
+    rule = rule.replace(/\s*when done\b/, '');
+  }
+
+  const match = rule.trim().match(/^every (?:(\d+) )?(\w+)(?: on (.+))?$/);
+  if (!match) {
+    return undefined;
+  }
+  result.interval = match[1] ? Math.max(1, parseInt(match[1], 10)) : 1;
+  const unit = match[2].replace(/s$/, '');
+  const on = match[3] ? match[3].replace(/\b(and|the)\b/g, ' ').trim() : '';
+
+  if (unit === 'weekday') {
+    result.unit = 'week';
+    result.weekdays = [1, 2, 3, 4, 5];
+    return result;
+  }
+  if (WEEKDAYS.includes(unit)) {
+    // "every Monday" / "every Monday, Friday"
+    result.unit = 'week';
+    result.weekdays = parseWeekdays(`${unit} ${on}`);
+    return result;
+  }
+  if (unit === 'day' || unit === 'year') {
+    result.unit = unit;
+    return result;
+  }
+  if (unit === 'week') {
+    result.unit = 'week';
+    const weekdays = parseWeekdays(on);
+    if (weekdays.length > 0) result.weekdays = weekdays;
+    return result;
+  }
+  if (unit === 'month') {
+    result.unit = 'month';
+    if (/\blast\b/.test(on)) {
+      result.monthDay = -1;
+    } else {
+      const day = on.match(/(\d{1,2})(?:st|nd|rd|th)?/);
+      if (day) result.monthDay = Math.min(31, Math.max(1, parseInt(day[1], 10)));
+    }
+    return result;
+  }
+  return undefined;
+}
+
+function parseWeekdays(text: string): number[] {
+  const days = text.split(' ')
+    .map(word => WEEKDAYS.indexOf(word.replace(/s$/, '')))
+    .filter(day => day !== -1);
+  return Array.from(new Set(days)).sort();
+}
+
+/**
+ * First date after `from` (YYYY-MM-DD) that matches the rule.
+ */
+export function nextRecurrenceDate(rule: RecurrenceRule, from: string): string {
+  const date = parseIsoDate(from);
+
+  if (rule.unit === 'day') {
+    date.setUTCDate(date.getUTCDate() + rule.interval);
+  } else if (rule.unit === 'week' && rule.weekdays && rule.weekdays.length > 0) {
+    // Next listed weekday, in this week or in the week `interval` weeks later
+    const weekStart = (d: Date) => Math.floor((d.getTime() / 86400000 + 3) / 7); // weeks start on Monday
+    const startWeek = weekStart(date);
+    for (let i = 0; i < 7 * (rule.interval + 1); i++) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      const weekDiff = weekStart(date) - startWeek;
+      if (rule.weekdays.includes(date.getUTCDay()) && weekDiff % rule.interval === 0) {
+        break;
+      }
+    }
+  } else if (rule.unit === 'week') {
+    date.setUTCDate(date.getUTCDate() + 7 * rule.interval);
+  } else if (rule.unit === 'month') {
+    const day = rule.monthDay || date.getUTCDate();
+    const dayInMonth = (year: number, month: number) => {
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      return new Date(Date.UTC(year, month, day === -1 ? lastDay : Math.min(day, lastDay)));
+    };
+    // "on the 15th" before the 15th (or "on the last") still falls in the current month
+    const thisMonth = dayInMonth(date.getUTCFullYear(), date.getUTCMonth());
+    if (rule.monthDay && thisMonth > date) {
+      return formatUtcDate(thisMonth);
+    }
+    return formatUtcDate(dayInMonth(date.getUTCFullYear(), date.getUTCMonth() + rule.interval));
+  } else {
+    const next = new Date(Date.UTC(date.getUTCFullYear() + rule.interval, date.getUTCMonth(), 1));
+    const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+    next.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return formatUtcDate(next);
+  }
+  return formatUtcDate(date);
+}
+
+/**
+ * The unchecked next occurrence of a completed recurring task line, with its dates moved
+ * forward, or undefined when the line has no valid rule or the rule has ended.
+ * @param doneDate completion date, used by `when done` rules and for undated tasks
+ */
+export function nextOccurrence(taskLine: string, doneDate: string): NextOccurrence | undefined {
+  const lineMatch = taskLine.match(TASK_LINE_REGEX);
+  if (!lineMatch) return undefined;
+  const metadata = parseTaskMetadata(lineMatch[3]);
+  const rule = metadata.recurrence ? parseRecurrenceRule(metadata.recurrence) : undefined;
+  if (!rule) return undefined;
+
+  // Like the Tasks plugin: due, then scheduled, then start date drive the recurrence
+  const reference = metadata.due || metadata.scheduled || metadata.start;
+  const next = nextRecurrenceDate(rule, rule.whenDone || !reference ? doneDate : reference);
+  if (rule.until && next > rule.until) {
+    return undefined;
+  }
+
+  // Every date keeps its distance to the reference date
+  const offset = reference ? daysBetween(reference, next) : 0;
+  const shift = (date: string) => {
+    const d = parseIsoDate(date);
+    d.setUTCDate(d.getUTCDate() + offset);
+    return formatUtcDate(d);
+  };
+
+  let body = setDoneDate(lineMatch[3], undefined)
+    .replace(/\s*[[(]completion::[^\])]*[\])]/gi, '')
+    // A block id belongs to the completed task only
+    .replace(/\s+\^[A-Za-z0-9-]+\s*$/, '');
+  if (reference) {
+    body = body
+      .replace(/([📅⏳🛫]\uFE0F?\s*)(\d{4}-\d{2}-\d{2})/gu, (_, prefix, date) => prefix + shift(date))
+      .replace(/([[(](?:due|scheduled|start)::\s*)(\d{4}-\d{2}-\d{2})/gi, (_, prefix, date) => prefix + shift(date));
+  }
+
+  return { line: `${lineMatch[1]}[ ]${body}`, date: next };
+}
+
+export function getRecurringTaskPlacement(): RecurringTaskPlacement {
+  const cfg = vscode.workspace.getConfiguration('obsidianManager');
+  return cfg.get<RecurringTaskPlacement>('recurringTaskPlacement', 'above');
+}
+
+/**
+ * Daily note of the occurrence's date, in the daily notes folder and format (see
+ * getDailyNoteSettings); `<folder of the task>/<YYYY-MM-DD>.md` when no vault is configured.
+ */
+export function occurrenceDailyNote(taskFilePath: string, occurrence: NextOccurrence): string {
+  const vaultPath = normalizeToFsPath((vscode.workspace.getConfiguration('obsidianManager').get<string>('vault') || '').trim());
+  if (!vaultPath) {
+    return path.join(path.dirname(taskFilePath), `${occurrence.date}.md`);
+  }
+  const settings = getDailyNoteSettings(vaultPath);
+  const [y, m, d] = occurrence.date.split('-').map(n => parseInt(n, 10));
+  return path.join(vaultPath, settings.folder, `${formatDate(new Date(y, m - 1, d), settings.format)}.md`);
+}
+
+/**
+ * Append the occurrence to the lines of a note, after its trailing blank lines are dropped.
+ */
+export function appendOccurrence(lines: string[], occurrence: NextOccurrence): void {
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+  lines.push(occurrence.line.replace(/^\s+/, ''), '');
+}
+
+/**
+ * Append the next occurrence to the daily note `filePath` (see occurrenceDailyNote), creating
+ * the note when needed.
+ * @param writeFile writes the note, by default straight to disk
+ */
+export async function addOccurrenceToDailyNote(
+  filePath: string,
+  occurrence: NextOccurrence,
+  writeFile: (filePath: string, content: string) => Promise<void> = (filePath, content) => fs.writeFile(filePath, content, 'utf-8')
+): Promise<void> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    content = `# ${path.basename(filePath, '.md')}\n\n`;
+  }
+  const lines = content.split('\n');
+  appendOccurrence(lines, occurrence);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, lines.join('\n'));
+}
+
+/**
+ * Add to `edit` everything needed to complete the recurring task on `line`: the checked
+ * line with its ✅ date and, depending on `obsidianManager.recurringTaskPlacement`, the next
+ * occurrence above it or in its daily note. Returns false when the line is not a recurring task.
+ * @param doneSymbol checkbox symbol of the completed task
+ */
+export async function addRecurrenceEdits(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, line: number, doneSymbol: string = 'x'): Promise<boolean> {
+  const placement = getRecurringTaskPlacement();
+  if (placement === 'off') return false;
+
+  const lineText = document.lineAt(line).text;
+  const today = toIsoDate(new Date());
+  const completed = setDoneDate(lineText.replace(TASK_LINE_REGEX, `$1[${doneSymbol}]$3`), today);
+  const occurrence = nextOccurrence(completed, today);
+  if (!occurrence) return false;
+
+  edit.replace(document.uri, document.lineAt(line).range, completed);
+  if (placement === 'above') {
+    edit.insert(document.uri, new vscode.Position(line, 0), occurrence.line + '\n');
+    return true;
+  }
+
+  // In the same edit as the task, so a failed edit leaves no occurrence and one undo removes both
+  const dailyNote = vscode.Uri.file(occurrenceDailyNote(document.uri.fsPath, occurrence));
+  const newLine = occurrence.line.replace(/^\s+/, '');
+  let target: vscode.TextDocument | undefined = dailyNote.fsPath === document.uri.fsPath ? document : undefined;
+  if (!target) {
+    try {
+      await fs.access(dailyNote.fsPath);
+      target = await vscode.workspace.openTextDocument(dailyNote);
+    } catch {
+      // Created below
+    }
+  }
+  if (target === document && line === document.lineCount - 1) {
+    // The task is the last line: one edit, as an insert at its end would touch the replaced range
+    edit.replace(document.uri, document.lineAt(line).range, `${completed}\n${newLine}\n`);
+  } else if (target) {
+    const end = target.lineAt(target.lineCount - 1);
+    edit.insert(dailyNote, end.range.end, end.isEmptyOrWhitespace ? `${newLine}\n` : `\n${newLine}\n`);
+  } else {
+    edit.createFile(dailyNote, { ignoreIfExists: true });
+    edit.insert(dailyNote, new vscode.Position(0, 0), `# ${path.basename(dailyNote.fsPath, '.md')}\n\n${newLine}\n`);
+  }
+  return true;
+}
+
+/**
+ * Spawn the next occurrence when a recurring task is checked by typing `x` in an editor.
+ */
+export function registerRecurringTaskWatcher(): vscode.Disposable {
+  // Text of the open markdown documents before their latest change: what the `x` replaced
+  const snapshots = new Map<string, string>();
+  const snapshot = (document: vscode.TextDocument) => {
+    if (document.languageId === 'markdown') snapshots.set(document.uri.toString(), document.getText());
+  };
+  vscode.workspace.textDocuments.forEach(snapshot);
+
+  return vscode.Disposable.from(
+    vscode.workspace.onDidOpenTextDocument(snapshot),
+    vscode.workspace.onDidCloseTextDocument(document => snapshots.delete(document.uri.toString())),
+    vscode.workspace.onDidChangeTextDocument(async e => {
+      const previous = snapshots.get(e.document.uri.toString());
+      snapshot(e.document);
+      if (e.document.languageId !== 'markdown' || e.contentChanges.length !== 1) return;
+      if (e.reason === vscode.TextDocumentChangeReason.Undo || e.reason === vscode.TextDocumentChangeReason.Redo) return;
+
+      // Only a single-character change inside the brackets: our own edits replace whole lines
+      const change = e.contentChanges[0];
+      if (!/^[xX]$/.test(change.text) || !change.range.isSingleLine || change.rangeLength > 1) return;
+      const line = change.range.start.line;
+      const lineMatch = e.document.lineAt(line).text.match(TASK_LINE_REGEX);
+      if (!lineMatch || change.range.start.character !== lineMatch[1].length + 1) return;
+      // Retyping the checkbox of a task already done or cancelled is no completion
+      if (change.rangeLength === 1 && previous !== undefined && isClosedStatus(findTaskStatus(previous.charAt(change.rangeOffset)))) return;
+
+      const edit = new vscode.WorkspaceEdit();
+      try {
+        if (await addRecurrenceEdits(edit, e.document, line)) {
+          await vscode.workspace.applyEdit(edit);
+        }
+      } catch (err) {
+        vscode.window.showErrorMessage(`Error creating next occurrence: ${String(err)}`);
+      }
+    })
+  );
+}
+
+function parseIsoDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(n => parseInt(n, 10));
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function formatUtcDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / 86400000);
+}
@@ -0,0 +1,190 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Undo/redo history of the file edits of the task table. An operation groups every file write
+ * made for one action of the table; each written file is kept as a patch: the lines the
+ * operation replaced, the lines it wrote and the lines around them, so the patch is found again
+ * when lines above it were added or removed since. A patch is only reverted (or re-applied)
+ * while the lines it wrote (or replaced) are still there unchanged.
+ */
+
+export interface FilePatch {
+  filePath: string;
+  created: boolean; // the operation created the file
+  start: number; // first changed line
+  oldLines: string[];
+  newLines: string[];
+  above?: string; // line before the change, undefined at the start of the file
+  below?: string; // line after the change, undefined at the end of the file
+}
+
+export interface JournalEntry {
+  label: string; // e.g. "Delete task"
+  patches: FilePatch[];
+}
+
+export type JournalResult =
+  | { applied: true; entry: JournalEntry; paths: string[] }
+  | { applied: false; entry: JournalEntry; filePath: string };
+
+const HISTORY_LIMIT = 100;
+
+export class TaskEditJournal {
+  private undoStack: JournalEntry[] = [];
+  private redoStack: JournalEntry[] = [];
+  private pending: { label: string; files: Map<string, { before: string | undefined; after: string }> } | undefined;
+  private depth = 0;
+
+  /**
+   * Start an operation; writes recorded until the matching end() are undone together.
+   * Nested operations belong to the outermost one.
+   */
+  public begin(label: string): void {
+    if (this.depth++ === 0) {
+      this.pending = { label, files: new Map() };
+    }
+  }
+
+  /**
+   * @param before content of the file before the write, undefined when it did not exist
+   */
+  public record(filePath: string, before: string | undefined, after: string): void {
+    if (!this.pending) return;
+    const file = this.pending.files.get(filePath);
+    if (file) {
+      file.after = after;
+    } else {
+      this.pending.files.set(filePath, { before, after });
+    }
+  }
+
+  public end(): void {
+    if (this.depth === 0 || --this.depth > 0 || !this.pending) return;
+    const { label, files } = this.pending;
+    this.pending = undefined;
+    const patches: FilePatch[] = [];
+    files.forEach(({ before, after }, filePath) => {
+      if (before !== after) {
+        patches.push(diffPatch(filePath, before, after));
+      }
+    });
+    if (patches.length === 0) return;
+    this.undoStack.push({ label, patches });
+    if (this.undoStack.length > HISTORY_LIMIT) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  public get undoLabel(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.label;
+  }
+
+  public get redoLabel(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.label;
+  }
+
+  /**
+   * Revert the last operation. When one of its files changed where it wrote, nothing is
+   * written and the operation is dropped from the history.
+   */
+  public async undo(): Promise<JournalResult | undefined> {
+    const entry = this.undoStack.pop();
+    if (!entry) return undefined;
+    const result = await applyEntry(entry, 'undo');
+    if (result.applied) {
+      this.redoStack.push(entry);
+    }
+    return result;
+  }
+
+  public async redo(): Promise<JournalResult | undefined> {
+    const entry = this.redoStack.pop();
+    if (!entry) return undefined;
+    const result = await applyEntry(entry, 'redo');
+    if (result.applied) {
+      this.undoStack.push(entry);
+    }
+    return result;
+  }
+}
+
+function diffPatch(filePath: string, before: string | undefined, after: string): FilePatch {
+  const oldLines = (before ?? '').split('\n');
+  const newLines = after.split('\n');
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  return {
+    filePath,
+    created: before === undefined,
+    start: prefix,
+    oldLines: oldLines.slice(prefix, oldLines.length - suffix),
+    newLines: newLines.slice(prefix, newLines.length - suffix),
+    above: prefix > 0 ? newLines[prefix - 1] : undefined,
+    below: suffix > 0 ? newLines[newLines.length - suffix] : undefined
+  };
+}
+
+/**
+ * Line where `expected` is found between the patch's surrounding lines: at its original
+ * position if it is still there, else at its only other position; undefined when it is
+ * nowhere or ambiguous.
+ */
+function locate(lines: string[], patch: FilePatch, expected: string[]): number | undefined {
+  const matchesAt = (i: number) =>
+    (patch.above === undefined ? i === 0 : i > 0 && lines[i - 1] === patch.above) &&
+    expected.every((line, k) => lines[i + k] === line) &&
+    (patch.below === undefined ? i + expected.length === lines.length : lines[i + expected.length] === patch.below);
+  if (patch.start + expected.length <= lines.length && matchesAt(patch.start)) {
+    return patch.start;
+  }
+  const found: number[] = [];
+  for (let i = 0; i + expected.length <= lines.length; i++) {
+    if (matchesAt(i)) found.push(i);
+  }
+  return found.length === 1 ? found[0] : undefined;
+}
+
+async function applyEntry(entry: JournalEntry, direction: 'undo' | 'redo'): Promise<JournalResult> {
+  // Check every file before writing any, so an operation is reverted whole or not at all
+  const writes: { filePath: string; content: string | undefined }[] = [];
+  for (const patch of entry.patches) {
+    let content: string | undefined;
+    try {
+      content = await fs.readFile(patch.filePath, 'utf-8');
+    } catch {
+      content = undefined;
+    }
+    if (content === undefined && !(patch.created && direction === 'redo')) {
+      return { applied: false, entry, filePath: patch.filePath };
+    }
+    const lines = (content ?? '').split('\n');
+    const [expected, replacement] = direction === 'undo' ? [patch.newLines, patch.oldLines] : [patch.oldLines, patch.newLines];
+    const at = locate(lines, patch, expected);
+    if (at === undefined) {
+      return { applied: false, entry, filePath: patch.filePath };
+    }
+    lines.splice(at, expected.length, ...replacement);
+    const result = lines.join('\n');
+    // Undoing the creation of a file removes it again
+    writes.push({ filePath: patch.filePath, content: patch.created && direction === 'undo' && result === '' ? undefined : result });
+  }
+
+  for (const { filePath, content } of writes) {
+    if (content === undefined) {
+      await fs.unlink(filePath);
+    } else {
+      await fs.writeFile(filePath, content, 'utf-8');
+    }
+  }
+  return { applied: true, entry, paths: writes.map(w => w.filePath) };
+}
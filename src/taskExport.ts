@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { VaultIndex, normalizeToFsPath } from './vaultIndex';
+import { Task, loadVaultTasks } from './vaultTasks';
+import { TaskPriority, stripTaskMetadata, addDays } from './taskMetadata';
+import { TaskStatus, getTaskStatuses, findTaskStatus, isClosedStatus } from './taskStatus';
+
+/**
+ * Task exports: CSV for spreadsheets, JSON for scripts and iCalendar (.ics) for calendar apps.
+ * `obsidianManager.icsExportPath` keeps an .ics file of the vault's open dated tasks up to date,
+ * so a calendar app can subscribe to it.
+ */
+
+export type TaskExportFormat = 'csv' | 'json' | 'ics';
+
+// Which iCalendar components a dated task becomes
+export type IcsEntries = 'events' | 'todos' | 'both';
+
+export const TASK_EXPORT_FORMATS: { format: TaskExportFormat; label: string; description: string }[] = [
+  { format: 'csv', label: 'CSV', description: 'for spreadsheets' },
+  { format: 'json', label: 'JSON', description: 'for scripts' },
+  { format: 'ics', label: 'iCalendar', description: 'for calendar apps' }
+];
+
+/**
+ * A task as exported; dates are '' when absent and `line` is 1-based.
+ */
+export interface ExportedTask {
+  status: string; // checkbox symbol
+  statusName: string;
+  statusType: string;
+  text: string;
+  date: string; // date of the daily note
+  due: string;
+  scheduled: string;
+  start: string;
+  done: string;
+  priority: TaskPriority;
+  recurrence: string;
+  spentMinutes: number;
+  project: string;
+  tags: string[];
+  file: string; // path relative to the vault, with forward slashes
+  line: number;
+}
+
+const CSV_COLUMNS: (keyof ExportedTask)[] = [
+  'status', 'statusName', 'statusType', 'text', 'date', 'due', 'scheduled', 'start', 'done',
+  'priority', 'recurrence', 'spentMinutes', 'project', 'tags', 'file', 'line'
+];
+
+// iCalendar PRIORITY: 1 is the highest, 9 the lowest
+const ICS_PRIORITIES: Partial<Record<TaskPriority, number>> = { highest: 1, high: 3, medium: 5, low: 7, lowest: 9 };
+
+export function toExportedTask(task: Task, vaultPath: string, statuses: TaskStatus[] = getTaskStatuses()): ExportedTask {
+  const status = findTaskStatus(task.status, statuses);
+  return {
+    status: task.status,
+    statusName: status?.name || '',
+    statusType: status?.type || '',
+    text: task.task,
+    date: task.date,
+    due: task.due || '',
+    scheduled: task.scheduled || '',
+    start: task.start || '',
+    done: task.doneDate || '',
+    priority: task.priority,
+    recurrence: task.recurrence || '',
+    spentMinutes: task.spentMinutes,
+    project: task.project,
+    tags: task.tags,
+    file: vaultPath ? path.relative(vaultPath, task.filePath).split(path.sep).join('/') : task.filePath,
+    line: task.lineNumber + 1
+  };
+}
+
+export function tasksToCsv(tasks: ExportedTask[]): string {
+  const cell = (value: string | number | string[]) => {
+    const text = Array.isArray(value) ? value.join(' ') : String(value);
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = tasks.map(task => CSV_COLUMNS.map(column => cell(task[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function tasksToJson(tasks: ExportedTask[]): string {
+  return JSON.stringify(tasks, null, 2) + '\n';
+}
+
+/**
+ * An all-day VEVENT from the 🛫 start or ⏳ scheduled date to the 📅 due date of every dated
+ * task, and/or a VTODO with its dates, status and priority. The date of the daily note is only
+ * used for tasks without any of these; tasks without any date are left out.
+ */
+export function tasksToIcs(tasks: ExportedTask[], entries: IcsEntries, now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const icsDate = (date: string) => date.replace(/-/g, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Obsidian Manager//Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Obsidian tasks'
+  ];
+  const uids = new Map<string, number>();
+
+  for (const task of tasks) {
+    const start = task.start || task.scheduled || task.due || task.date;
+    if (!start) continue;
+    const end = task.due && task.due > start ? task.due : start;
+    const common = [
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${escapeIcsText(stripTaskMetadata(task.text) || task.text)}`,
+      `DESCRIPTION:${escapeIcsText(`${task.statusName || task.status} · ${task.file}:${task.line}`)}`,
+      ...(task.tags.length > 0 || task.project ? [`CATEGORIES:${[task.project, ...task.tags].filter(c => c).map(escapeIcsText).join(',')}`] : []),
+      ...(ICS_PRIORITIES[task.priority] ? [`PRIORITY:${ICS_PRIORITIES[task.priority]}`] : [])
+    ];
+    // Tasks with the same text in one note (e.g. done occurrences of a recurring task) are numbered
+    const key = icsUid(task);
+    const count = (uids.get(key) || 0) + 1;
+    uids.set(key, count);
+    const uid = count > 1 ? `${key}-${count}` : key;
+
+    if (entries !== 'todos') {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:event-${uid}@obsidian-manager`,
+        `DTSTART;VALUE=DATE:${icsDate(start)}`,
+        `DTEND;VALUE=DATE:${icsDate(addDays(end, 1))}`,
+        'TRANSP:TRANSPARENT',
+        `STATUS:${task.statusType === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+        ...common,
+        'END:VEVENT'
+      );
+    }
+    if (entries !== 'events') {
+      const todoStart = task.due ? task.start || task.scheduled : start;
+      const status = task.statusType === 'done' ? 'COMPLETED'
+        : task.statusType === 'cancelled' ? 'CANCELLED'
+        : task.statusType === 'inProgress' ? 'IN-PROCESS'
+        : 'NEEDS-ACTION';
+      lines.push(
+        'BEGIN:VTODO',
+        `UID:todo-${uid}@obsidian-manager`,
+        // DUE may not come before DTSTART
+        ...(todoStart ? [`DTSTART;VALUE=DATE:${icsDate(task.due && todoStart > task.due ? task.due : todoStart)}`] : []),
+        ...(task.due ? [`DUE;VALUE=DATE:${icsDate(task.due)}`] : []),
+        `STATUS:${status}`,
+        ...(task.done ? [`COMPLETED:${icsDate(task.done)}T000000Z`] : []),
+        ...common,
+        'END:VTODO'
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * UID of a task kept when lines are added above it or its dates change: a hash of its file and
+ * ^block-id, else of its file and text without the dates.
+ */
+function icsUid(task: ExportedTask): string {
+  const blockId = task.text.match(/\s\^([A-Za-z0-9-]+)\s*$/)?.[1];
+  const text = blockId ? `^${blockId}` : task.text
+    .replace(/(📅|⏳|🛫|➕|✅)\uFE0F?\s*\d{4}-\d{2}-\d{2}/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return crypto.createHash('sha1').update(`${task.file}\n${text}`).digest('hex').slice(0, 16);
+}
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are folded at 75 octets, continuation lines start with a space
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function formatTasks(tasks: Task[], format: TaskExportFormat, vaultPath: string): string {
+  const statuses = getTaskStatuses();
+  const exported = tasks.map(task => toExportedTask(task, vaultPath, statuses));
+  switch (format) {
+    case 'csv': return tasksToCsv(exported);
+    case 'json': return tasksToJson(exported);
+    default: return tasksToIcs(exported, icsEntries());
+  }
+}
+
+function icsEntries(): IcsEntries {
+  const entries = vscode.workspace.getConfiguration('obsidianManager').get<string>('icsExportEntries', 'events');
+  return entries === 'todos' || entries === 'both' ? entries : 'events';
+}
+
+/**
+ * Target of the automatic .ics export: `obsidianManager.icsExportPath`, absolute or relative
+ * to the vault; undefined when not configured.
+ */
+function icsExportPath(vaultPath: string | undefined): string | undefined {
+  const configured = (vscode.workspace.getConfiguration('obsidianManager').get<string>('icsExportPath') || '').trim();
+  const target = normalizeToFsPath(configured);
+  if (!target) return undefined;
+  if (path.isAbsolute(target)) return target;
+  return vaultPath ? path.join(vaultPath, target) : undefined;
+}
+
+async function writeIcsExport(vaultIndex: VaultIndex): Promise<void> {
+  const target = icsExportPath(vaultIndex.vaultPath);
+  if (!target) return;
+  await vaultIndex.ready();
+  const statuses = getTaskStatuses();
+  const tasks = loadVaultTasks(vaultIndex).filter(t => !isClosedStatus(findTaskStatus(t.status, statuses)));
+  const content = formatTasks(tasks, 'ics', vaultIndex.vaultPath || '');
+
+  // Only DTSTAMP changed: keep the file, so subscribers don't refetch it and a file inside
+  // the vault doesn't trigger another export
+  const withoutStamps = (ics: string) => ics.replace(/^DTSTAMP:.*$/gm, '');
+  try {
+    if (withoutStamps(await fs.readFile(target, 'utf8')) === withoutStamps(content)) return;
+  } catch {
+    // Not exported yet
+  }
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, content, 'utf8');
+}
+
+/**
+ * Regenerate the .ics file of `obsidianManager.icsExportPath` whenever the vault's tasks change.
+ */
+export function registerIcsExport(vaultIndex: VaultIndex): vscode.Disposable {
+  let exportTimeout: NodeJS.Timeout | undefined;
+  const schedule = () => {
+    if (exportTimeout) clearTimeout(exportTimeout);
+    exportTimeout = setTimeout(() => {
+      exportTimeout = undefined;
+      writeIcsExport(vaultIndex).catch(err => console.error('Task export: error writing the iCalendar file:', err));
+    }, 2000);
+  };
+  const listeners = [
+    vaultIndex.onDidChange(schedule),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (
+        e.affectsConfiguration('obsidianManager.icsExportPath') ||
+        e.affectsConfiguration('obsidianManager.icsExportEntries') ||
+        e.affectsConfiguration('obsidianManager.taskStatuses')
+      ) {
+        schedule();
+      }
+    })
+  ];
+  schedule();
+  return {
+    dispose: () => {
+      if (exportTimeout) clearTimeout(exportTimeout);
+      listeners.forEach(l => l.dispose());
+    }
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Query syntax of the task table filter bar, e.g.
+ *   status:open tag:#client project:Acme due<2026-11-01 file:~standup -tag:#someday
+ *
+ * Terms are separated by spaces; `-` negates a term and values with spaces go in double quotes.
+ *   key:value   equals (tags also match their nested tags, `#work` matches `#work/client`)
+ *   key:~value  contains
+ *   key<value key>value key<=value key>=value   dates and priorities
+ * Keys: status (open, closed, a status name, type or symbol), tag, project, file, path, text,
+ * due, scheduled, start, done, date (YYYY-MM-DD, today, tomorrow, yesterday, +3d, -2w, +1m, none, any,
+ * or a period: 2026-W42, 2026-10, 2026-Q4, 2026) and priority (highest … lowest;
+ * `priority>=medium` is medium or more important).
+ * A bare word searches the task text, a bare `#tag` is `tag:#tag`.
+ *
+ * parseTaskFilterQuery, matchesTaskFilter, datePeriodRange and datePeriodKey are also embedded
+ * in the task table webview through toString(), so they must not use anything outside their
+ * own body and each other.
+ */
+
+export type TaskFilterOperator = ':' | '~' | '<' | '>' | '<=' | '>=';
+
+export interface TaskFilterTerm {
+  key: string; // 'text' for bare words
+  operator: TaskFilterOperator; // '~' is "contains"
+  value: string; // relative dates resolved to YYYY-MM-DD
+  negate: boolean;
+}
+
+export interface TaskFilterError {
+  start: number; // offsets of the faulty term in the query
+  end: number;
+  message: string;
+}
+
+export type DatePeriod = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export interface ParsedTaskFilter {
+  terms: TaskFilterTerm[];
+  errors: TaskFilterError[];
+}
+
+/**
+ * Values of one task, as compared by matchesTaskFilter. Dates are '' when absent.
+ */
+export interface TaskFilterFields {
+  status: string; // checkbox symbol
+  statusName: string;
+  statusType: string;
+  tags: string[];
+  project: string;
+  file: string; // file name
+  path: string;
+  text: string;
+  due: string;
+  scheduled: string;
+  start: string;
+  done: string;
+  date: string;
+  priority: string;
+}
+
+/**
+ * First and last day of a period written as YYYY-MM-DD, YYYY-Www (ISO week), YYYY-MM, YYYY-Qn
+ * or YYYY; undefined for anything else.
+ */
+export function datePeriodRange(value: string): [string, string] | undefined {
+  const iso = (d: Date) => d.getFullYear() + '-' + String(d.getMonth() + 1).padStart(2, '0') + '-' + String(d.getDate()).padStart(2, '0');
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return [value, value];
+  match = value.match(/^(\d{4})-w(\d{1,2})$/i);
+  if (match) {
+    // Week 1 holds January 4th
+    const jan4 = new Date(parseInt(match[1], 10), 0, 4);
+    const monday = new Date(jan4.getFullYear(), 0, 4 - (jan4.getDay() + 6) % 7 + (parseInt(match[2], 10) - 1) * 7);
+    return [iso(monday), iso(new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 6))];
+  }
+  match = value.match(/^(\d{4})-(\d{2})$/);
+  if (match) {
+    const month = parseInt(match[2], 10);
+    if (month < 1 || month > 12) return undefined;
+    return [iso(new Date(parseInt(match[1], 10), month - 1, 1)), iso(new Date(parseInt(match[1], 10), month, 0))];
+  }
+  match = value.match(/^(\d{4})-q([1-4])$/i);
+  if (match) {
+    const quarter = parseInt(match[2], 10);
+    return [iso(new Date(parseInt(match[1], 10), quarter * 3 - 3, 1)), iso(new Date(parseInt(match[1], 10), quarter * 3, 0))];
+  }
+  match = value.match(/^(\d{4})$/);
+  if (match) return [`${match[1]}-01-01`, `${match[1]}-12-31`];
+  return undefined;
+}
+
+/**
+ * The period of a YYYY-MM-DD date as written for datePeriodRange, e.g. 2026-W42 for its week.
+ */
+export function datePeriodKey(date: string, period: DatePeriod): string {
+  const [y, m, d] = date.split('-').map(n => parseInt(n, 10));
+  switch (period) {
+    case 'week': {
+      // The Thursday of the week decides its year
+      const thursday = new Date(y, m - 1, d + 3 - (new Date(y, m - 1, d).getDay() + 6) % 7);
+      const jan4 = new Date(thursday.getFullYear(), 0, 4);
+      const firstMonday = new Date(jan4.getFullYear(), 0, 4 - (jan4.getDay() + 6) % 7);
+      const week = 1 + Math.round((thursday.getTime() - firstMonday.getTime()) / 86400000 / 7 - 3 / 7);
+      return thursday.getFullYear() + '-W' + String(week).padStart(2, '0');
+    }
+    case 'month': return date.slice(0, 7);
+    case 'quarter': return y + '-Q' + (Math.floor((m - 1) / 3) + 1);
+    case 'year': return String(y);
+    default: return date;
+  }
+}
+
+// Keys offered by autocompletion, in the order they are suggested
+export const TASK_FILTER_KEYS = ['status', 'tag', 'project', 'file', 'path', 'text', 'due', 'scheduled', 'start', 'done', 'date', 'priority'];
+
+/**
+ * @param today YYYY-MM-DD that relative dates count from
+ */
+export function parseTaskFilterQuery(query: string, today: string): ParsedTaskFilter {
+  const kinds: Record<string, string> = {
+    status: 'status', tag: 'tag', project: 'text', file: 'text', path: 'text', text: 'text',
+    due: 'date', scheduled: 'date', start: 'date', done: 'date', date: 'date', priority: 'priority'
+  };
+  const priorities = ['highest', 'high', 'medium', 'none', 'low', 'lowest'];
+  const result: ParsedTaskFilter = { terms: [], errors: [] };
+
+  const resolveDate = (value: string): string | undefined => {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+    const offsets: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 };
+    const relative = value.match(/^([+-]\d+)([dwm])$/);
+    if (offsets[value] === undefined && !relative) return undefined;
+    const [y, m, d] = today.split('-').map(n => parseInt(n, 10));
+    const amount = relative ? parseInt(relative[1], 10) : offsets[value];
+    const date = relative && relative[2] === 'm'
+      ? new Date(y, m - 1 + amount, d)
+      : new Date(y, m - 1, d + amount * (relative && relative[2] === 'w' ? 7 : 1));
+    return date.getFullYear() + '-' + String(date.getMonth() + 1).padStart(2, '0') + '-' + String(date.getDate()).padStart(2, '0');
+  };
+
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    // A term runs to the next space outside double quotes
+    const start = i;
+    let quoted = false;
+    while (i < query.length && (quoted || !/\s/.test(query[i]))) {
+      if (query[i] === '"') quoted = !quoted;
+      i++;
+    }
+    const raw = query.slice(start, i);
+    const error = (message: string) => result.errors.push({ start, end: i, message });
+    if (quoted) {
+      error('Missing closing quote');
+      continue;
+    }
+
+    const negate = raw.length > 1 && raw.startsWith('-');
+    const body = negate ? raw.slice(1) : raw;
+    const match = body.match(/^([a-zA-Z]+)(:~|<=|>=|:|=|<|>)(.*)$/);
+    if (!match) {
+      const value = body.replace(/"/g, '');
+      if (value.startsWith('#')) {
+        result.terms.push({ key: 'tag', operator: ':', value: value.toLowerCase(), negate });
+      } else {
+        result.terms.push({ key: 'text', operator: '~', value: value.toLowerCase(), negate });
+      }
+      continue;
+    }
+
+    const key = match[1].toLowerCase();
+    const operator = (match[2] === ':~' ? '~' : match[2] === '=' ? ':' : match[2]) as TaskFilterOperator;
+    let value = match[3].replace(/^"(.*)"$/, '$1').toLowerCase();
+    const kind = kinds[key];
+    if (!kind) {
+      error(`Unknown field "${match[1]}"`);
+      continue;
+    }
+    if (value === '') {
+      error(`Missing value for ${key}`);
+      continue;
+    }
+    const ordered = operator !== ':' && operator !== '~';
+    if (ordered && kind !== 'date' && kind !== 'priority') {
+      error(`${key} does not support ${operator}`);
+      continue;
+    }
+    if (operator === '~' && (kind === 'date' || kind === 'priority' || kind === 'status')) {
+      error(`${key} does not support :~`);
+      continue;
+    }
+    if (kind === 'date' && !(operator === ':' && (value === 'none' || value === 'any'))) {
+      const date = resolveDate(value);
+      const range = date ? undefined : datePeriodRange(value);
+      if (!date && !range) {
+        error(`Invalid date "${value}"`);
+        continue;
+      }
+      // A period matches from its first to its last day: date:2026-w42 is first..last,
+      // due<2026-q4 is before its first day and due>2026-q4 after its last one
+      value = date || (operator === ':' ? `${range![0]}..${range![1]}` : operator === '<' || operator === '>=' ? range![0] : range![1]);
+    }
+    if (kind === 'priority' && !priorities.includes(value)) {
+      error(`Unknown priority "${value}"`);
+      continue;
+    }
+    if (kind === 'tag' && !value.startsWith('#')) {
+      value = '#' + value;
+    }
+    result.terms.push({ key, operator, value, negate });
+  }
+  return result;
+}
+
+export function matchesTaskFilter(filter: ParsedTaskFilter, fields: TaskFilterFields): boolean {
+  const priorities = ['highest', 'high', 'medium', 'none', 'low', 'lowest'];
+  const field = (key: string) => ((fields as unknown as Record<string, string>)[key] || '').toLowerCase();
+  const compare = (a: string | number, b: string | number, operator: TaskFilterOperator) => {
+    switch (operator) {
+      case '<': return a < b;
+      case '>': return a > b;
+      case '<=': return a <= b;
+      case '>=': return a >= b;
+      default: return a === b;
+    }
+  };
+
+  return filter.terms.every(term => {
+    const value = term.value;
+    let matches: boolean;
+    switch (term.key) {
+      case 'status': {
+        const closed = fields.statusType === 'done' || fields.statusType === 'cancelled';
+        matches = value === 'open' ? !closed
+          : value === 'closed' ? closed
+          : fields.status === value || fields.statusName.toLowerCase() === value
+            || fields.statusType.toLowerCase() === value.replace(/ /g, '');
+        break;
+      }
+      case 'tag':
+        matches = fields.tags.some(tag => {
+          const lower = tag.toLowerCase();
+          return term.operator === '~' ? lower.includes(value.slice(1)) : lower === value || lower.startsWith(value + '/');
+        });
+        break;
+      case 'due':
+      case 'scheduled':
+      case 'start':
+      case 'done':
+      case 'date': {
+        const date = field(term.key);
+        const range = value.split('..');
+        matches = value === 'none' ? !date : value === 'any' ? !!date
+          : range.length === 2 ? !!date && date >= range[0] && date <= range[1]
+          : !!date && compare(date, value, term.operator);
+        break;
+      }
+      case 'priority':
+        // A more important priority has a lower index: priority>medium means high or highest
+        matches = compare(priorities.indexOf(value), priorities.indexOf(fields.priority || 'none'), term.operator);
+        break;
+      default: {
+        const text = field(term.key);
+        if (term.operator === '~' || term.key === 'text' || term.key === 'path') {
+          matches = text.includes(value);
+        } else {
+          matches = text === value || (term.key === 'file' && text === value + '.md');
+        }
+      }
+    }
+    return matches !== term.negate;
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * Obsidian Tasks plugin inline fields:
+ *   📅 due   ⏳ scheduled   🛫 start   ➕ created   ✅ done
+ *   🔺 highest   ⏫ high   🔼 medium   🔽 low   ⏬ lowest
+ *   🔁 every week (recurrence rule, up to the next field)
+ * Dataview inline fields ([due:: 2026-10-20], [repeat:: every week], ...) are read as a fallback.
+ */
+
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'none' | 'low' | 'lowest';
+
+export interface TaskMetadata {
+  due?: string; // YYYY-MM-DD
+  scheduled?: string;
+  start?: string;
+  created?: string;
+  done?: string;
+  priority: TaskPriority;
+  recurrence?: string; // rule text after 🔁, e.g. "every week on Monday"
+}
+
+const DATE_FIELDS: { emoji: string; key: 'due' | 'scheduled' | 'start' | 'created' | 'done' }[] = [
+  { emoji: '📅', key: 'due' },
+  { emoji: '⏳', key: 'scheduled' },
+  { emoji: '🛫', key: 'start' },
+  { emoji: '➕', key: 'created' },
+  { emoji: '✅', key: 'done' }
+];
+
+const PRIORITY_EMOJIS: { emoji: string; priority: TaskPriority }[] = [
+  { emoji: '🔺', priority: 'highest' },
+  { emoji: '⏫', priority: 'high' },
+  { emoji: '🔼', priority: 'medium' },
+  { emoji: '🔽', priority: 'low' },
+  { emoji: '⏬', priority: 'lowest' }
+];
+
+// Order used by the Tasks plugin when sorting by priority
+export const PRIORITY_ORDER: TaskPriority[] = ['highest', 'high', 'medium', 'none', 'low', 'lowest'];
+
+// Emojis that start a field; a recurrence rule runs until the next one of these
+const FIELD_EMOJIS = ['📅', '⏳', '🛫', '➕', '✅', '🔁', '🔺', '⏫', '🔼', '🔽', '⏬'];
+
+// Dataview field names for the same values
+const DATAVIEW_DATE_FIELDS: { field: string; key: 'due' | 'scheduled' | 'start' | 'created' | 'done' }[] = [
+  { field: 'due', key: 'due' },
+  { field: 'scheduled', key: 'scheduled' },
+  { field: 'start', key: 'start' },
+  { field: 'created', key: 'created' },
+  { field: 'completion', key: 'done' }
+];
+
+const DONE_DATE_REGEX = /\s*✅\s*\d{4}-\d{2}-\d{2}/g;
+
+export function parseTaskMetadata(text: string): TaskMetadata {
+  const metadata: TaskMetadata = { priority: 'none' };
+
+  for (const { emoji, key } of DATE_FIELDS) {
+    const match = text.match(new RegExp(`${emoji}\\uFE0F?\\s*(\\d{4}-\\d{2}-\\d{2})`, 'u'));
+    if (match) {
+      metadata[key] = match[1];
+    }
+  }
+  for (const { field, key } of DATAVIEW_DATE_FIELDS) {
+    const value = dataviewField(text, field);
+    if (!metadata[key] && value && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      metadata[key] = value;
+    }
+  }
+
+  const priority = PRIORITY_EMOJIS.find(p => text.includes(p.emoji));
+  if (priority) {
+    metadata.priority = priority.priority;
+  }
+
+  const recurrenceIndex = text.indexOf('🔁');
+  if (recurrenceIndex !== -1) {
+    let rule = text.slice(recurrenceIndex + '🔁'.length);
+    for (const emoji of FIELD_EMOJIS) {
+      const end = rule.indexOf(emoji);
+      if (end !== -1) rule = rule.slice(0, end);
+    }
+    // Block ids and tags are not part of the rule
+    rule = rule.replace(/\s\^[A-Za-z0-9-]+\s*$/, '').replace(/\s#\S+/g, '').trim();
+    if (rule) {
+      metadata.recurrence = rule;
+    }
+  }
+  if (!metadata.recurrence) {
+    metadata.recurrence = dataviewField(text, 'repeat');
+  }
+
+  return metadata;
+}
+
+/**
+ * Value of a Dataview inline field `[name:: value]` or `(name:: value)`.
+ */
+export function dataviewField(text: string, name: string): string | undefined {
+  const match = text.match(new RegExp(`[\\[(]${name}::\\s*([^\\])]*?)\\s*[\\])]`, 'i'));
+  return match && match[1] ? match[1] : undefined;
+}
+
+export function priorityEmoji(priority: TaskPriority): string {
+  return PRIORITY_EMOJIS.find(p => p.priority === priority)?.emoji || '';
+}
+
+/**
+ * Task text without its emoji fields, Dataview inline fields and block id, e.g. for the title
+ * of a calendar entry. Tags stay.
+ */
+export function stripTaskMetadata(text: string): string {
+  return text
+    .replace(/🔁[^#^📅⏳🛫➕✅🔺⏫🔼🔽⏬]*/u, ' ')
+    .replace(/(📅|⏳|🛫|➕|✅)\uFE0F?\s*\d{4}-\d{2}-\d{2}/gu, ' ')
+    .replace(/[🔺⏫🔼🔽⏬]\uFE0F?/gu, ' ')
+    .replace(/[\[(][A-Za-z-]+::[^\])]*[\])]/g, ' ')
+    .replace(/\s\^[A-Za-z0-9-]+\s*$/, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Set (or with `date` undefined, remove) the ✅ done date of a task line.
+ * The field goes at the end of the line, before a trailing ^block-id.
+ */
+export function setDoneDate(line: string, date: string | undefined): string {
+  const cleaned = line.replace(DONE_DATE_REGEX, '');
+  if (!date) {
+    return cleaned;
+  }
+  const blockMatch = cleaned.match(/(\s\^[A-Za-z0-9-]+\s*)$/);
+  if (blockMatch) {
+    const body = cleaned.slice(0, cleaned.length - blockMatch[1].length).replace(/\s+$/, '');
+    return `${body} ✅ ${date}${blockMatch[1]}`;
+  }
+  return `${cleaned.replace(/\s+$/, '')} ✅ ${date}`;
+}
+
+/**
+ * Set a 📅 due, ⏳ scheduled or 🛫 start date of a task line. An existing emoji or Dataview field
+ * is updated in place; a new field goes at the end of the line, before the ✅ done date and a
+ * trailing ^block-id.
+ */
+export function setDateField(line: string, key: 'due' | 'scheduled' | 'start', date: string): string {
+  const emoji = DATE_FIELDS.find(f => f.key === key)!.emoji;
+  const emojiRegex = new RegExp(`(${emoji}\\uFE0F?\\s*)\\d{4}-\\d{2}-\\d{2}`, 'u');
+  if (emojiRegex.test(line)) {
+    return line.replace(emojiRegex, `$1${date}`);
+  }
+  const dataviewRegex = new RegExp(`([\\[(]${key}::\\s*)\\d{4}-\\d{2}-\\d{2}`, 'i');
+  if (dataviewRegex.test(line)) {
+    return line.replace(dataviewRegex, `$1${date}`);
+  }
+  const tail = line.match(/(\s*✅\uFE0F?\s*\d{4}-\d{2}-\d{2})?(\s\^[A-Za-z0-9-]+)?\s*$/u)!;
+  const body = line.slice(0, tail.index).replace(/\s+$/, '');
+  return `${body} ${emoji} ${date}${tail[0].replace(/\s+$/, '')}`;
+}
+
+/**
+ * The date `days` days after (before when negative) a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(n => parseInt(n, 10));
+  return toIsoDate(new Date(y, m - 1, d + days));
+}
+
+/**
+ * Local date as YYYY-MM-DD.
+ */
+export function toIsoDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
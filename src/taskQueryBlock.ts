@@ -0,0 +1,324 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type MarkdownIt from 'markdown-it';
+import { VaultIndex } from './vaultIndex';
+import { Task, loadVaultTasks } from './vaultTasks';
+import { PRIORITY_ORDER, TaskPriority, priorityEmoji, toIsoDate } from './taskMetadata';
+import { getTaskStatuses, findTaskStatus, isClosedStatus } from './taskStatus';
+
+/**
+ * Fenced ```tasks / ```om-query blocks, rendered in the Markdown preview as a live list of vault tasks.
+ *
+ * One instruction per line (or several separated by commas):
+ *   done | not done | status is in progress
+ *   due before next week | scheduled on today | done after 2026-10-01 | date before yesterday
+ *   has due date | no scheduled date
+ *   tag #work | tag does not include #someday
+ *   project is Acme | path includes standup | description includes invoice
+ *   priority is high | priority above none
+ *   group by project | file | date | due | scheduled | priority | status | tag
+ *   sort by due | scheduled | start | done | date | priority | status | description | file [reverse]
+ *   limit 20
+ * Dates: YYYY-MM-DD, today, tomorrow, yesterday, next/last week, next/last month, in 3 days, 2 weeks ago.
+ * Lines starting with `#` are comments.
+ */
+export const TASK_QUERY_LANGUAGES = ['tasks', 'om-query'];
+
+export type TaskQueryGroup = 'project' | 'file' | 'date' | 'due' | 'scheduled' | 'priority' | 'status' | 'tag';
+type TaskQuerySortField = 'due' | 'scheduled' | 'start' | 'done' | 'date' | 'priority' | 'status' | 'description' | 'file';
+
+export interface TaskQuery {
+  filters: ((task: Task) => boolean)[];
+  groupBy?: TaskQueryGroup;
+  sortBy: { field: TaskQuerySortField; reverse: boolean }[];
+  limit?: number;
+  errors: string[]; // instructions that could not be parsed
+}
+
+export interface TaskQueryGroupResult {
+  key: string; // '' when the query is not grouped
+  tasks: Task[];
+}
+
+const DATE_FIELDS: Record<string, (task: Task) => string | undefined> = {
+  due: task => task.due,
+  scheduled: task => task.scheduled,
+  start: task => task.start,
+  done: task => task.doneDate,
+  date: task => task.date || undefined
+};
+
+const GROUPS: TaskQueryGroup[] = ['project', 'file', 'date', 'due', 'scheduled', 'priority', 'status', 'tag'];
+const SORT_FIELDS: TaskQuerySortField[] = ['due', 'scheduled', 'start', 'done', 'date', 'priority', 'status', 'description', 'file'];
+
+export function parseTaskQuery(source: string, today: Date = new Date()): TaskQuery {
+  const query: TaskQuery = { filters: [], sortBy: [], errors: [] };
+  const statuses = getTaskStatuses();
+  const isClosed = (task: Task) => isClosedStatus(findTaskStatus(task.status, statuses));
+
+  const instructions = source.split('\n')
+    .filter(line => !line.trim().startsWith('#'))
+    .reduce<string[]>((all, line) => all.concat(line.split(',')), [])
+    .map(instruction => instruction.trim().replace(/\s+/g, ' '))
+    .filter(instruction => instruction !== '');
+
+  for (const instruction of instructions) {
+    const lower = instruction.toLowerCase();
+    let match: RegExpMatchArray | null;
+
+    if (lower === 'done') {
+      query.filters.push(task => isClosed(task));
+    } else if (lower === 'not done') {
+      query.filters.push(task => !isClosed(task));
+    } else if ((match = lower.match(/^status is (not )?(.+)$/))) {
+      const negate = !!match[1];
+      const wanted = match[2];
+      const status = statuses.find(s => s.name.toLowerCase() === wanted || s.symbol === wanted || s.type.toLowerCase() === wanted.replace(/ /g, ''));
+      if (!status) {
+        query.errors.push(`Unknown status: ${instruction}`);
+        continue;
+      }
+      query.filters.push(task => (findTaskStatus(task.status, statuses) === status) !== negate);
+    } else if ((match = lower.match(/^(has|no) (due|scheduled|start|done) date$/))) {
+      const getter = DATE_FIELDS[match[2]];
+      const wanted = match[1] === 'has';
+      query.filters.push(task => !!getter(task) === wanted);
+    } else if ((match = lower.match(/^(due|scheduled|start|done|date) (?:(before|after|on or before|on or after|on) )?(.+)$/))) {
+      const getter = DATE_FIELDS[match[1]];
+      const comparison = match[2] || 'on';
+      const date = resolveQueryDate(match[3], today);
+      if (!date) {
+        query.errors.push(`Invalid date: ${instruction}`);
+        continue;
+      }
+      query.filters.push(task => {
+        const value = getter(task);
+        if (!value) return false;
+        switch (comparison) {
+          case 'before': return value < date;
+          case 'after': return value > date;
+          case 'on or before': return value <= date;
+          case 'on or after': return value >= date;
+          default: return value === date;
+        }
+      });
+    } else if ((match = instruction.match(/^tags? (includes? |does not include )?(#?\S+)$/i))) {
+      const negate = !!match[1] && match[1].toLowerCase().startsWith('does not');
+      const tag = (match[2].startsWith('#') ? match[2] : `#${match[2]}`).toLowerCase();
+      // A tag also matches its nested tags: #work matches #work/client
+      query.filters.push(task => task.tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`)) !== negate);
+    } else if ((match = instruction.match(/^project (is not |is )?(.+)$/i))) {
+      const negate = !!match[1] && /not/i.test(match[1]);
+      const project = match[2].toLowerCase();
+      query.filters.push(task => (task.project.toLowerCase() === project) !== negate);
+    } else if ((match = instruction.match(/^(path|file|description) (includes|does not include) (.+)$/i))) {
+      const field = match[1].toLowerCase();
+      const negate = match[2].toLowerCase() !== 'includes';
+      const text = match[3].toLowerCase();
+      query.filters.push(task => {
+        const value = field === 'description' ? task.task : field === 'file' ? path.basename(task.filePath) : task.filePath;
+        return value.toLowerCase().includes(text) !== negate;
+      });
+    } else if ((match = lower.match(/^priority (is not |is |above |below )?(highest|high|medium|none|low|lowest)$/))) {
+      const comparison = (match[1] || 'is ').trim();
+      const rank = PRIORITY_ORDER.indexOf(match[2] as TaskPriority);
+      query.filters.push(task => {
+        switch (comparison) {
+          case 'above': return task.priorityRank < rank;
+          case 'below': return task.priorityRank > rank;
+          case 'is not': return task.priorityRank !== rank;
+          default: return task.priorityRank === rank;
+        }
+      });
+    } else if ((match = lower.match(/^group by (\w+)$/))) {
+      if (!GROUPS.includes(match[1] as TaskQueryGroup)) {
+        query.errors.push(`Unknown grouping: ${instruction}`);
+        continue;
+      }
+      query.groupBy = match[1] as TaskQueryGroup;
+    } else if ((match = lower.match(/^sort by (\w+)( reverse)?$/))) {
+      if (!SORT_FIELDS.includes(match[1] as TaskQuerySortField)) {
+        query.errors.push(`Unknown sort field: ${instruction}`);
+        continue;
+      }
+      query.sortBy.push({ field: match[1] as TaskQuerySortField, reverse: !!match[2] });
+    } else if ((match = lower.match(/^limit (?:to )?(\d+)(?: tasks?)?$/))) {
+      query.limit = parseInt(match[1], 10);
+    } else {
+      query.errors.push(`Unknown instruction: ${instruction}`);
+    }
+  }
+  return query;
+}
+
+/**
+ * YYYY-MM-DD for an absolute or relative date, undefined when the text is not a date.
+ */
+export function resolveQueryDate(text: string, today: Date = new Date()): string | undefined {
+  const value = text.trim().toLowerCase();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return value;
+  }
+  const shifted = (days: number, months: number = 0) => {
+    const date = new Date(today.getFullYear(), today.getMonth() + months, today.getDate() + days);
+    return toIsoDate(date);
+  };
+  const named: Record<string, () => string> = {
+    'today': () => shifted(0),
+    'tomorrow': () => shifted(1),
+    'yesterday': () => shifted(-1),
+    'next week': () => shifted(7),
+    'last week': () => shifted(-7),
+    'next month': () => shifted(0, 1),
+    'last month': () => shifted(0, -1)
+  };
+  if (named[value]) {
+    return named[value]();
+  }
+  const relative = value.match(/^(?:in (\d+) (day|week|month)s?|(\d+) (day|week|month)s? ago)$/);
+  if (relative) {
+    const amount = parseInt(relative[1] || relative[3], 10) * (relative[1] ? 1 : -1);
+    const unit = relative[2] || relative[4];
+    return unit === 'month' ? shifted(0, amount) : shifted(unit === 'week' ? amount * 7 : amount);
+  }
+  return undefined;
+}
+
+/**
+ * Filter, sort, limit and group tasks. Without `sort by`, tasks keep the vault order (file, then line).
+ */
+export function runTaskQuery(query: TaskQuery, tasks: Task[]): TaskQueryGroupResult[] {
+  const statuses = getTaskStatuses();
+  const sortValue = (task: Task, field: TaskQuerySortField): string | number => {
+    switch (field) {
+      case 'priority': return task.priorityRank;
+      case 'status': return statuses.indexOf(findTaskStatus(task.status, statuses)!);
+      case 'description': return task.task.toLowerCase();
+      case 'file': return task.filePath;
+      // Undated tasks come last
+      default: return DATE_FIELDS[field](task) || '9999-99-99';
+    }
+  };
+
+  let results = tasks.filter(task => query.filters.every(filter => filter(task)));
+  results.sort((a, b) => {
+    for (const { field, reverse } of query.sortBy) {
+      const aValue = sortValue(a, field);
+      const bValue = sortValue(b, field);
+      if (aValue !== bValue) {
+        return (aValue < bValue ? -1 : 1) * (reverse ? -1 : 1);
+      }
+    }
+    return a.filePath === b.filePath ? a.lineNumber - b.lineNumber : a.filePath.localeCompare(b.filePath);
+  });
+  if (query.limit !== undefined) {
+    results = results.slice(0, query.limit);
+  }
+
+  if (!query.groupBy) {
+    return [{ key: '', tasks: results }];
+  }
+  const groups = new Map<string, Task[]>();
+  for (const task of results) {
+    for (const key of groupKeys(task, query.groupBy)) {
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(task);
+    }
+  }
+  return Array.from(groups.keys())
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }))
+    .map(key => ({ key, tasks: groups.get(key)! }));
+}
+
+function groupKeys(task: Task, groupBy: TaskQueryGroup): string[] {
+  switch (groupBy) {
+    case 'project': return [task.project];
+    case 'file': return [path.basename(task.filePath, '.md')];
+    case 'date': return [task.date || '(no date)'];
+    case 'due': return [task.due || '(no due date)'];
+    case 'scheduled': return [task.scheduled || '(no scheduled date)'];
+    // Rank prefix keeps the groups in priority order
+    case 'priority': return [`${task.priorityRank} ${`${priorityEmoji(task.priority)} ${task.priority}`.trim()}`];
+    case 'status': return [findTaskStatus(task.status)?.name || `[${task.status}]`];
+    case 'tag': return task.tags.length > 0 ? task.tags : ['(no tag)'];
+  }
+}
+
+/**
+ * HTML of a query block: the matching tasks as checkboxes the preview script can toggle,
+ * each with a link to its note.
+ */
+export function renderTaskQuery(md: MarkdownIt, source: string, tasks: Task[]): string {
+  const escape = md.utils.escapeHtml;
+  const query = parseTaskQuery(source);
+  const statuses = getTaskStatuses();
+  let html = '<div class="om-task-query">';
+  for (const error of query.errors) {
+    html += `<div class="om-task-query-error">${escape(error)}</div>`;
+  }
+
+  const groups = runTaskQuery(query, tasks);
+  let count = 0;
+  for (const group of groups) {
+    if (group.key) {
+      const label = query.groupBy === 'priority' ? group.key.replace(/^\d+ /, '') : group.key;
+      html += `<div class="om-task-query-group">${escape(label)}</div>`;
+    }
+    html += '<ul class="task-list om-task-query-list">';
+    for (const task of group.tasks) {
+      const status = findTaskStatus(task.status, statuses);
+      const source = vscode.Uri.file(task.filePath).toString();
+      const checkbox = task.status === 'x'
+        ? '<input type="checkbox" class="task-list-item-checkbox" checked>'
+        : task.status === ' '
+          ? '<input type="checkbox" class="task-list-item-checkbox">'
+          : `<input type="checkbox" class="task-list-item-checkbox" data-task="${escape(task.status)}" title="${escape(status?.name || '')}">`;
+      const text = md.renderInline(task.task.split('\n')[0]);
+      html += `<li class="task-list-item" data-task="${escape(task.status)}" data-line="${task.lineNumber}" data-source="${escape(source)}">`
+        + `${checkbox}<label>${text} `
+        + `<a class="om-task-query-source" data-path="${escape(task.filePath)}" data-line="${task.lineNumber}" title="${escape(task.filePath)}">${escape(path.basename(task.filePath, '.md'))}</a>`
+        + '</label></li>';
+      count++;
+    }
+    html += '</ul>';
+  }
+  html += `<div class="om-task-query-count">${count} task${count === 1 ? '' : 's'}</div></div>`;
+  return html;
+}
+
+let queryBlocksRendered = false;
+
+/**
+ * Render ```tasks / ```om-query fences with the tasks of the vault index.
+ */
+export function taskQueryPlugin(md: MarkdownIt, vaultIndex: VaultIndex): void {
+  const defaultFence = md.renderer.rules.fence;
+  md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+    const token = tokens[idx];
+    if (TASK_QUERY_LANGUAGES.includes(token.info.trim().toLowerCase())) {
+      queryBlocksRendered = true;
+      return renderTaskQuery(md, token.content, loadVaultTasks(vaultIndex));
+    }
+    return defaultFence ? defaultFence(tokens, idx, options, env, self) : self.renderToken(tokens, idx, options);
+  };
+}
+
+/**
+ * Refresh open previews when vault tasks change, once a query block has been rendered.
+ */
+export function registerTaskQueryRefresh(vaultIndex: VaultIndex): vscode.Disposable {
+  let refreshTimeout: NodeJS.Timeout | undefined;
+  const listener = vaultIndex.onDidChange(() => {
+    if (!queryBlocksRendered) return;
+    if (refreshTimeout) clearTimeout(refreshTimeout);
+    refreshTimeout = setTimeout(() => {
+      vscode.commands.executeCommand('markdown.preview.refresh');
+    }, 1000);
+  });
+  return {
+    dispose: () => {
+      if (refreshTimeout) clearTimeout(refreshTimeout);
+      listener.dispose();
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+
+/**
+ * Checkbox statuses (`- [/]`, `- [-]`, ...). The set and the click-to-cycle order come from
+ * `obsidianManager.taskStatuses`; `X` is always read as `x`.
+ */
+export type TaskStatusType = 'todo' | 'inProgress' | 'done' | 'cancelled' | 'nonTask';
+
+export interface TaskStatus {
+  symbol: string; // the character between the brackets
+  name: string;
+  type: TaskStatusType;
+  next: string; // symbol a click changes the status to
+  icon: string; // codicon id
+}
+
+export const DEFAULT_TASK_STATUSES: TaskStatus[] = [
+  { symbol: ' ', name: 'Todo', type: 'todo', next: '/', icon: 'circle-large-outline' },
+  { symbol: '/', name: 'In progress', type: 'inProgress', next: 'x', icon: 'play-circle' },
+  { symbol: 'x', name: 'Done', type: 'done', next: ' ', icon: 'pass-filled' },
+  { symbol: '-', name: 'Cancelled', type: 'cancelled', next: ' ', icon: 'circle-slash' },
+  { symbol: '>', name: 'Deferred', type: 'todo', next: ' ', icon: 'arrow-circle-right' },
+  { symbol: '?', name: 'Question', type: 'todo', next: ' ', icon: 'question' }
+];
+
+const STATUS_TYPES: TaskStatusType[] = ['todo', 'inProgress', 'done', 'cancelled', 'nonTask'];
+
+export function getTaskStatuses(): TaskStatus[] {
+  const cfg = vscode.workspace.getConfiguration('obsidianManager');
+  const configured = cfg.get<Partial<TaskStatus>[]>('taskStatuses', DEFAULT_TASK_STATUSES);
+  const statuses: TaskStatus[] = [];
+  for (const entry of Array.isArray(configured) ? configured : []) {
+    if (!entry || typeof entry.symbol !== 'string' || entry.symbol.length !== 1) continue;
+    if (statuses.some(s => s.symbol === entry.symbol)) continue;
+    const fallback = DEFAULT_TASK_STATUSES.find(s => s.symbol === entry.symbol);
+    statuses.push({
+      symbol: entry.symbol,
+      name: entry.name || fallback?.name || `[${entry.symbol}]`,
+      type: entry.type && STATUS_TYPES.includes(entry.type) ? entry.type : fallback?.type || 'todo',
+      next: typeof entry.next === 'string' && entry.next.length === 1 ? entry.next : fallback?.next || ' ',
+      icon: entry.icon || fallback?.icon || 'circle-large-outline'
+    });
+  }
+  // Plain checkboxes always work, whatever the configuration says
+  for (const symbol of [' ', 'x']) {
+    if (!statuses.some(s => s.symbol === symbol)) {
+      statuses.push(DEFAULT_TASK_STATUSES.find(s => s.symbol === symbol)!);
+    }
+  }
+  return statuses;
+}
+
+export function findTaskStatus(symbol: string, statuses: TaskStatus[] = getTaskStatuses()): TaskStatus | undefined {
+  const normalized = symbol === 'X' ? 'x' : symbol;
+  return statuses.find(s => s.symbol === normalized);
+}
+
+/**
+ * Status a click moves `symbol` to.
+ */
+export function nextTaskStatus(symbol: string, statuses: TaskStatus[] = getTaskStatuses()): TaskStatus {
+  const current = findTaskStatus(symbol, statuses);
+  return findTaskStatus(current ? current.next : ' ', statuses) || statuses[0];
+}
+
+/**
+ * Done and cancelled tasks are hidden by "Hide completed" and not moved by "Move uncompleted tasks".
+ */
+export function isClosedStatus(status: TaskStatus | undefined): boolean {
+  return !!status && (status.type === 'done' || status.type === 'cancelled');
+}
+
+/**
+ * Regex character class matching every configured status symbol, e.g. `[ x/\-X]`.
+ */
+export function taskStatusCharClass(statuses: TaskStatus[] = getTaskStatuses()): string {
+  const symbols = statuses.map(s => s.symbol).concat(statuses.some(s => s.symbol === 'x') ? ['X'] : []);
+  return `[${symbols.map(s => s.replace(/[\]\\^-]/g, '\\$&')).join('')}]`;
+}
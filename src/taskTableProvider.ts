@@ -1,30 +1,70 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { promises as fs } from 'fs';
-
-interface Task {
-  id: string; // unique identifier: filePath:lineNumber
-  status: boolean; // true = done, false = todo
-  date: string; // YYYY-MM-DD extracted from filename
-  project: string; // root folder name
-  task: string; // task text
-  filePath: string; // full path to the markdown file
-  lineNumber: number; // line number in the file (0-indexed)
-  originalLine: string; // original line content
-}
+import { VaultIndex, NoteMetadata } from './vaultIndex';
+import { PRIORITY_ORDER, priorityEmoji, setDoneDate, setDateField, addDays, toIsoDate } from './taskMetadata';
+import { nextOccurrence, getRecurringTaskPlacement, addOccurrenceToDailyNote, occurrenceDailyNote, appendOccurrence } from './recurrence';
+import { TaskStatus, getTaskStatuses, findTaskStatus, nextTaskStatus, isClosedStatus } from './taskStatus';
+import { Task, loadVaultTasks } from './vaultTasks';
+import { TASK_FILTER_KEYS, parseTaskFilterQuery, matchesTaskFilter, datePeriodRange, datePeriodKey } from './taskFilterQuery';
+import { TaskView, TaskViewLocation, TASK_VIEWS_FILE, loadTaskViews, saveTaskView, deleteTaskView } from './taskViews';
+import { KanbanLane, findSections, sectionInsertLine, addSection, loadKanbanLanes } from './kanban';
+import { TASK_EXPORT_FORMATS, formatTasks } from './taskExport';
+import { TaskEditJournal, JournalResult } from './taskEditJournal';
+import { TaskTimeTracker, formatDuration } from './timeTracking';
+import { excludedPathMatcher } from './obsidianConfig';
+
+// Width of the task names left of the timeline bars, in pixels
+const TIMELINE_LABEL_WIDTH = 260;
+
+// Columns the column picker and saved views can hide, by cell class (`due` → `.due-cell`)
+const HIDEABLE_COLUMNS = [
+  { key: 'open-file', label: 'Open file' },
+  { key: 'date', label: 'Date' },
+  { key: 'due', label: 'Due' },
+  { key: 'scheduled', label: 'Scheduled' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'spent', label: 'Time spent' },
+  { key: 'move', label: 'Move' },
+  { key: 'insert', label: 'Add task' }
+];
+
+// Webview messages that edit files, with the name of their undo step
+const JOURNAL_LABELS: Record<string, string> = {
+  cycleStatus: 'Change status',
+  updateTask: 'Edit task',
+  addTaskAfter: 'Add task',
+  addTaskBefore: 'Add task',
+  addNewTask: 'Add task',
+  deleteTask: 'Delete task',
+  bulkDeleteTasks: 'Delete tasks',
+  moveTask: 'Move task',
+  bulkMoveTasks: 'Move tasks',
+  rescheduleTask: 'Reschedule task',
+  requestReschedule: 'Reschedule task',
+  shiftTaskDates: 'Change task dates',
+  requestChangeProject: 'Change project',
+  editTags: 'Edit tags',
+  removeTag: 'Remove tag',
+  reorderTask: 'Reorder task',
+  moveCard: 'Move card',
+  addCard: 'Add card'
+};
 
 export class TaskTableProvider {
   private panel: vscode.WebviewPanel | undefined;
   private tasks: Task[] = [];
+  private kanbanLanes: Record<string, KanbanLane[]> = {}; // lanes of the Kanban notes, by file path
+  private journal = new TaskEditJournal(); // undo/redo history of the edits made from the table
   private vaultPath: string = '';
-  private fileWatcher: vscode.FileSystemWatcher | undefined;
+  private indexListener: vscode.Disposable | undefined;
+  private panelListeners: vscode.Disposable[] = [];
 
-  constructor(private context: vscode.ExtensionContext) {}
+  constructor(private context: vscode.ExtensionContext, private vaultIndex: VaultIndex, private timeTracker: TaskTimeTracker) {}
 
-  public async show(filterDate?: string, filterProject?: string, filterHashtag?: string, filterFile?: string) {
+  public async show(filterDate?: string, filterProject?: string, filterHashtag?: string, filterFile?: string, filterQuery?: string, viewName?: string) {
     // Get vault path from configuration
-    const cfg = vscode.workspace.getConfiguration('obsidianManager');
-    this.vaultPath = (cfg.get<string>('vault') || '').trim();
+    this.vaultPath = this.vaultIndex.vaultPath || '';
 
     if (!this.vaultPath) {
       vscode.window.showErrorMessage('Please configure the obsidianManager.vault setting first.');
@@ -47,134 +87,218 @@ export class TaskTableProvider {
 
       this.panel.onDidDispose(() => {
         this.panel = undefined;
-        // Dispose file watcher when panel is closed
-        if (this.fileWatcher) {
-          this.fileWatcher.dispose();
-          this.fileWatcher = undefined;
+        // Stop listening to the vault index when panel is closed
+        if (this.indexListener) {
+          this.indexListener.dispose();
+          this.indexListener = undefined;
         }
+        this.panelListeners.forEach(d => d.dispose());
+        this.panelListeners = [];
       });
       
-      // Setup file watcher to auto-reload tasks when vault files change
-      this.setupFileWatcher();
+      // Auto-reload tasks when vault files change
+      this.setupIndexListener();
+
+      // Keep the view dropdown in sync with the settings and the shared views file
+      const viewsWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.vaultPath, TASK_VIEWS_FILE));
+      this.panelListeners = [
+        // Show which task is timed
+        this.timeTracker.onDidChange(() => this.sendTimerState()),
+        viewsWatcher,
+        viewsWatcher.onDidChange(() => this.sendViews()),
+        viewsWatcher.onDidCreate(() => this.sendViews()),
+        viewsWatcher.onDidDelete(() => this.sendViews()),
+        vscode.workspace.onDidChangeConfiguration(e => {
+          if (e.affectsConfiguration('obsidianManager.taskTableViews')) {
+            this.sendViews();
+          }
+        })
+      ];
 
       // Handle messages from the webview
       this.panel.webview.onDidReceiveMessage(
         async (message) => {
-          switch (message.command) {
-            case 'toggleStatus':
-              if (message.taskId) {
-                await this.toggleTaskStatus(message.taskId);
-              }
-              break;
-            case 'updateTask':
-              if (message.taskId) {
-                await this.updateTaskText(message.taskId, message.newText);
-              }
-              break;
-            case 'openFile':
-              if (message.filePath && message.lineNumber !== undefined) {
-                await this.openFileAtLine(message.filePath, message.lineNumber);
-              }
-              break;
-            case 'addTaskAfter':
-              if (message.taskId) {
-                await this.addTaskAfter(message.taskId);
-              }
-              break;
-            case 'addTaskBefore':
-              if (message.taskId) {
-                await this.addTaskBefore(message.taskId);
-              }
-              break;
-
-            case 'deleteTask':
-              if (message.taskId) {
-                const answer = await vscode.window.showWarningMessage(
-                  'Are you sure you want to delete this task?',
-                  { modal: true },
-                  'Delete'
-                );
-                if (answer === 'Delete') {
-                  await this.deleteTask(message.taskId);
+          const label = JOURNAL_LABELS[message.command];
+          if (label) {
+            this.journal.begin(label);
+          }
+          try {
+            switch (message.command) {
+              case 'cycleStatus':
+                if (message.taskId) {
+                  await this.cycleTaskStatus(message.taskId);
                 }
-              }
-              break;
+                break;
+              case 'updateTask':
+                if (message.taskId) {
+                  await this.updateTaskText(message.taskId, message.newText);
+                }
+                break;
+              case 'openFile':
+                if (message.filePath && message.lineNumber !== undefined) {
+                  await this.openFileAtLine(message.filePath, message.lineNumber);
+                }
+                break;
+              case 'addTaskAfter':
+                if (message.taskId) {
+                  await this.addTaskAfter(message.taskId);
+                }
+                break;
+              case 'addTaskBefore':
+                if (message.taskId) {
+                  await this.addTaskBefore(message.taskId);
+                }
+                break;
+
+              case 'deleteTask':
+                if (message.taskId) {
+                  const answer = await vscode.window.showWarningMessage(
+                    'Are you sure you want to delete this task?',
+                    { modal: true },
+                    'Delete'
+                  );
+                  if (answer === 'Delete') {
+                    await this.deleteTask(message.taskId);
+                  }
+                }
+                break;
             
-            case 'moveTask':
-              if (message.taskId) {
-                await this.moveTask(message.taskId);
-              }
-              break;
-            case 'rescheduleTask':
-              if (message.taskId && message.newDate) {
-                await this.rescheduleTask(message.taskId, message.newDate);
-              }
-              break;
-            case 'requestReschedule':
-              if (message.taskId) {
-                await this.requestReschedule(message.taskId, message.currentDate || '');
-              }
-              break;
-            case 'requestChangeProject':
-              if (message.taskId) {
-                await this.requestChangeProject(message.taskId);
-              }
-              break;
+              case 'moveTask':
+                if (message.taskId) {
+                  await this.moveTask(message.taskId);
+                }
+                break;
+              case 'rescheduleTask':
+                if (message.taskId && message.newDate) {
+                  await this.rescheduleTask(message.taskId, message.newDate);
+                }
+                break;
+              case 'requestReschedule':
+                if (message.taskId) {
+                  await this.requestReschedule(message.taskId, message.currentDate || '');
+                }
+                break;
+              case 'requestChangeProject':
+                if (message.taskId) {
+                  await this.requestChangeProject(message.taskId);
+                }
+                break;
             
-            case 'editTags':
-              if (message.taskId) {
-                await this.editTaskTags(message.taskId);
-              }
-              break;
+              case 'editTags':
+                if (message.taskId) {
+                  await this.editTaskTags(message.taskId);
+                }
+                break;
             
-            case 'removeTag':
-              if (message.taskId && message.tag) {
-                await this.removeTagFromTask(message.taskId, message.tag);
-              }
-              break;
+              case 'removeTag':
+                if (message.taskId && message.tag) {
+                  await this.removeTagFromTask(message.taskId, message.tag);
+                }
+                break;
             
-            case 'selectFiles':
-              await this.selectFilesFilter(message.currentSelection || []);
-              break;
+              case 'selectFiles':
+                await this.selectFilesFilter(message.currentSelection || []);
+                break;
             
-            case 'selectProjects':
-              await this.selectProjectsFilter(message.currentSelection || []);
-              break;
+              case 'selectProjects':
+                await this.selectProjectsFilter(message.currentSelection || []);
+                break;
             
-            case 'bulkDeleteTasks':
-              if (message.taskIds && Array.isArray(message.taskIds) && message.taskIds.length > 0) {
-                const answer = await vscode.window.showWarningMessage(
-                  `Are you sure you want to delete ${message.taskIds.length} task(s)?`,
-                  { modal: true },
-                  'Delete'
-                );
-                if (answer === 'Delete') {
-                  await this.bulkDeleteTasks(message.taskIds);
+              case 'bulkDeleteTasks':
+                if (message.taskIds && Array.isArray(message.taskIds) && message.taskIds.length > 0) {
+                  const answer = await vscode.window.showWarningMessage(
+                    `Are you sure you want to delete ${message.taskIds.length} task(s)?`,
+                    { modal: true },
+                    'Delete'
+                  );
+                  if (answer === 'Delete') {
+                    await this.bulkDeleteTasks(message.taskIds);
+                  }
                 }
-              }
-              break;
+                break;
             
-            case 'bulkMoveTasks':
-              if (message.taskIds && Array.isArray(message.taskIds) && message.taskIds.length > 0) {
-                await this.bulkMoveTasks(message.taskIds);
-              }
-              break;
+              case 'bulkMoveTasks':
+                if (message.taskIds && Array.isArray(message.taskIds) && message.taskIds.length > 0) {
+                  await this.bulkMoveTasks(message.taskIds);
+                }
+                break;
             
-            case 'reloadTasks':
-              // Reload tasks and send updated data without full refresh
-              await this.loadTasks();
-              this.sendTasksUpdate();
-              break;
+              case 'toggleTimer':
+                if (message.taskId) {
+                  await this.toggleTaskTimer(message.taskId);
+                }
+                break;
             
-            case 'addNewTask':
-              await this.addNewTask(message.project || '', message.date || '');
-              break;
+              case 'reloadTasks':
+                // Reload tasks and send updated data without full refresh
+                await this.loadTasks();
+                this.sendTasksUpdate();
+                break;
             
-            case 'reorderTask':
-              if (message.srcTaskId && message.targetTaskId) {
-                await this.reorderTask(message.srcTaskId, message.targetTaskId, message.insertBefore !== false);
-              }
-              break;
+              case 'addNewTask':
+                await this.addNewTask(message.project || '', message.date || '');
+                break;
+            
+              case 'reorderTask':
+                if (message.srcTaskId && message.targetTaskId) {
+                  await this.reorderTask(message.srcTaskId, message.targetTaskId, message.insertBefore !== false);
+                }
+                break;
+
+              case 'moveCard':
+                if (message.taskId && message.columns) {
+                  await this.moveCard(message.taskId, message.columns, message.from || '', message.to || '', message.beforeTaskId);
+                }
+                break;
+
+              case 'addCard':
+                if (message.filePath && message.heading) {
+                  await this.addCard(message.filePath, message.heading);
+                }
+                break;
+              case 'exportTasks':
+                if (Array.isArray(message.taskIds)) {
+                  const byId = new Map(this.tasks.map(t => [t.id, t]));
+                  await this.exportTaskList(message.taskIds.map((id: string) => byId.get(id)).filter((t: Task | undefined): t is Task => !!t));
+                }
+                break;
+              case 'shiftTaskDates':
+                if (message.taskId) {
+                  await this.shiftTaskDates(message.taskId, message.startDays || 0, message.endDays || 0);
+                }
+                break;
+
+              case 'undo':
+                await this.undo();
+                break;
+
+              case 'redo':
+                await this.redo();
+                break;
+
+              case 'saveView':
+                if (message.view) {
+                  await this.saveView(message.view, message.name);
+                }
+                break;
+
+              case 'deleteView':
+                if (message.name && message.location) {
+                  const answer = await vscode.window.showWarningMessage(
+                    `Delete the task view "${message.name}"?`,
+                    { modal: true },
+                    'Delete'
+                  );
+                  if (answer === 'Delete') {
+                    await this.deleteView(message.name, message.location);
+                  }
+                }
+                break;
+            }
+          } finally {
+            if (label) {
+              this.journal.end();
+            }
           }
         },
         undefined,
@@ -185,10 +309,16 @@ export class TaskTableProvider {
     // Load tasks and update webview
     await this.loadTasks();
     this.updateWebview();
+    await this.sendViews(viewName);
+
+    // A saved view replaces the initial filters
+    if (viewName) {
+      return;
+    }
     
     // Apply initial filters if provided
-    if (filterDate || filterProject || filterHashtag || filterFile) {
-      this.sendTasksUpdate(undefined, filterDate, filterProject, filterHashtag, filterFile);
+    if (filterDate || filterProject || filterHashtag || filterFile || filterQuery) {
+      this.sendTasksUpdate(undefined, filterDate, filterProject, filterHashtag, filterFile, filterQuery);
     } else {
       // Apply initial projects filter from settings (if no explicit filter was requested)
       const cfg = vscode.workspace.getConfiguration('obsidianManager');
@@ -225,19 +355,63 @@ export class TaskTableProvider {
     }
   }
 
-  private setupFileWatcher() {
-    // Dispose existing watcher if any
-    if (this.fileWatcher) {
-      this.fileWatcher.dispose();
+  /**
+   * Open the task table as a board of one note, with a column per heading (the lanes of a Kanban note).
+   */
+  public async showBoard(filePath: string) {
+    await this.show(undefined, undefined, undefined, path.basename(filePath));
+    this.panel?.webview.postMessage({
+      command: 'setLayout',
+      layout: 'board',
+      boardColumns: 'heading'
+    });
+  }
+
+  /**
+   * Export the tasks left by the filters of the open table, or every task when it is closed.
+   */
+  public async exportTasks() {
+    if (this.panel) {
+      // The webview answers with the ids of its visible rows
+      this.panel.webview.postMessage({ command: 'requestExport' });
+      return;
+    }
+    await this.loadTasks();
+    await this.exportTaskList(this.tasks);
+  }
+
+  private async exportTaskList(tasks: Task[]) {
+    const pick = await vscode.window.showQuickPick(
+      TASK_EXPORT_FORMATS.map(f => ({ label: f.label, description: f.description, format: f.format })),
+      { placeHolder: `Export ${tasks.length} task(s) as` }
+    );
+    if (!pick) { return; }
+
+    const vaultPath = this.vaultIndex.vaultPath || '';
+    const fileName = `tasks-${toIsoDate(new Date())}.${pick.format}`;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vaultPath ? vscode.Uri.file(path.join(vaultPath, fileName)) : undefined,
+      filters: { [pick.label]: [pick.format] }
+    });
+    if (!uri) { return; }
+
+    try {
+      await fs.writeFile(uri.fsPath, formatTasks(tasks, pick.format, vaultPath), 'utf-8');
+      vscode.window.showInformationMessage(`Exported ${tasks.length} task(s) to ${path.basename(uri.fsPath)}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error exporting tasks: ${error}`);
+    }
+  }
+
+  private setupIndexListener() {
+    // Dispose existing listener if any
+    if (this.indexListener) {
+      this.indexListener.dispose();
     }
-    
-    // Create a glob pattern for markdown files in the vault
-    const pattern = new vscode.RelativePattern(this.vaultPath, '**/*.md');
-    this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
     
     // Debounce function to avoid too many reloads
     let reloadTimeout: NodeJS.Timeout | undefined;
-    const debounceReload = () => {
+    this.indexListener = this.vaultIndex.onDidChange(() => {
       if (reloadTimeout) {
         clearTimeout(reloadTimeout);
       }
@@ -247,169 +421,224 @@ export class TaskTableProvider {
           this.sendTasksUpdate();
         }
       }, 500); // Wait 500ms after last change before reloading
-    };
-    
-    // Watch for file changes
-    this.fileWatcher.onDidChange(debounceReload);
-    this.fileWatcher.onDidCreate(debounceReload);
-    this.fileWatcher.onDidDelete(debounceReload);
+    });
   }
 
   private async loadTasks() {
     this.tasks = [];
     
     try {
-      const cfg = vscode.workspace.getConfiguration('obsidianManager');
-      const includeNonDateFiles = cfg.get<boolean>('taskTableIncludeNonDateFiles', false);
-      // dateFilter=true excludes non-date files; invert the setting
-      const files = await this.findMarkdownFiles(this.vaultPath, !includeNonDateFiles, true);
-
-      for (const file of files) {
-        const tasks = await this.extractTasksFromFile(file);
-        this.tasks.push(...tasks);
-      }
+      await this.vaultIndex.ready();
+      this.tasks = loadVaultTasks(this.vaultIndex);
+      this.kanbanLanes = await loadKanbanLanes(this.vaultIndex.getNotes());
     } catch (error) {
       vscode.window.showErrorMessage(`Error loading tasks: ${error}`);
     }
   }
 
   /**
-   * Find markdown files in a directory.
-   * @param dir Directory to search
+   * Markdown notes of the vault, taken from the shared index.
    * @param dateFilter If true, only include files matching YYYY-MM-DD* pattern
-   * @param recursive If true, search subdirectories recursively
    */
-  private async findMarkdownFiles(dir: string, dateFilter: boolean, recursive: boolean, depth: number = 0): Promise<string[]> {
-    if (depth > 50) {
-      return [];
-    }
+  private findMarkdownNotes(dateFilter: boolean): NoteMetadata[] {
+    return this.vaultIndex.getNotes().filter(note => !dateFilter || !!note.datePrefix);
+  }
 
-    const files: string[] = [];
-    const datePattern = /^\d{4}-\d{2}-\d{2}/;
+  private getDescendants(task: Task): Task[] {
+    const children = this.tasks.filter(t => t.parentId === task.id);
+    return children.reduce<Task[]>((all, child) => all.concat(child, this.getDescendants(child)), []);
+  }
 
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
+  /**
+   * Number of lines making up the task on `lineNumber`: the task itself, its continuation lines
+   * and every more indented line below it (subtasks), blank lines between them included.
+   */
+  private getTaskBlockLength(lines: string[], lineNumber: number): number {
+    const indentOf = (line: string) => (line.match(/^(\s*)/)?.[1] || '').length;
+    const taskIndent = indentOf(lines[lineNumber]);
+    let end = lineNumber + 1;
+    let j = lineNumber + 1;
+    while (j < lines.length) {
+      if (lines[j].trim() === '') {
+        j++;
+        continue;
+      }
+      if (indentOf(lines[j]) <= taskIndent) {
+        break;
+      }
+      end = ++j;
+    }
+    return end - lineNumber;
+  }
 
-      for (const entry of entries) {
-        if (entry.name.startsWith('.')) { continue; }
+  /**
+   * Re-indent a task block so its first line starts with `indent`, keeping the relative
+   * indentation of its subtasks.
+   */
+  private reindentBlock(block: string[], indent: string): string[] {
+    const current = block[0].match(/^(\s*)/)?.[1] || '';
+    if (current === indent) {
+      return block;
+    }
+    return block.map(line => line.startsWith(current) ? indent + line.slice(current.length) : line);
+  }
 
-        const fullPath = path.join(dir, entry.name);
+  /**
+   * Write a vault file and re-index it immediately so the reload that follows sees the new content.
+   */
+  private async writeFile(filePath: string, content: string): Promise<void> {
+    let before: string | undefined;
+    try {
+      before = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      // Created by this write
+    }
+    this.journal.record(filePath, before, content);
+    await fs.writeFile(filePath, content, 'utf-8');
+    await this.vaultIndex.refreshPaths([filePath]);
+  }
 
-        if (entry.isDirectory() && recursive) {
-          const subFiles = await this.findMarkdownFiles(fullPath, dateFilter, recursive, depth + 1);
-          files.push(...subFiles);
-        } else if (entry.isFile() && entry.name.endsWith('.md')) {
-          if (!dateFilter || datePattern.test(entry.name)) {
-            files.push(fullPath);
-          }
-        }
-      }
+  /**
+   * Revert the last edit made from the table, unless its lines changed since.
+   */
+  public async undo() {
+    try {
+      await this.applyJournalResult(await this.journal.undo(), 'Undo');
     } catch (error) {
-      console.error(`Error reading directory ${dir}:`, error);
+      vscode.window.showErrorMessage(`Error undoing task edit: ${error}`);
     }
-
-    return files;
   }
 
-  private async extractTasksFromFile(filePath: string): Promise<Task[]> {
-    const tasks: Task[] = [];
-    
+  public async redo() {
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
-      
-      // Extract date from filename (YYYY-MM-DD)
-      const filename = path.basename(filePath);
-      const dateMatch = filename.match(/^(\d{4}-\d{2}-\d{2})/);
-      const date = dateMatch ? dateMatch[1] : '';
-      
-      // Extract project name (root folder)
-      const relativePath = path.relative(this.vaultPath, filePath);
-      const parts = relativePath.split(path.sep);
-      const project = parts.length > 1 ? parts[0] : 'root';
-      
-      // Parse tasks - use for loop to skip continuation lines already consumed
-      const skipLines = new Set<number>();
-      for (let index = 0; index < lines.length; index++) {
-        if (skipLines.has(index)) { continue; }
-        const line = lines[index];
-        const todoMatch = line.match(/^([\s]*- \[ \])\s*(.*)$/);
-        const doneMatch = line.match(/^([\s]*- \[x\])\s*(.*)/i);
-        
-        if (todoMatch || doneMatch) {
-          const firstLineText = todoMatch ? todoMatch[2] : doneMatch![2];
-          const textParts = [firstLineText];
-          
-          // Collect tab-indented continuation lines
-          let j = index + 1;
-          while (j < lines.length) {
-            const nextLine = lines[j];
-            if (nextLine.startsWith('\t') && !nextLine.match(/^\t*- \[[ x]\]/i)) {
-              textParts.push(nextLine.replace(/^\t/, ''));
-              skipLines.add(j);
-              j++;
-            } else {
-              break;
-            }
-          }
-
-          const taskText = textParts.join('\n').trim();
-          const status = !!doneMatch;
-          const id = `${filePath}:${index}`;
-          
-          tasks.push({
-            id,
-            status,
-            date,
-            project,
-            task: taskText,
-            filePath,
-            lineNumber: index,
-            originalLine: line,
-          });
-        }
-      }
+      await this.applyJournalResult(await this.journal.redo(), 'Redo');
     } catch (error) {
-      console.error(`Error extracting tasks from ${filePath}:`, error);
+      vscode.window.showErrorMessage(`Error redoing task edit: ${error}`);
+    }
+  }
+
+  private async applyJournalResult(result: JournalResult | undefined, action: 'Undo' | 'Redo') {
+    if (!result) {
+      vscode.window.setStatusBarMessage(`Nothing to ${action.toLowerCase()} in the task table`, 3000);
+      return;
+    }
+    if (!result.applied) {
+      vscode.window.showWarningMessage(
+        `Cannot ${action.toLowerCase()} "${result.entry.label}": ${path.basename(result.filePath)} was changed since. The edit was removed from the history.`
+      );
+      return;
+    }
+    await this.vaultIndex.refreshPaths(result.paths);
+    vscode.window.setStatusBarMessage(`${action}: ${result.entry.label}`, 3000);
+    if (this.panel) {
+      await this.loadTasks();
+      this.sendTasksUpdate();
     }
-    
-    return tasks;
   }
 
-  private async toggleTaskStatus(taskId: string) {
+  /**
+   * Move a task to the next status of the configured cycle (by default todo → in progress → done → todo).
+   */
+  private async cycleTaskStatus(taskId: string) {
     const task = this.tasks.find(t => t.id === taskId);
     if (!task) {
       return;
     }
+    await this.setTaskStatus(task, nextTaskStatus(task.status));
+  }
+
+  /**
+   * Check an open task or reopen a closed one from outside the table (the calendar's agenda),
+   * with the same done date, subtask and recurrence handling as the table; undone like its edits.
+   */
+  public async toggleTask(filePath: string, lineNumber: number) {
+    await this.loadTasks();
+    const task = this.tasks.find(t => t.filePath === filePath && t.lineNumber === lineNumber);
+    if (!task) {
+      vscode.window.showErrorMessage('Error updating task: the task is no longer on this line');
+      return;
+    }
+    const statuses = getTaskStatuses();
+    const closed = isClosedStatus(findTaskStatus(task.status, statuses));
+    const next = statuses.find(s => s.type === (closed ? 'todo' : 'done'));
+    if (!next) {
+      return;
+    }
+    this.journal.begin(JOURNAL_LABELS.cycleStatus);
+    try {
+      await this.setTaskStatus(task, next);
+    } finally {
+      this.journal.end();
+    }
+  }
 
+  /**
+   * Change the checkbox of a task, stamping or clearing its ✅ date and creating the next
+   * occurrence when a recurring task gets done.
+   */
+  private async setTaskStatus(task: Task, next: TaskStatus) {
     try {
       const content = await fs.readFile(task.filePath, 'utf-8');
       const lines = content.split('\n');
-      
-      const line = lines[task.lineNumber];
-      let newLine: string;
-      
-      if (task.status) {
-        // Currently done, change to todo
-        newLine = line.replace(/- \[x\]/i, '- [ ]');
-      } else {
-        // Currently todo, change to done
-        newLine = line.replace(/- \[ \]/, '- [x]');
-      }
-      
-      lines[task.lineNumber] = newLine;
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      await this.applyTaskStatus(task, next, lines);
+      await this.writeFile(task.filePath, lines.join('\n'));
       
       // Reload tasks and send updated data without full refresh
       await this.loadTasks();
       this.sendTasksUpdate();
-      vscode.commands.executeCommand('obsidianManager.refreshView');
       
     } catch (error) {
       vscode.window.showErrorMessage(`Error updating task: ${error}`);
     }
   }
 
+  /**
+   * Change the checkbox of a task in `lines`, the content of its note, as setTaskStatus does.
+   * Returns the number of lines added above the task (its next occurrence).
+   */
+  private async applyTaskStatus(task: Task, next: TaskStatus, lines: string[]): Promise<number> {
+    const line = lines[task.lineNumber];
+    const statuses = getTaskStatuses();
+    const wasDone = findTaskStatus(task.status, statuses)?.type === 'done';
+    let newLine = line.replace(/^(\s*[-*+] )\[.\]/, `$1[${next.symbol}]`);
+    
+    if (next.type === 'done' && !wasDone) {
+      // Stamp today's date like the Tasks plugin
+      newLine = setDoneDate(newLine, toIsoDate(new Date()));
+    } else if (next.type !== 'done') {
+      newLine = setDoneDate(newLine, undefined);
+    }
+    
+    lines[task.lineNumber] = newLine;
+
+    // Optionally complete the open subtasks together with their parent
+    const completeSubtasks = vscode.workspace.getConfiguration('obsidianManager').get<boolean>('taskTableCompleteSubtasks', false);
+    if (next.type === 'done' && !wasDone && completeSubtasks) {
+      for (const subtask of this.getDescendants(task)) {
+        if (isClosedStatus(findTaskStatus(subtask.status, statuses))) continue;
+        const subtaskLine = lines[subtask.lineNumber].replace(/^(\s*[-*+] )\[.\]/, `$1[${next.symbol}]`);
+        lines[subtask.lineNumber] = setDoneDate(subtaskLine, toIsoDate(new Date()));
+      }
+    }
+
+    // Completing a recurring task creates its next occurrence
+    const placement = getRecurringTaskPlacement();
+    const occurrence = next.type === 'done' && !wasDone && placement !== 'off' ? nextOccurrence(newLine, toIsoDate(new Date())) : undefined;
+    if (occurrence && placement === 'above') {
+      lines.splice(task.lineNumber, 0, occurrence.line);
+      return 1;
+    } else if (occurrence) {
+      const dailyNote = occurrenceDailyNote(task.filePath, occurrence);
+      if (dailyNote === task.filePath) {
+        appendOccurrence(lines, occurrence);
+      } else {
+        // Written like the task's own note, so one undo removes the occurrence too
+        await addOccurrenceToDailyNote(dailyNote, occurrence, (p, c) => this.writeFile(p, c));
+      }
+    }
+    return 0;
+  }
+
   private async updateTaskText(taskId: string, newText: string) {
     const task = this.tasks.find(t => t.id === taskId);
     if (!task) {
@@ -421,13 +650,13 @@ export class TaskTableProvider {
       const lines = content.split('\n');
       
       const line = lines[task.lineNumber];
-      const checkbox = task.status ? '- [x]' : '- [ ]';
+      const checkbox = `- [${task.status}]`;
       const indent = line.match(/^(\s*)/)?.[1] || '';
 
       // Count existing continuation lines (tab-indented, non-task lines)
       let continuationCount = 0;
       for (let i = task.lineNumber + 1; i < lines.length; i++) {
-        if (lines[i].startsWith('\t') && !lines[i].match(/^\t*- \[[ x]\]/i)) {
+        if (lines[i].startsWith('\t') && !lines[i].match(/^\t*- \[.\]/)) {
           continuationCount++;
         } else {
           break;
@@ -442,17 +671,12 @@ export class TaskTableProvider {
       ];
 
       lines.splice(task.lineNumber, 1 + continuationCount, ...replacementLines);
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      await this.writeFile(task.filePath, lines.join('\n'));
       
       // Reload tasks and send updated data without full refresh
       await this.loadTasks();
       this.sendTasksUpdate();
       
-      // Refresh hashtags tree (task text might contain hashtags)
-      // Refresh hashtags to update count
-      vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-      vscode.commands.executeCommand('obsidianManager.refreshView');
-      
     } catch (error) {
       vscode.window.showErrorMessage(`Error updating task text: ${error}`);
     }
@@ -491,7 +715,7 @@ export class TaskTableProvider {
         fileContent = await fs.readFile(filePath, 'utf-8');
       } catch {
         fileContent = `# ${fileDate}\n\n`;
-        await fs.writeFile(filePath, fileContent, 'utf-8');
+        await this.writeFile(filePath, fileContent);
       }
 
       // Append new empty task, removing trailing blank lines first
@@ -501,21 +725,20 @@ export class TaskTableProvider {
       }
       lines.push('- [ ] ');
       lines.push('');
-      await fs.writeFile(filePath, lines.join('\n'), 'utf-8');
+      await this.writeFile(filePath, lines.join('\n'));
 
       // Reload tasks and focus the new task row
       await this.loadTasks();
       const newLineNumber = lines.length - 2; // index of the inserted task line
       const newTaskId = `${filePath}:${newLineNumber}`;
       this.sendTasksUpdate(newTaskId);
-      vscode.commands.executeCommand('obsidianManager.refreshView');
 
     } catch (error) {
       vscode.window.showErrorMessage(`Error adding task: ${error}`);
     }
   }
 
-  private async openFileAtLine(filePath: string, lineNumber: number) {
+  public async openFileAtLine(filePath: string, lineNumber: number) {
     try {
       const cfg = vscode.workspace.getConfiguration('obsidianManager');
       const openMode = cfg.get<string>('taskTableOpenFileMode', 'edit');
@@ -595,17 +818,12 @@ export class TaskTableProvider {
       // Remove the line completely
       lines.splice(task.lineNumber, 1);
       
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      await this.writeFile(task.filePath, lines.join('\n'));
       
       // Reload tasks and send updated data without full refresh
       await this.loadTasks();
       this.sendTasksUpdate();
       
-      // Refresh hashtags tree (deleted task might have had hashtags)
-      // Refresh hashtags to update count
-      vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-      vscode.commands.executeCommand('obsidianManager.refreshView');
-      
     } catch (error) {
       vscode.window.showErrorMessage(`Error deleting task: ${error}`);
     }
@@ -624,7 +842,7 @@ export class TaskTableProvider {
       // Insert new empty task line after the current task
       lines.splice(task.lineNumber + 1, 0, '- [ ] ');
       
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      await this.writeFile(task.filePath, lines.join('\n'));
       
       // Reload tasks and send updated data without full refresh
       await this.loadTasks();
@@ -632,7 +850,6 @@ export class TaskTableProvider {
       // Generate new task ID (filePath:lineNumber)
       const newTaskId = `${task.filePath}:${task.lineNumber + 1}`;
       this.sendTasksUpdate(newTaskId);
-      vscode.commands.executeCommand('obsidianManager.refreshView');
       
     } catch (error) {
       vscode.window.showErrorMessage(`Error adding task: ${error}`);
@@ -652,19 +869,22 @@ export class TaskTableProvider {
       // Insert new empty task line before the current task
       lines.splice(task.lineNumber, 0, '- [ ] ');
 
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      await this.writeFile(task.filePath, lines.join('\n'));
 
       await this.loadTasks();
 
       const newTaskId = `${task.filePath}:${task.lineNumber}`;
       this.sendTasksUpdate(newTaskId);
-      vscode.commands.executeCommand('obsidianManager.refreshView');
 
     } catch (error) {
       vscode.window.showErrorMessage(`Error adding task: ${error}`);
     }
   }
 
+  /**
+   * Move a task, with its subtasks, before or after another task. The moved block takes
+   * the indentation of the target task.
+   */
   private async reorderTask(srcTaskId: string, targetTaskId: string, insertBefore: boolean = true) {
     const src = this.tasks.find(t => t.id === srcTaskId);
     const target = this.tasks.find(t => t.id === targetTaskId);
@@ -675,34 +895,40 @@ export class TaskTableProvider {
         const content = await fs.readFile(src.filePath, 'utf-8');
         const lines = content.split('\n');
 
-        const srcLine = lines[src.lineNumber];
-        lines.splice(src.lineNumber, 1);
+        const srcLength = this.getTaskBlockLength(lines, src.lineNumber);
+        if (target.lineNumber >= src.lineNumber && target.lineNumber < src.lineNumber + srcLength) {
+          // A task cannot be moved inside its own subtree
+          return;
+        }
+        const targetIndent = lines[target.lineNumber].match(/^(\s*)/)?.[1] || '';
+        let insertIdx = insertBefore
+          ? target.lineNumber
+          : target.lineNumber + this.getTaskBlockLength(lines, target.lineNumber);
+        const srcLines = lines.splice(src.lineNumber, srcLength);
 
         // Recalculate target index after removal
-        let insertIdx = src.lineNumber < target.lineNumber
-          ? target.lineNumber - 1
-          : target.lineNumber;
-        if (!insertBefore) { insertIdx += 1; }
+        if (src.lineNumber < insertIdx) { insertIdx -= srcLength; }
 
-        lines.splice(insertIdx, 0, srcLine);
-        await fs.writeFile(src.filePath, lines.join('\n'), 'utf-8');
+        lines.splice(insertIdx, 0, ...this.reindentBlock(srcLines, targetIndent));
+        await this.writeFile(src.filePath, lines.join('\n'));
       } else {
         const srcContent = await fs.readFile(src.filePath, 'utf-8');
         const srcLines = srcContent.split('\n');
-        const srcLine = srcLines[src.lineNumber];
-        srcLines.splice(src.lineNumber, 1);
-        await fs.writeFile(src.filePath, srcLines.join('\n'), 'utf-8');
+        const movedLines = srcLines.splice(src.lineNumber, this.getTaskBlockLength(srcLines, src.lineNumber));
+        await this.writeFile(src.filePath, srcLines.join('\n'));
 
         const targetContent = await fs.readFile(target.filePath, 'utf-8');
         const targetLines = targetContent.split('\n');
-        const insertIdx = insertBefore ? target.lineNumber : target.lineNumber + 1;
-        targetLines.splice(insertIdx, 0, srcLine);
-        await fs.writeFile(target.filePath, targetLines.join('\n'), 'utf-8');
+        const targetIndent = targetLines[target.lineNumber].match(/^(\s*)/)?.[1] || '';
+        const insertIdx = insertBefore
+          ? target.lineNumber
+          : target.lineNumber + this.getTaskBlockLength(targetLines, target.lineNumber);
+        targetLines.splice(insertIdx, 0, ...this.reindentBlock(movedLines, targetIndent));
+        await this.writeFile(target.filePath, targetLines.join('\n'));
       }
 
       await this.loadTasks();
       this.sendTasksUpdate();
-      vscode.commands.executeCommand('obsidianManager.refreshView');
     } catch (error) {
       vscode.window.showErrorMessage(`Error reordering task: ${error}`);
     }
@@ -730,8 +956,9 @@ export class TaskTableProvider {
     const projects: string[] = ['root'];
     try {
       const entries = await fs.readdir(this.vaultPath, { withFileTypes: true });
+      const isExcluded = excludedPathMatcher(this.vaultPath);
       for (const entry of entries) {
-        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+        if (entry.isDirectory() && !entry.name.startsWith('.') && !isExcluded(`${entry.name}/`)) {
           projects.push(entry.name);
         }
       }
@@ -760,16 +987,9 @@ export class TaskTableProvider {
       const content = await fs.readFile(task.filePath, 'utf-8');
       const lines = content.split('\n');
 
-      // Collect task line + tab-indented continuation lines
-      const taskLines: string[] = [lines[task.lineNumber]];
-      let j = task.lineNumber + 1;
-      while (j < lines.length) {
-        const nextLine = lines[j];
-        if (nextLine.startsWith('\t') && !nextLine.match(/^\t*- \[[ x]\]/i)) {
-          taskLines.push(nextLine);
-          j++;
-        } else { break; }
-      }
+      // Collect the task with its continuation lines and subtasks, moved to the top level
+      const blockLength = this.getTaskBlockLength(lines, task.lineNumber);
+      const taskLines = this.reindentBlock(lines.slice(task.lineNumber, task.lineNumber + blockLength), '');
 
       // Target dir
       const targetDir = newProject === 'root'
@@ -786,182 +1006,277 @@ export class TaskTableProvider {
       } catch (_e) {
         const addTitle = cfg.get<boolean>('addTitleToNewFiles', true);
         targetContent = addTitle ? `# ${task.date || 'tasks'}\n\n` : '';
-        await fs.writeFile(targetFilePath, targetContent, 'utf-8');
+        await this.writeFile(targetFilePath, targetContent);
       }
 
       const separator = targetContent.endsWith('\n') || targetContent === '' ? '' : '\n';
-      await fs.writeFile(targetFilePath, targetContent + separator + taskLines.join('\n') + '\n', 'utf-8');
+      await this.writeFile(targetFilePath, targetContent + separator + taskLines.join('\n') + '\n');
 
-      lines.splice(task.lineNumber, taskLines.length);
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      lines.splice(task.lineNumber, blockLength);
+      await this.writeFile(task.filePath, lines.join('\n'));
 
       await this.loadTasks();
       this.sendTasksUpdate();
-      vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-      vscode.commands.executeCommand('obsidianManager.refreshView');
       vscode.window.showInformationMessage(`Task spostato in ${newProject}/${path.basename(targetFilePath)}`);
     } catch (error) {
       vscode.window.showErrorMessage(`Error moving task to project: ${error}`);
     }
   }
 
-  private async rescheduleTask(taskId: string, newDate: string) {
+  /**
+   * Move a board card from column `from` to column `to` by rewriting its source: the checkbox
+   * for status columns, the file for project columns, the first hashtag for tag columns and the
+   * section for heading columns (the lanes of a Kanban note). In heading columns the card is
+   * inserted before `beforeTaskId` when it was dropped on another card.
+   */
+  private async moveCard(taskId: string, columns: string, from: string, to: string, beforeTaskId?: string) {
     const task = this.tasks.find(t => t.id === taskId);
     if (!task) { return; }
 
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(newDate)) {
-      vscode.window.showErrorMessage('Invalid date format');
-      return;
+    switch (columns) {
+      case 'status': {
+        const status = findTaskStatus(to);
+        if (status && status.symbol !== task.status) {
+          await this.setTaskStatus(task, status);
+        }
+        break;
+      }
+      case 'project':
+        if (to && to !== task.project) {
+          await this.moveTaskToProject(taskId, to);
+        }
+        break;
+      case 'tag':
+        if (to !== from) {
+          await this.retagTask(task, from, to);
+        }
+        break;
+      case 'heading':
+        if (to) {
+          await this.moveTaskToHeading(task, to, this.tasks.find(t => t.id === beforeTaskId));
+        }
+        break;
     }
+  }
 
-    if (newDate === task.date) { return; }
-
+  /**
+   * Replace the hashtag `from` of a task with `to`; an empty `from` adds the tag, an empty `to` removes it.
+   */
+  private async retagTask(task: Task, from: string, to: string) {
     try {
       const content = await fs.readFile(task.filePath, 'utf-8');
       const lines = content.split('\n');
-
-      // Collect task line + tab-indented continuation lines
-      const taskLines: string[] = [lines[task.lineNumber]];
-      let j = task.lineNumber + 1;
-      while (j < lines.length) {
-        const nextLine = lines[j];
-        if (nextLine.startsWith('\t') && !nextLine.match(/^\t*- \[[ x]\]/i)) {
-          taskLines.push(nextLine);
-          j++;
-        } else {
-          break;
-        }
+      let line = lines[task.lineNumber];
+      const hasTag = (tag: string) => this.extractHashtags(line).some(t => t.toLowerCase() === tag.toLowerCase());
+
+      if (from) {
+        const fromRegex = new RegExp(from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') + '(?![a-zA-Z0-9_])\\s*', 'i');
+        line = line.replace(fromRegex, to && !hasTag(to) ? `${to} ` : '').replace(/\s+$/, '');
+      } else if (to && !hasTag(to)) {
+        // Before a trailing ^block-id, if any
+        line = line.replace(/(\s\^[A-Za-z0-9-]+)?\s*$/, ` ${to}$1`);
       }
 
-      // Target file: same project directory, named YYYY-MM-DD.md
-      const targetDir = path.dirname(task.filePath);
-      const targetFilePath = path.join(targetDir, `${newDate}.md`);
+      lines[task.lineNumber] = line;
+      await this.writeFile(task.filePath, lines.join('\n'));
+      await this.loadTasks();
+      this.sendTasksUpdate();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error changing task tag: ${error}`);
+    }
+  }
 
-      let targetContent = '';
-      try {
-        targetContent = await fs.readFile(targetFilePath, 'utf-8');
-      } catch (_e) {
-        // File doesn't exist — create it
-        const cfg = vscode.workspace.getConfiguration('obsidianManager');
-        const addTitle = cfg.get<boolean>('addTitleToNewFiles', true);
-        targetContent = addTitle ? `# ${newDate}\n\n` : '';
-        await fs.writeFile(targetFilePath, targetContent, 'utf-8');
+  /**
+   * Move a task, with its subtasks, to the section under `heading` in its own note, adding the
+   * section when the note has none. Moving into or out of a Kanban lane marked complete checks
+   * or unchecks it, as the Kanban plugin does, like any status change (done date, subtasks,
+   * next occurrence, left in the lane the task came from).
+   */
+  private async moveTaskToHeading(task: Task, heading: string, before?: Task) {
+    try {
+      const content = await fs.readFile(task.filePath, 'utf-8');
+      const lines = content.split('\n');
+      const sections = findSections(lines);
+      const fromComplete = !!sections.find(s => s.title === task.heading)?.complete;
+      const toComplete = !!sections.find(s => s.title === heading)?.complete;
+
+      let lineNumber = task.lineNumber;
+      let beforeLine = before?.lineNumber;
+      const next = toComplete !== fromComplete ? getTaskStatuses().find(s => s.type === (toComplete ? 'done' : 'todo')) : undefined;
+      if (next) {
+        const added = await this.applyTaskStatus(task, next, lines);
+        lineNumber += added;
+        if (beforeLine !== undefined && beforeLine >= task.lineNumber) beforeLine += added;
       }
 
-      // Append task to target file
-      const separator = targetContent.endsWith('\n') || targetContent === '' ? '' : '\n';
-      await fs.writeFile(targetFilePath, targetContent + separator + taskLines.join('\n') + '\n', 'utf-8');
+      const blockLength = this.getTaskBlockLength(lines, lineNumber);
+      const block = this.reindentBlock(lines.splice(lineNumber, blockLength), '');
 
-      // Remove task from source file
-      lines.splice(task.lineNumber, taskLines.length);
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      const section = findSections(lines).find(s => s.title === heading) || addSection(lines, heading);
+      let insertAt = sectionInsertLine(lines, section);
+      if (before && beforeLine !== undefined && before.filePath === task.filePath && before.heading === heading && before.id !== task.id) {
+        insertAt = beforeLine > lineNumber ? beforeLine - blockLength : beforeLine;
+      }
+      lines.splice(insertAt, 0, ...block);
 
+      await this.writeFile(task.filePath, lines.join('\n'));
       await this.loadTasks();
       this.sendTasksUpdate();
-      vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-      vscode.commands.executeCommand('obsidianManager.refreshView');
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error moving task: ${error}`);
+    }
+  }
 
-      vscode.window.showInformationMessage(`Task spostato in ${path.basename(targetFilePath)}`);
+  /**
+   * Ask for the text of a new card and add it at the end of a section (a Kanban lane) of `filePath`.
+   */
+  private async addCard(filePath: string, heading: string) {
+    const text = await vscode.window.showInputBox({
+      title: `Add card to ${heading}`,
+      prompt: 'Task text'
+    });
+    if (!text || !text.trim()) { return; }
+
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const lines = content.split('\n');
+      const section = findSections(lines).find(s => s.title === heading) || addSection(lines, heading);
+      lines.splice(sectionInsertLine(lines, section), 0, `- [${section.complete ? 'x' : ' '}] ${text.trim()}`);
 
+      await this.writeFile(filePath, lines.join('\n'));
+      await this.loadTasks();
+      this.sendTasksUpdate();
     } catch (error) {
-      vscode.window.showErrorMessage(`Error rescheduling task: ${error}`);
+      vscode.window.showErrorMessage(`Error adding card: ${error}`);
     }
   }
 
-  private async moveTask(taskId: string) {
+  /**
+   * Move the edges of a task's timeline bar by whole days. The bar starts at the 🛫 start date,
+   * else the ⏳ scheduled date, else the date of its daily note, which then moves the task to
+   * another daily note like rescheduleTask; it ends at the 📅 due date. A bar with a single date
+   * gets the second one when it is stretched.
+   */
+  private async shiftTaskDates(taskId: string, startDays: number, endDays: number) {
     const task = this.tasks.find(t => t.id === taskId);
-    if (!task) {
-      return;
-    }
+    if (!task) { return; }
+
+    const fromNote = !task.start && !task.scheduled && !!task.date;
+    const start = task.start || task.scheduled || task.date || task.due;
+    if (!start) { return; }
+    const newStart = addDays(start, startDays);
+    const newEnd = addDays(task.due || start, endDays);
 
     try {
-      const cfg = vscode.workspace.getConfiguration('obsidianManager');
-      
-      // Read source file
       const content = await fs.readFile(task.filePath, 'utf-8');
       const lines = content.split('\n');
-      
-      // Collect the task with its children (indented lines)
-      const taskLines: string[] = [lines[task.lineNumber]];
-      const taskMatch = lines[task.lineNumber].match(/^(\s*)-\s*\[([ xX])\]/);
-      if (!taskMatch) {
-        vscode.window.showErrorMessage('Invalid task format');
+      let line = lines[task.lineNumber];
+      if ((task.due || newEnd !== newStart) && newEnd !== task.due) {
+        line = setDateField(line, 'due', newEnd);
+      }
+      if (!fromNote && (task.start || task.scheduled || newStart !== newEnd) && newStart !== (task.start || task.scheduled)) {
+        line = setDateField(line, !task.start && task.scheduled ? 'scheduled' : 'start', newStart);
+      }
+      if (line !== lines[task.lineNumber]) {
+        lines[task.lineNumber] = line;
+        await this.writeFile(task.filePath, lines.join('\n'));
+      }
+
+      if (fromNote && newStart !== task.date) {
+        // The task line is unchanged apart from the due date, so rescheduleTask finds it where it was
+        await this.rescheduleTask(taskId, newStart);
         return;
       }
-      
-      const taskIndent = taskMatch[1].length;
-      
-      // Collect all subsequent lines that are more indented (children)
+      await this.loadTasks();
+      this.sendTasksUpdate();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error changing task dates: ${error}`);
+    }
+  }
+
+  private async rescheduleTask(taskId: string, newDate: string) {
+    const task = this.tasks.find(t => t.id === taskId);
+    if (!task) { return; }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(newDate)) {
+      vscode.window.showErrorMessage('Invalid date format');
+      return;
+    }
+
+    if (newDate === task.date) { return; }
+
+    try {
+      const content = await fs.readFile(task.filePath, 'utf-8');
+      const lines = content.split('\n');
+
+      // Collect task line + tab-indented continuation lines
+      const taskLines: string[] = [lines[task.lineNumber]];
       let j = task.lineNumber + 1;
       while (j < lines.length) {
         const nextLine = lines[j];
-        
-        // Empty lines are included if they're between indented content
-        if (nextLine.trim() === '') {
-          // Check if there's more indented content after this empty line
-          let k = j + 1;
-          let hasMoreIndentedContent = false;
-          while (k < lines.length && lines[k].trim() === '') k++;
-          if (k < lines.length) {
-            const nextNonEmptyLine = lines[k];
-            const nextIndentMatch = nextNonEmptyLine.match(/^(\s*)/);
-            if (nextIndentMatch && nextIndentMatch[1].length > taskIndent) {
-              hasMoreIndentedContent = true;
-            }
-          }
-          if (hasMoreIndentedContent) {
-            taskLines.push(nextLine);
-            j++;
-            continue;
-          } else {
-            break;
-          }
-        }
-        
-        // Check indentation of non-empty line
-        const indentMatch = nextLine.match(/^(\s*)/)!;
-        const nextIndent = indentMatch[1].length;
-        
-        // If more indented than parent task, it's a child
-        if (nextIndent > taskIndent) {
+        if (nextLine.startsWith('\t') && !nextLine.match(/^\t*- \[.\]/)) {
           taskLines.push(nextLine);
           j++;
         } else {
-          // Equal or less indentation - not a child
           break;
         }
       }
+
+      // Target file: same project directory, named YYYY-MM-DD.md
+      const targetDir = path.dirname(task.filePath);
+      const targetFilePath = path.join(targetDir, `${newDate}.md`);
+
+      let targetContent = '';
+      try {
+        targetContent = await fs.readFile(targetFilePath, 'utf-8');
+      } catch (_e) {
+        // File doesn't exist — create it
+        const cfg = vscode.workspace.getConfiguration('obsidianManager');
+        const addTitle = cfg.get<boolean>('addTitleToNewFiles', true);
+        targetContent = addTitle ? `# ${newDate}\n\n` : '';
+        await this.writeFile(targetFilePath, targetContent);
+      }
+
+      // Append task to target file
+      const separator = targetContent.endsWith('\n') || targetContent === '' ? '' : '\n';
+      await this.writeFile(targetFilePath, targetContent + separator + taskLines.join('\n') + '\n');
+
+      // Remove task from source file
+      lines.splice(task.lineNumber, taskLines.length);
+      await this.writeFile(task.filePath, lines.join('\n'));
+
+      await this.loadTasks();
+      this.sendTasksUpdate();
+
+      vscode.window.showInformationMessage(`Task spostato in ${path.basename(targetFilePath)}`);
+
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error rescheduling task: ${error}`);
+    }
+  }
+
+  private async moveTask(taskId: string) {
+    const task = this.tasks.find(t => t.id === taskId);
+    if (!task) {
+      return;
+    }
+
+    try {
+      const cfg = vscode.workspace.getConfiguration('obsidianManager');
       
-      // Get all markdown files
-      const allFiles: string[] = [];
+      // Read source file
+      const content = await fs.readFile(task.filePath, 'utf-8');
+      const lines = content.split('\n');
       
-      async function scanDirectory(dir: string, depth: number = 0) {
-        // Safety check: prevent infinite recursion
-        if (depth > 50) {
-          return;
-        }
-        
-        try {
-          const entries = await fs.readdir(dir, { withFileTypes: true });
-          for (const entry of entries) {
-            // Skip hidden files and folders
-            if (entry.name.startsWith('.')) {
-              continue;
-            }
-            
-            const fullPath = path.join(dir, entry.name);
-            if (entry.isDirectory()) {
-              await scanDirectory(fullPath, depth + 1);
-            } else if (entry.isFile() && entry.name.endsWith('.md')) {
-              allFiles.push(fullPath);
-            }
-          }
-        } catch (e) {
-          // Ignore errors
-        }
+      // Collect the task with its children (indented lines)
+      if (!lines[task.lineNumber].match(/^(\s*)-\s*\[(.)\]/)) {
+        vscode.window.showErrorMessage('Invalid task format');
+        return;
       }
+      const taskLines = lines.slice(task.lineNumber, task.lineNumber + this.getTaskBlockLength(lines, task.lineNumber));
       
-      await scanDirectory(this.vaultPath);
+      // Get all markdown files
+      const allFiles = this.findMarkdownNotes(false).map(note => note.filePath);
       
       // Create quick pick items
       const quickPickItems: vscode.QuickPickItem[] = [];
@@ -1070,7 +1385,7 @@ export class TaskTableProvider {
             const fileNameWithoutExt = path.basename(targetFilePath, '.md');
             initialContent = `# ${fileNameWithoutExt}\n\n`;
           }
-          await fs.writeFile(targetFilePath, initialContent);
+          await this.writeFile(targetFilePath, initialContent);
         }
       } else {
         targetFilePath = selectedItem.detail!;
@@ -1085,22 +1400,19 @@ export class TaskTableProvider {
       const contextHeader = `\n\n## Moved from [[${sourceFileNameWithoutExt}]]\n\n`;
       
       // Append task to target file
-      const tasksText = taskLines.join('\n');
+      // A subtask moved on its own becomes a top-level task
+      const tasksText = this.reindentBlock(taskLines, '').join('\n');
       targetContent += contextHeader + tasksText + '\n';
-      await fs.writeFile(targetFilePath, targetContent);
+      await this.writeFile(targetFilePath, targetContent);
       
       // Remove task from source file (delete all task lines including children)
       lines.splice(task.lineNumber, taskLines.length);
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      await this.writeFile(task.filePath, lines.join('\n'));
       
       // Reload tasks and send updated data
       await this.loadTasks();
       this.sendTasksUpdate();
       
-      // Refresh hashtags and tree
-      vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-      vscode.commands.executeCommand('obsidianManager.refreshView');
-      
       // Show success message
       vscode.window.showInformationMessage(
         `Task moved to ${path.basename(targetFilePath)}`
@@ -1227,20 +1539,16 @@ export class TaskTableProvider {
       const content = await fs.readFile(task.filePath, 'utf-8');
       const lines = content.split('\n');
       const line = lines[task.lineNumber];
-      const checkbox = task.status ? '- [x]' : '- [ ]';
+      const checkbox = `- [${task.status}]`;
       const indent = line.match(/^(\s*)/)?.[1] || '';
       
       lines[task.lineNumber] = `${indent}${checkbox} ${newTaskText}`;
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      await this.writeFile(task.filePath, lines.join('\n'));
       
       // Reload tasks and update view
       await this.loadTasks();
       this.sendTasksUpdate();
       
-      // Refresh hashtags tree
-      // Refresh hashtags to update count
-      vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-      
     } catch (error) {
       vscode.window.showErrorMessage(`Error editing tags: ${error}`);
     }
@@ -1267,20 +1575,16 @@ export class TaskTableProvider {
       const content = await fs.readFile(task.filePath, 'utf-8');
       const lines = content.split('\n');
       const line = lines[task.lineNumber];
-      const checkbox = task.status ? '- [x]' : '- [ ]';
+      const checkbox = `- [${task.status}]`;
       const indent = line.match(/^(\s*)/)?.[1] || '';
       
       lines[task.lineNumber] = `${indent}${checkbox} ${newTaskText}`;
-      await fs.writeFile(task.filePath, lines.join('\n'), 'utf-8');
+      await this.writeFile(task.filePath, lines.join('\n'));
       
       // Reload tasks and update view
       await this.loadTasks();
       this.sendTasksUpdate();
       
-      // Refresh hashtags tree
-      // Refresh hashtags to update count
-      vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-      
     } catch (error) {
       vscode.window.showErrorMessage(`Error removing tag: ${error}`);
     }
@@ -1314,19 +1618,13 @@ export class TaskTableProvider {
           lines.splice(task.lineNumber, 1);
         }
         
-        await fs.writeFile(filePath, lines.join('\n'), 'utf-8');
+        await this.writeFile(filePath, lines.join('\n'));
       }
       
       // Reload tasks and update view
       await this.loadTasks();
       this.sendTasksUpdate();
       
-      // Refresh vault tree to show updated files
-      await vscode.commands.executeCommand('obsidianManager.refreshView');
-      
-      // Refresh hashtags tree
-      vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-      
       vscode.window.showInformationMessage(`Successfully deleted ${taskIds.length} task(s)`);
       
     } catch (error) {
@@ -1337,7 +1635,7 @@ export class TaskTableProvider {
   private async bulkMoveTasks(taskIds: string[]): Promise<void> {
     try {
       // Get the list of all date-prefixed markdown files in the vault
-      const allFiles = await this.findMarkdownFiles(this.vaultPath, true, true);
+      const allFiles = this.findMarkdownNotes(true).map(note => note.filePath);
       
       // Create quick pick items with relative paths
       interface FileQuickPickItem extends vscode.QuickPickItem {
@@ -1445,7 +1743,7 @@ export class TaskTableProvider {
             content = `# ${title}\n\n`;
           }
           
-          await fs.writeFile(destinationFilePath, content, 'utf-8');
+          await this.writeFile(destinationFilePath, content);
           fileCreated = true;
         }
       } else if (result.file) {
@@ -1455,11 +1753,16 @@ export class TaskTableProvider {
         return;
       }
       
-      // Collect tasks to move
+      // Collect tasks to move; subtasks of a selected task move with it
+      const selected = new Set(taskIds);
+      const hasSelectedAncestor = (task: Task): boolean => {
+        const parent = task.parentId ? this.tasks.find(t => t.id === task.parentId) : undefined;
+        return !!parent && (selected.has(parent.id) || hasSelectedAncestor(parent));
+      };
       const tasksToMove: Task[] = [];
       for (const taskId of taskIds) {
         const task = this.tasks.find(t => t.id === taskId);
-        if (task) {
+        if (task && !hasSelectedAncestor(task)) {
           tasksToMove.push(task);
         }
       }
@@ -1481,8 +1784,8 @@ export class TaskTableProvider {
       const destContent = await fs.readFile(destinationFilePath, 'utf-8');
       const destLines = destContent.split('\n');
       
-      // Collect task lines to append
-      const taskLinesToAppend: string[] = [];
+      // Collect task blocks to append
+      const taskBlocksToAppend: string[][] = [];
       
       // Process each source file
       for (const [sourceFilePath, tasks] of tasksBySourceFile.entries()) {
@@ -1492,41 +1795,34 @@ export class TaskTableProvider {
         // Sort tasks by line number in descending order
         tasks.sort((a, b) => b.lineNumber - a.lineNumber);
         
-        // Extract and delete lines from source
+        // Extract and delete task blocks (with their subtasks) from source
         for (const task of tasks) {
-          const line = sourceLines[task.lineNumber];
-          taskLinesToAppend.push(line);
-          sourceLines.splice(task.lineNumber, 1);
+          const block = sourceLines.splice(task.lineNumber, this.getTaskBlockLength(sourceLines, task.lineNumber));
+          taskBlocksToAppend.push(this.reindentBlock(block, ''));
         }
         
         // Write back to source file
-        await fs.writeFile(sourceFilePath, sourceLines.join('\n'), 'utf-8');
+        await this.writeFile(sourceFilePath, sourceLines.join('\n'));
       }
       
       // Append tasks to destination file
-      if (taskLinesToAppend.length > 0) {
+      if (taskBlocksToAppend.length > 0) {
         // Add a newline if the file doesn't end with one
         if (destLines[destLines.length - 1] !== '') {
           destLines.push('');
         }
         
         // Append tasks (they were collected in reverse order, so reverse them back)
-        taskLinesToAppend.reverse();
-        destLines.push(...taskLinesToAppend);
+        taskBlocksToAppend.reverse();
+        taskBlocksToAppend.forEach(block => destLines.push(...block));
         
-        await fs.writeFile(destinationFilePath, destLines.join('\n'), 'utf-8');
+        await this.writeFile(destinationFilePath, destLines.join('\n'));
       }
       
       // Reload tasks and update view
       await this.loadTasks();
       this.sendTasksUpdate();
       
-      // Refresh vault tree to show new/updated files
-      await vscode.commands.executeCommand('obsidianManager.refreshView');
-      
-      // Refresh hashtags tree
-      vscode.commands.executeCommand('obsidianManager.refreshHashtags');
-      
       vscode.window.showInformationMessage(`Successfully moved ${taskIds.length} task(s) to ${destinationFileName}`);
       
     } catch (error) {
@@ -1588,8 +1884,9 @@ export class TaskTableProvider {
       const allFolders = new Set<string>(['root']);
       try {
         const entries = await fs.readdir(this.vaultPath, { withFileTypes: true });
+        const isExcluded = excludedPathMatcher(this.vaultPath);
         for (const entry of entries) {
-          if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          if (entry.isDirectory() && !entry.name.startsWith('.') && !isExcluded(`${entry.name}/`)) {
             allFolders.add(entry.name);
           }
         }
@@ -1650,7 +1947,7 @@ export class TaskTableProvider {
     this.panel.webview.html = this.getWebviewContent();
   }
 
-  private sendTasksUpdate(focusTaskId?: string, filterDate?: string, filterProject?: string, filterHashtag?: string, filterFile?: string) {
+  private sendTasksUpdate(focusTaskId?: string, filterDate?: string, filterProject?: string, filterHashtag?: string, filterFile?: string, filterQuery?: string) {
     if (!this.panel) {
       return;
     }
@@ -1659,15 +1956,116 @@ export class TaskTableProvider {
     this.panel.webview.postMessage({
       command: 'updateTasks',
       tasks: this.tasks,
+      statuses: getTaskStatuses(),
       projects: [...new Set(this.tasks.map(t => t.project))].sort(),
+      kanbanLanes: this.kanbanLanes,
       focusTaskId: focusTaskId,
       filterDate: filterDate,
       filterProject: filterProject,
       filterHashtag: filterHashtag,
-      filterFile: filterFile
+      filterFile: filterFile,
+      filterQuery: filterQuery,
+      timedTaskId: this.timedTaskId()
     });
   }
 
+  private sendTimerState() {
+    this.panel?.webview.postMessage({ command: 'timerState', timedTaskId: this.timedTaskId() });
+  }
+
+  /**
+   * Id of the task the running timer is on: the task of its line number, else the one whose
+   * line it started on.
+   */
+  private timedTaskId(): string | undefined {
+    const timer = this.timeTracker.running;
+    if (!timer) return undefined;
+    const inFile = this.tasks.filter(t => t.filePath === timer.filePath);
+    return (inFile.find(t => t.lineNumber === timer.lineNumber && t.originalLine === timer.line)
+      || inFile.find(t => t.originalLine === timer.line)
+      || inFile.find(t => t.lineNumber === timer.lineNumber))?.id;
+  }
+
+  /**
+   * Start the timer on a task, or stop it (logging the time) when it is already on it.
+   */
+  private async toggleTaskTimer(taskId: string) {
+    const task = this.tasks.find(t => t.id === taskId);
+    if (!task) {
+      return;
+    }
+    try {
+      if (this.timedTaskId() === taskId) {
+        await this.timeTracker.stop();
+      } else {
+        await this.timeTracker.start(task.filePath, task.lineNumber);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error toggling timer: ${error}`);
+    }
+  }
+
+  /**
+   * Send the saved views to the webview's dropdown, optionally switching to one of them.
+   */
+  private async sendViews(applyView?: string) {
+    const views = await loadTaskViews(this.vaultPath);
+    if (!this.panel) {
+      return;
+    }
+    this.panel.webview.postMessage({
+      command: 'setViews',
+      views: views,
+      applyView: applyView
+    });
+  }
+
+  /**
+   * Ask for a name and a location, then save the table state sent by the webview as a view.
+   */
+  private async saveView(state: Omit<TaskView, 'name'>, currentName?: string) {
+    try {
+      const name = (await vscode.window.showInputBox({
+        prompt: 'Name of the task view',
+        placeHolder: 'This week @work',
+        value: currentName || '',
+        validateInput: value => value.trim() ? undefined : 'Enter a name'
+      }))?.trim();
+      if (!name) {
+        return;
+      }
+
+      const existing = (await loadTaskViews(this.vaultPath)).find(v => v.name === name);
+      const locations: (vscode.QuickPickItem & { location: TaskViewLocation })[] = [
+        { label: 'Settings', description: 'obsidianManager.taskTableViews (workspace settings)', location: 'settings' },
+        { label: 'Vault', description: `${TASK_VIEWS_FILE}, shared with everyone using the vault`, location: 'vault' }
+      ];
+      if (existing?.location === 'vault') {
+        locations.reverse();
+      }
+      const picked = await vscode.window.showQuickPick(locations, {
+        placeHolder: existing ? `Where to save "${name}" (replaces the existing view)` : `Where to save "${name}"`
+      });
+      if (!picked) {
+        return;
+      }
+
+      await saveTaskView({ ...state, name }, picked.location, this.vaultPath);
+      await this.sendViews(name);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error saving task view: ${error}`);
+    }
+  }
+
+  private async deleteView(name: string, location: TaskViewLocation) {
+    try {
+      await deleteTaskView(name, location, this.vaultPath);
+      await this.sendViews();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error deleting task view: ${error}`);
+    }
+  }
+
   private getHideCompletedDefault(): boolean {
     const cfg = vscode.workspace.getConfiguration('obsidianManager');
     return cfg.get<boolean>('taskTableHideCompletedByDefault', true);
@@ -1693,6 +2091,14 @@ export class TaskTableProvider {
     
     // Get hideCompleted default from settings
     const hideCompletedDefault = this.getHideCompletedDefault();
+
+    // Used to highlight overdue tasks
+    const today = toIsoDate(new Date());
+
+    // Checkbox statuses for the status column and filter
+    const statuses = getTaskStatuses();
+    const statusOf = (symbol: string) => findTaskStatus(symbol, statuses) || statuses[0];
+    const isClosed = (symbol: string) => ['done', 'cancelled'].includes(statusOf(symbol).type);
     
     // Helper function to escape HTML attributes
     const escapeHtml = (str: string) => {
@@ -1970,11 +2376,386 @@ export class TaskTableProvider {
       opacity: 0.6;
       margin: 0;
     }
-    
-    .clear-btn:hover {
-      opacity: 1;
-      color: var(--vscode-errorForeground);
+    
+    .clear-btn:hover {
+      opacity: 1;
+      color: var(--vscode-errorForeground);
+    }
+
+    .query-filter-group {
+      flex: 1;
+    }
+
+    .query-input-container {
+      flex: 1;
+      max-width: 800px;
+    }
+
+    .query-input-wrapper {
+      position: relative;
+      flex: 1;
+    }
+
+    .filters .query-input-wrapper input[type="text"] {
+      width: 100%;
+      box-sizing: border-box;
+      font-family: var(--vscode-editor-font-family);
+    }
+
+    .query-input-container.has-errors {
+      border-color: var(--vscode-inputValidation-errorBorder);
+    }
+
+    /* Mirror of the query text drawn over the input: only the error underlines are visible */
+    .query-highlight {
+      position: absolute;
+      inset: 0;
+      padding: 4px 8px;
+      border: 1px solid transparent;
+      font-family: var(--vscode-editor-font-family);
+      font-size: inherit;
+      white-space: pre;
+      overflow: hidden;
+      color: transparent;
+      pointer-events: none;
+    }
+
+    .query-highlight mark {
+      background: transparent;
+      color: transparent;
+      text-decoration: underline wavy var(--vscode-editorError-foreground);
+    }
+
+    .query-errors {
+      color: var(--vscode-errorForeground);
+      font-size: 11px;
+    }
+
+    .query-suggestions {
+      position: absolute;
+      top: 100%;
+      left: 0;
+      z-index: 20;
+      min-width: 220px;
+      max-height: 240px;
+      overflow-y: auto;
+      margin: 2px 0 0 0;
+      padding: 2px 0;
+      list-style: none;
+      background-color: var(--vscode-editorSuggestWidget-background, var(--vscode-dropdown-background));
+      border: 1px solid var(--vscode-editorSuggestWidget-border, var(--vscode-dropdown-border));
+      font-family: var(--vscode-editor-font-family);
+    }
+
+    .query-suggestions li {
+      padding: 2px 8px;
+      cursor: pointer;
+      white-space: nowrap;
+    }
+
+    .query-suggestions li.active {
+      background-color: var(--vscode-editorSuggestWidget-selectedBackground, var(--vscode-list-activeSelectionBackground));
+      color: var(--vscode-editorSuggestWidget-selectedForeground, var(--vscode-list-activeSelectionForeground));
+    }
+
+    .view-filter-group {
+      position: relative;
+    }
+
+    .view-btn {
+      display: inline-flex;
+      align-items: center;
+      padding: 4px 6px;
+      background: transparent;
+      color: var(--vscode-foreground);
+      border: 1px solid transparent;
+      border-radius: 2px;
+      cursor: pointer;
+    }
+
+    .view-btn:hover:not(:disabled) {
+      background-color: var(--vscode-toolbar-hoverBackground);
+    }
+
+    .view-btn:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+
+    .columns-menu {
+      display: none;
+      position: absolute;
+      top: 100%;
+      right: 0;
+      z-index: 20;
+      flex-direction: column;
+      gap: 4px;
+      padding: 6px 10px;
+      background-color: var(--vscode-dropdown-background);
+      border: 1px solid var(--vscode-dropdown-border);
+      white-space: nowrap;
+    }
+
+    .columns-menu.open {
+      display: flex;
+    }
+
+    .columns-menu label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      cursor: pointer;
+    }
+
+    /* Board layout */
+    body:not(.board-layout) .board,
+    body:not(.board-layout) .board-only,
+    body.board-layout #tasksTable,
+    body.board-layout .empty-message {
+      display: none;
+    }
+
+    .board {
+      display: flex;
+      gap: 12px;
+      align-items: flex-start;
+      overflow-x: auto;
+      padding-bottom: 12px;
+    }
+
+    .board-column {
+      flex: 0 0 260px;
+      display: flex;
+      flex-direction: column;
+      max-height: calc(100vh - 220px);
+      background-color: var(--vscode-sideBar-background);
+      border: 1px solid var(--vscode-widget-border, rgba(128,128,128,0.2));
+      border-radius: 4px;
+    }
+
+    .board-column.drag-over {
+      outline: 1px dashed var(--vscode-focusBorder);
+    }
+
+    .board-column-header {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 8px 10px;
+      font-size: 11px;
+      font-weight: 700;
+      letter-spacing: 0.08em;
+      text-transform: uppercase;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .board-column-count {
+      margin-left: auto;
+      font-weight: normal;
+    }
+
+    .board-cards {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      min-height: 24px;
+      padding: 0 8px 8px 8px;
+      overflow-y: auto;
+    }
+
+    .board-card {
+      padding: 6px 8px;
+      background-color: var(--vscode-editor-background);
+      border: 1px solid var(--vscode-widget-border, rgba(128,128,128,0.2));
+      border-radius: 3px;
+      cursor: grab;
+    }
+
+    .board-card.dragging {
+      opacity: 0.4;
+    }
+
+    .board-card.drag-over-before {
+      box-shadow: 0 -2px 0 var(--vscode-focusBorder);
+    }
+
+    .board-card.task-completed .board-card-text {
+      text-decoration: line-through;
+      opacity: 0.6;
+    }
+
+    .board-card-title {
+      display: flex;
+      align-items: flex-start;
+      gap: 6px;
+    }
+
+    .board-card-meta {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+      margin-top: 4px;
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .board-card-due.overdue {
+      color: var(--vscode-errorForeground);
+    }
+
+    .board-card-file {
+      cursor: pointer;
+    }
+
+    .board-card-file:hover {
+      text-decoration: underline;
+    }
+
+    .board-add-card {
+      width: auto;
+      margin: 0 8px 8px 8px;
+    }
+
+    /* Timeline layout */
+    body:not(.timeline-layout) .timeline,
+    body:not(.timeline-layout) .timeline-only,
+    body.timeline-layout #tasksTable,
+    body.timeline-layout .empty-message {
+      display: none;
+    }
+
+    .timeline {
+      overflow-x: auto;
+      padding-bottom: 12px;
+    }
+
+    .timeline-inner {
+      position: relative;
+    }
+
+    .timeline-header,
+    .timeline-group,
+    .timeline-row {
+      display: flex;
+      height: 26px;
+      border-bottom: 1px solid var(--vscode-widget-border, var(--vscode-panel-border));
+    }
+
+    .timeline-header {
+      height: 22px;
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .timeline-label {
+      position: sticky;
+      left: 0;
+      z-index: 2;
+      flex: 0 0 ${TIMELINE_LABEL_WIDTH}px;
+      box-sizing: border-box;
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      padding: 0 8px;
+      overflow: hidden;
+      white-space: nowrap;
+      background-color: var(--vscode-editor-background);
+      border-right: 1px solid var(--vscode-widget-border, var(--vscode-panel-border));
+    }
+
+    .timeline-group .timeline-label {
+      font-weight: 600;
+    }
+
+    .timeline-group-count {
+      font-weight: normal;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .timeline-row .timeline-label {
+      cursor: pointer;
+    }
+
+    .timeline-label-text {
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .timeline-track {
+      position: relative;
+      flex: 0 0 auto;
+      background-image: linear-gradient(to right, var(--vscode-widget-border, rgba(128, 128, 128, 0.2)) 1px, transparent 1px);
+      background-size: var(--timeline-grid) 100%;
+    }
+
+    .timeline-tick {
+      position: absolute;
+      top: 4px;
+      padding-left: 3px;
+      white-space: nowrap;
+    }
+
+    .timeline-tick.weekend {
+      opacity: 0.6;
+    }
+
+    .timeline-bar {
+      position: absolute;
+      top: 5px;
+      height: 16px;
+      box-sizing: border-box;
+      border-radius: 3px;
+      background-color: var(--vscode-button-background);
+      cursor: grab;
+    }
+
+    .timeline-bar.overdue {
+      background-color: var(--vscode-errorForeground);
+    }
+
+    .timeline-bar.task-completed {
+      opacity: 0.4;
+    }
+
+    .timeline-bar.dragging {
+      cursor: grabbing;
+      outline: 1px solid var(--vscode-focusBorder);
+    }
+
+    .timeline-handle {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      width: 6px;
+      cursor: ew-resize;
+    }
+
+    .timeline-handle-start {
+      left: 0;
+    }
+
+    .timeline-handle-end {
+      right: 0;
+    }
+
+    .timeline-today {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      z-index: 1;
+      width: 2px;
+      background-color: var(--vscode-editorError-foreground, var(--vscode-errorForeground));
+      pointer-events: none;
+    }
+
+    .timeline-undated {
+      margin-top: 6px;
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
     }
+
+    /* Columns hidden by the column picker or a saved view */
+    ${HIDEABLE_COLUMNS.map(c => `body.hide-col-${c.key} .${c.key}-cell { display: none; }`).join('\n    ')}
     
     table {
       width: 100%;
@@ -2085,40 +2866,23 @@ export class TaskTableProvider {
       height: 18px;
     }
     
-    .task-status-checkbox {
+    .task-status-icon {
       cursor: pointer;
-      width: 20px;
-      height: 20px;
-      appearance: none;
-      -webkit-appearance: none;
-      -moz-appearance: none;
-      border: 2px solid var(--vscode-button-background);
-      border-radius: 3px;
-      background-color: transparent;
-      position: relative;
-      transition: all 0.15s ease;
+      font-size: 18px;
+      color: var(--vscode-button-background);
     }
     
-    .task-status-checkbox:hover {
-      border-color: var(--vscode-button-hoverBackground);
-      background-color: rgba(var(--vscode-button-background), 0.1);
+    .task-status-icon:hover {
+      opacity: 0.8;
     }
     
-    .task-status-checkbox:checked {
-      background-color: var(--vscode-button-background);
-      border-color: var(--vscode-button-background);
+    .task-status-icon.status-inProgress {
+      color: var(--vscode-charts-yellow);
     }
     
-    .task-status-checkbox:checked::after {
-      content: '';
-      position: absolute;
-      left: 4px;
-      top: 0px;
-      width: 4px;
-      height: 10px;
-      border: solid var(--vscode-button-foreground);
-      border-width: 0 2px 2px 0;
-      transform: rotate(45deg);
+    .task-status-icon.status-cancelled,
+    .task-status-icon.status-nonTask {
+      color: var(--vscode-descriptionForeground);
     }
     
     /* Style for completed tasks */
@@ -2132,6 +2896,8 @@ export class TaskTableProvider {
     }
     
     tr.task-completed .date-cell,
+    tr.task-completed .due-cell,
+    tr.task-completed .scheduled-cell,
     tr.task-completed .task-project-label {
       color: var(--vscode-descriptionForeground);
     }
@@ -2229,6 +2995,56 @@ export class TaskTableProvider {
     .date-text:hover {
       text-decoration: underline;
     }
+
+    .due-cell,
+    .scheduled-cell {
+      width: 100px;
+      font-family: monospace;
+      white-space: nowrap;
+    }
+
+    .due-cell.overdue {
+      color: var(--vscode-errorForeground);
+    }
+
+    .priority-cell {
+      width: 48px;
+      text-align: center;
+      white-space: nowrap;
+    }
+
+    .recurrence-icon {
+      margin-left: 2px;
+      font-size: 0.85em;
+    }
+
+    .spent-cell {
+      width: 64px;
+      white-space: nowrap;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .timer-icon {
+      cursor: pointer;
+      margin-right: 4px;
+      opacity: 0;
+      vertical-align: middle;
+    }
+
+    tr:hover .timer-icon,
+    tr.timed .timer-icon {
+      opacity: 0.8;
+    }
+
+    tr.timed .timer-icon {
+      color: var(--vscode-charts-red);
+    }
+
+    .group-spent {
+      margin-left: 8px;
+      opacity: 0.7;
+      font-weight: normal;
+    }
     
     .task-cell {
       width: auto;
@@ -2240,6 +3056,28 @@ export class TaskTableProvider {
       gap: 8px;
     }
 
+    .subtask-toggle {
+      cursor: pointer;
+      margin-top: 2px;
+      opacity: 0.7;
+    }
+    .subtask-toggle:hover {
+      opacity: 1;
+    }
+
+    .subtask-progress {
+      flex-shrink: 0;
+      font-size: 10px;
+      padding: 1px 6px;
+      margin-top: 2px;
+      border-radius: 8px;
+      background-color: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+    }
+    .subtask-progress.subtasks-complete {
+      opacity: 0.6;
+    }
+
     .task-project-label {
       font-size: 10px;
       font-weight: 500;
@@ -2547,12 +3385,38 @@ export class TaskTableProvider {
             <input type="date" id="dateFilter" />
             <button class="clear-btn" id="clearDate" title="Clear date filter">×</button>
           </fieldset>
+          <select id="dateFilterPeriod" style="padding: 3px 6px;" title="Show the tasks of the day, week, month, quarter or year of the date">
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+            <option value="month">Month</option>
+            <option value="quarter">Quarter</option>
+            <option value="year">Year</option>
+          </select>
         </div>
         <div class="filter-group toggle-container">
           <input type="checkbox" id="hideCompleted" ${hideCompletedDefault ? 'checked' : ''} />
           <label for="hideCompleted" class="toggle-switch"></label>
           <label for="hideCompleted" style="cursor: pointer;">Hide completed</label>
         </div>
+        <div class="filter-group">
+          <label for="layoutSelect">Layout:</label>
+          <select id="layoutSelect" style="padding: 3px 6px;">
+            <option value="table">Table</option>
+            <option value="board">Board</option>
+            <option value="timeline">Timeline</option>
+          </select>
+          <select id="boardColumnsSelect" class="board-only" title="Board columns" style="padding: 3px 6px;">
+            <option value="status">By status</option>
+            <option value="project">By project</option>
+            <option value="tag">By tag</option>
+            <option value="heading">By heading</option>
+          </select>
+          <select id="timelineZoomSelect" class="timeline-only" title="Timeline zoom" style="padding: 3px 6px;">
+            <option value="day">Days</option>
+            <option value="week">Weeks</option>
+            <option value="month">Months</option>
+          </select>
+        </div>
       </div>
       <div class="filters filters-secondary">
         <div class="filter-group">
@@ -2569,6 +3433,43 @@ export class TaskTableProvider {
             <button class="clear-btn" id="clearFile" title="Clear file filter">×</button>
           </fieldset>
         </div>
+        <div class="filter-group">
+          <label for="statusFilter">Status:</label>
+          <select id="statusFilter" style="padding: 3px 6px;">
+            <option value="">Any</option>
+            <option value="open">Open</option>
+            ${statuses.map(st => `<option value="${escapeHtml(st.symbol)}">${escapeHtml(st.name)}</option>`).join('')}
+          </select>
+        </div>
+        <div class="filter-group">
+          <label for="dueFilter">Due:</label>
+          <select id="dueFilter" class="date-range-filter" style="padding: 3px 6px;">
+            <option value="">Any</option>
+            <option value="overdue">Overdue</option>
+            <option value="today">Today</option>
+            <option value="week">Next 7 days</option>
+            <option value="set">Has date</option>
+            <option value="none">No date</option>
+          </select>
+        </div>
+        <div class="filter-group">
+          <label for="scheduledFilter">Scheduled:</label>
+          <select id="scheduledFilter" class="date-range-filter" style="padding: 3px 6px;">
+            <option value="">Any</option>
+            <option value="overdue">Past</option>
+            <option value="today">Today</option>
+            <option value="week">Next 7 days</option>
+            <option value="set">Has date</option>
+            <option value="none">No date</option>
+          </select>
+        </div>
+        <div class="filter-group">
+          <label for="priorityFilter">Priority:</label>
+          <select id="priorityFilter" style="padding: 3px 6px;">
+            <option value="">Any</option>
+            ${PRIORITY_ORDER.map(p => `<option value="${p}">${priorityEmoji(p)} ${p}</option>`).join('')}
+          </select>
+        </div>
         <div class="filter-group">
           <label for="groupBySelect">Group:</label>
           <select id="groupBySelect" style="padding: 3px 6px;">
@@ -2577,21 +3478,55 @@ export class TaskTableProvider {
             <option value="date">Date</option>
             <option value="file">File</option>
             <option value="tag">Tag</option>
+            <option value="priority">Priority</option>
           </select>
         </div>
         <div class="filter-group">
           <button id="resetAllFilters" title="Reset all filters" style="padding: 4px 12px; cursor: pointer; background-color: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; border-radius: 2px;">RESET</button>
         </div>
       </div>
+      <div class="filters filters-secondary">
+        <div class="filter-group query-filter-group">
+          <label for="queryInput">Query:</label>
+          <fieldset class="input-with-clear query-input-container">
+            <div class="query-input-wrapper">
+              <input type="text" id="queryInput" autocomplete="off" spellcheck="false" placeholder="status:open tag:#client project:Acme due&lt;2026-11-01 file:~standup -tag:#someday" />
+              <div class="query-highlight" id="queryHighlight" aria-hidden="true"></div>
+              <ul class="query-suggestions" id="querySuggestions" style="display:none"></ul>
+            </div>
+            <button class="clear-btn" id="clearQuery" title="Clear query">×</button>
+          </fieldset>
+          <span class="query-errors" id="queryErrors"></span>
+        </div>
+        <div class="filter-group view-filter-group">
+          <label for="viewSelect">View:</label>
+          <select id="viewSelect" style="padding: 3px 6px;">
+            <option value="">Custom</option>
+          </select>
+          <button class="view-btn" id="saveViewBtn" title="Save the current filters, grouping, sorting and columns as a view">
+            <span class="codicon codicon-save"></span>
+          </button>
+          <button class="view-btn" id="deleteViewBtn" title="Delete the selected view" disabled>
+            <span class="codicon codicon-trash"></span>
+          </button>
+          <button class="view-btn" id="columnsBtn" title="Show or hide columns">
+            <span class="codicon codicon-layout"></span>
+          </button>
+          <div class="columns-menu" id="columnsMenu">
+            ${HIDEABLE_COLUMNS.map(c => `<label><input type="checkbox" data-column-key="${c.key}" checked />${c.label}</label>`).join('')}
+          </div>
+          <button class="view-btn" id="exportBtn" title="Export the filtered tasks to CSV, JSON or iCalendar">
+            <span class="codicon codicon-export"></span>
+          </button>
+        </div>
+      </div>
     </div>
   </div>
   
-  ${tasks.length === 0 ? `
-    <div class="empty-message">
+    <div class="empty-message"${tasks.length === 0 ? '' : ' style="display: none;"'}>
       No tasks found in date-prefixed markdown files (YYYY-MM-DD*.md)
     </div>
-  ` : `
-    <table id="tasksTable">
+    <table id="tasksTable"${tasks.length === 0 ? ' style="display: none;"' : ''}>
       <thead>
         <tr>
           <th class="drag-cell">
@@ -2605,6 +3540,10 @@ export class TaskTableProvider {
           <th class="status-cell sortable" data-column="status"></th>
           <th class="open-file-cell"></th>
           <th class="date-cell sortable" data-column="date">DATE</th>
+          <th class="due-cell sortable" data-column="due">DUE</th>
+          <th class="scheduled-cell sortable" data-column="scheduled">SCHEDULED</th>
+          <th class="priority-cell sortable" data-column="priority" title="Priority">PRIO</th>
+          <th class="spent-cell sortable" data-column="spent" title="Time spent">TIME</th>
           <th class="task-cell">TASK</th>
           <th class="move-cell"></th>
           <th class="insert-cell">
@@ -2615,14 +3554,14 @@ export class TaskTableProvider {
           </th>
         </tr>
         <tr class="add-row-header-row">
-          <td colspan="9" class="add-row-cell">
+          <td colspan="13" class="add-row-cell">
             <button class="add-row-btn add-first-row-btn" title="Add new task as first row">+ add first row</button>
           </td>
         </tr>
       </thead>
       <tbody>
         ${tasks.map((task, index) => `
-          <tr draggable="true" data-task-id="${escapeHtml(task.id)}" data-index="${index}" data-project="${escapeHtml(task.project)}" data-file="${escapeHtml(path.basename(task.filePath))}" data-filepath="${escapeHtml(task.filePath)}" data-line-number="${task.lineNumber}" class="${task.status ? 'task-completed' : ''}">
+          <tr draggable="true" data-task-id="${escapeHtml(task.id)}" data-index="${index}" data-project="${escapeHtml(task.project)}" data-file="${escapeHtml(path.basename(task.filePath))}" data-filepath="${escapeHtml(task.filePath)}" data-line-number="${task.lineNumber}" data-due="${task.due || ''}" data-scheduled="${task.scheduled || ''}" data-start="${task.start || ''}" data-done="${task.doneDate || ''}" data-priority="${task.priority}" data-priority-rank="${task.priorityRank}" data-spent="${task.spentMinutes}" data-status="${escapeHtml(task.status)}" data-parent-id="${escapeHtml(task.parentId || '')}" data-depth="${task.depth}" data-heading="${escapeHtml(task.heading)}" class="${isClosed(task.status) ? 'task-completed' : ''}">
             <td class="drag-cell">
               <span class="codicon codicon-gripper drag-handle" title="Drag to reorder"></span>
             </td>
@@ -2630,11 +3569,7 @@ export class TaskTableProvider {
               <input type="checkbox" class="select-checkbox task-select-checkbox" data-task-id="${escapeHtml(task.id)}" />
             </td>
             <td class="status-cell">
-              <input 
-                type="checkbox" 
-                class="task-status-checkbox"
-                ${task.status ? 'checked' : ''}
-              />
+              <span class="codicon codicon-${statusOf(task.status).icon} task-status-icon status-${statusOf(task.status).type}" title="${escapeHtml(statusOf(task.status).name)} (click to change)"></span>
             </td>
             <td class="open-file-cell">
               <span class="codicon codicon-link-external open-file-icon" title="Open file"></span>
@@ -2642,8 +3577,13 @@ export class TaskTableProvider {
             <td class="date-cell">
               <span class="date-text">${task.date}</span>
             </td>
+            <td class="due-cell${!isClosed(task.status) && task.due && task.due < today ? ' overdue' : ''}">${task.due || ''}</td>
+            <td class="scheduled-cell">${task.scheduled || ''}</td>
+            <td class="priority-cell" title="${task.priority === 'none' ? '' : task.priority}">${priorityEmoji(task.priority)}${task.recurrence ? `<span class="recurrence-icon" title="🔁 ${escapeHtml(task.recurrence)}">🔁</span>` : ''}</td>
+            <td class="spent-cell"><span class="codicon codicon-play timer-icon" title="Start timer"></span><span class="spent-text">${task.spentMinutes > 0 ? formatDuration(task.spentMinutes) : ''}</span></td>
             <td class="task-cell">
-              <div class="task-cell-content">
+              <div class="task-cell-content" style="margin-left: ${task.depth * 18}px">
+                ${task.childIds.length > 0 ? '<span class="codicon codicon-chevron-down subtask-toggle" title="Collapse subtasks"></span>' : ''}
                 <div class="task-edit-wrapper">
                   <div class="task-render"></div>
                   <textarea
@@ -2652,6 +3592,7 @@ export class TaskTableProvider {
                     style="display:none"
                   >${task.task.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</textarea>
                 </div>
+                ${task.subtasksTotal > 0 ? `<span class="subtask-progress${task.subtasksDone === task.subtasksTotal ? ' subtasks-complete' : ''}" title="Subtasks done">${task.subtasksDone}/${task.subtasksTotal}</span>` : ''}
               </div>
               <div class="task-meta-row">
                 ${task.project ? `<span class="task-project-label" data-project="${escapeHtml(task.project)}">${escapeHtml(task.project)}</span>` : '<span></span>'}
@@ -2672,13 +3613,15 @@ export class TaskTableProvider {
       </tbody>
       <tfoot>
         <tr>
-          <td colspan="9" class="add-row-cell">
+          <td colspan="13" class="add-row-cell">
             <button class="add-row-btn add-last-row-btn" title="Add new task as last row">+ add last row</button>
           </td>
         </tr>
       </tfoot>
     </table>
-  `}
+
+  <div id="board" class="board"></div>
+  <div id="timeline" class="timeline"></div>
   
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
@@ -2689,6 +3632,11 @@ export class TaskTableProvider {
       div.textContent = str;
       return div.innerHTML;
     }
+
+    // escapeHtml, also safe inside double-quoted attributes
+    function escapeAttr(str) {
+      return escapeHtml(str).replace(/"/g, '&quot;');
+    }
     
     // Render a task's markdown text as safe HTML
     function renderMarkdown(text) {
@@ -2743,6 +3691,64 @@ export class TaskTableProvider {
       textarea.style.display = 'none';
     }
     
+    let TASK_STATUSES = ${JSON.stringify(statuses)};
+    let KANBAN_LANES = ${JSON.stringify(this.kanbanLanes).replace(/</g, '\\u003c')}; // lanes of the Kanban notes, by file path
+
+    function statusOf(symbol) {
+      return TASK_STATUSES.find(s => s.symbol === symbol) || TASK_STATUSES[0];
+    }
+
+    // Done and cancelled tasks count as completed
+    function isClosedStatus(symbol) {
+      const type = statusOf(symbol).type;
+      return type === 'done' || type === 'cancelled';
+    }
+
+    // Id of the task the running timer is on
+    let timedTaskId = ${JSON.stringify(this.timedTaskId() || null)};
+
+    // Minutes as e.g. 1h25m
+    function formatDuration(minutes) {
+      const hours = Math.floor(minutes / 60);
+      const rest = minutes % 60;
+      return hours > 0 ? hours + 'h' + (rest > 0 ? rest + 'm' : '') : rest + 'm';
+    }
+
+    function applyTimerState() {
+      document.querySelectorAll('#tasksTable tbody tr[data-task-id]').forEach(row => {
+        const timed = row.getAttribute('data-task-id') === timedTaskId;
+        row.classList.toggle('timed', timed);
+        const icon = row.querySelector('.timer-icon');
+        if (icon) {
+          icon.classList.toggle('codicon-play', !timed);
+          icon.classList.toggle('codicon-debug-stop', timed);
+          icon.title = timed ? 'Stop timer' : 'Start timer';
+        }
+      });
+    }
+
+    const PRIORITY_ICONS = ${JSON.stringify(PRIORITY_ORDER.reduce((icons, p) => ({ ...icons, [p]: priorityEmoji(p) }), {}))};
+
+    // Local date as YYYY-MM-DD
+    function todayIso(offsetDays) {
+      const d = new Date();
+      d.setDate(d.getDate() + (offsetDays || 0));
+      return d.getFullYear() + '-' + String(d.getMonth() + 1).padStart(2, '0') + '-' + String(d.getDate()).padStart(2, '0');
+    }
+
+    // Match a YYYY-MM-DD value (or '') against a due/scheduled filter value
+    function matchesDateRange(value, range) {
+      if (!range) return true;
+      if (range === 'none') return !value;
+      if (range === 'set') return !!value;
+      if (!value) return false;
+      const today = todayIso();
+      if (range === 'overdue') return value < today;
+      if (range === 'today') return value === today;
+      if (range === 'week') return value >= today && value <= todayIso(7);
+      return true;
+    }
+
     // Function to extract hashtags from text
     function extractTags(text) {
       if (!text) return [];
@@ -2750,16 +3756,81 @@ export class TaskTableProvider {
       const matches = text.match(hashtagRegex);
       return matches || [];
     }
+
+    // Query language of the filter bar, shared with the extension (see taskFilterQuery.ts)
+    const TASK_FILTER_KEYS = ${JSON.stringify(TASK_FILTER_KEYS)};
+    ${parseTaskFilterQuery.toString()}
+    ${matchesTaskFilter.toString()}
+    ${datePeriodRange.toString()}
+    ${datePeriodKey.toString()}
+
+    // The date filter is a day or a period (2026-W42, 2026-10, 2026-Q4, 2026): show its first
+    // day in the date picker and its kind in the period dropdown
+    function showDateFilter() {
+      const dateInput = document.getElementById('dateFilter');
+      const periodSelect = document.getElementById('dateFilterPeriod');
+      const range = currentDateFilter ? datePeriodRange(currentDateFilter) : undefined;
+      if (dateInput) {
+        dateInput.value = range ? range[0] : '';
+      }
+      if (periodSelect && range) {
+        periodSelect.value = /^\d{4}-\d{2}-\d{2}$/.test(currentDateFilter) ? 'day'
+          : /-W/i.test(currentDateFilter) ? 'week'
+          : /-Q/i.test(currentDateFilter) ? 'quarter'
+          : /^\d{4}-\d{2}$/.test(currentDateFilter) ? 'month'
+          : 'year';
+      }
+    }
+
+    // Date of the note new tasks go to: the date filter when it is a single day
+    function newTaskDate() {
+      return /^\d{4}-\d{2}-\d{2}$/.test(currentDateFilter) ? currentDateFilter : '';
+    }
+
+    // Values of a row compared by the query
+    function rowFilterFields(row) {
+      const status = statusOf(row.getAttribute('data-status') || ' ');
+      const text = row.querySelector('.task-input')?.value || '';
+      return {
+        status: status.symbol,
+        statusName: status.name,
+        statusType: status.type,
+        tags: extractTags(text),
+        project: row.getAttribute('data-project') || '',
+        file: row.getAttribute('data-file') || '',
+        path: row.getAttribute('data-filepath') || '',
+        text: text,
+        due: row.getAttribute('data-due') || '',
+        scheduled: row.getAttribute('data-scheduled') || '',
+        start: row.getAttribute('data-start') || '',
+        done: row.getAttribute('data-done') || '',
+        date: (row.querySelector('.date-text') || row.querySelector('.date-cell'))?.textContent?.trim() || '',
+        priority: row.getAttribute('data-priority') || 'none'
+      };
+    }
     
     // Preserve state - default sort by date descending
     let currentSort = { column: 'date', direction: 'desc' };
     let currentGroupBy = 'none'; // 'none' | 'project' | 'date' | 'file'
     const collapsedGroups = new Set(); // group keys currently collapsed
+    const collapsedTasks = new Set(); // ids of tasks whose subtasks are hidden
     let currentFilter = []; // Array of selected projects
     let currentHideCompleted = ${hideCompletedDefault};
     let currentSearchText = '';
     let currentDateFilter = '';
     let currentFileFilter = []; // Array of selected files
+    let currentStatusFilter = ''; // '' | 'open' | a status symbol
+    let currentDueFilter = ''; // '' | 'overdue' | 'today' | 'week' | 'set' | 'none'
+    let currentScheduledFilter = ''; // same values as currentDueFilter
+    let currentPriorityFilter = ''; // '' or a priority name
+    let currentQuery = (vscode.getState() || {}).query || ''; // typed query, kept in the panel state
+    let currentParsedQuery = parseTaskFilterQuery(currentQuery, todayIso());
+    let hiddenColumns = (vscode.getState() || {}).hiddenColumns || []; // keys of the hidden columns
+    let taskViews = []; // saved views, sent by the extension
+    let lastViewName = ''; // name of the last view switched to, offered when saving
+    let currentLayout = 'table'; // 'table' | 'board' | 'timeline'
+    let currentBoardColumns = 'status'; // 'status' | 'project' | 'tag' | 'heading'
+    let currentTimelineZoom = 'week'; // 'day' | 'week' | 'month'
     let selectedTaskIds = new Set(); // Set of selected task IDs for bulk operations
     let multiselectActive = false; // Multi-select mode state
     
@@ -2914,14 +3985,18 @@ export class TaskTableProvider {
       updateSelectAllCheckbox();
     });
     
-    // Event delegation for checkboxes
-    document.addEventListener('change', function(e) {
-      if (e.target.classList.contains('task-status-checkbox')) {
+    // Event delegation for status icons: a click moves the task to the next status
+    document.addEventListener('click', function(e) {
+      if (e.target.classList.contains('task-status-icon')) {
         const row = e.target.closest('tr');
         if (!row) return;
         
-        // Update row class based on completed status
-        if (e.target.checked) {
+        // Show the next status right away; the reload that follows confirms it
+        const next = statusOf(statusOf(row.getAttribute('data-status')).next);
+        row.setAttribute('data-status', next.symbol);
+        e.target.className = 'codicon codicon-' + next.icon + ' task-status-icon status-' + next.type;
+        e.target.title = next.name + ' (click to change)';
+        if (isClosedStatus(next.symbol)) {
           row.classList.add('task-completed');
         } else {
           row.classList.remove('task-completed');
@@ -2930,13 +4005,32 @@ export class TaskTableProvider {
         const taskId = row.getAttribute('data-task-id');
         if (taskId) {
           vscode.postMessage({
-            command: 'toggleStatus',
+            command: 'cycleStatus',
             taskId: taskId
           });
         }
       }
     });
     
+    // Event delegation for subtask toggles: expand / collapse the subtasks of a task
+    document.addEventListener('click', function(e) {
+      if (e.target.classList.contains('subtask-toggle')) {
+        const row = e.target.closest('tr');
+        const taskId = row ? row.getAttribute('data-task-id') : null;
+        if (!taskId) return;
+        
+        if (collapsedTasks.has(taskId)) {
+          collapsedTasks.delete(taskId);
+        } else {
+          collapsedTasks.add(taskId);
+        }
+        const collapsed = collapsedTasks.has(taskId);
+        e.target.className = 'codicon codicon-chevron-' + (collapsed ? 'right' : 'down') + ' subtask-toggle';
+        e.target.title = (collapsed ? 'Expand' : 'Collapse') + ' subtasks';
+        applyGrouping();
+      }
+    });
+    
     // Event delegation for text inputs
     document.addEventListener('blur', function(e) {
       if (e.target.classList.contains('task-input')) {
@@ -2975,6 +4069,21 @@ export class TaskTableProvider {
       }
     });
 
+    // Ctrl+Z undoes the last edit of the table, Ctrl+Shift+Z or Ctrl+Y redoes it; text fields keep their own undo
+    document.addEventListener('keydown', function(e) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target;
+      if (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && target.type !== 'checkbox') || target.isContentEditable) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        vscode.postMessage({ command: 'undo' });
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        vscode.postMessage({ command: 'redo' });
+      }
+    });
+
     // Enter key on inputs: Enter = blur/save, Shift+Enter = newline
     document.addEventListener('keydown', function(e) {
       if (e.key === 'Enter' && e.target.classList.contains('task-input')) {
@@ -3015,6 +4124,14 @@ export class TaskTableProvider {
         return;
       }
 
+      if (e.target.classList.contains('timer-icon')) {
+        const row = e.target.closest('tr');
+        if (row) {
+          vscode.postMessage({ command: 'toggleTimer', taskId: row.getAttribute('data-task-id') });
+        }
+        return;
+      }
+
       if (e.target.classList.contains('open-file-icon')) {
         const row = e.target.closest('tr');
         if (!row) return;
@@ -3086,7 +4203,7 @@ export class TaskTableProvider {
       // Click on create file icon in header
       if (e.target.classList.contains('create-file-icon')) {
         const project = currentFilter.length === 1 ? currentFilter[0] : '';
-        const date = currentDateFilter || '';
+        const date = newTaskDate();
         vscode.postMessage({
           command: 'addNewTask',
           project: project,
@@ -3101,7 +4218,7 @@ export class TaskTableProvider {
           vscode.postMessage({ command: 'addTaskBefore', taskId: firstRow.getAttribute('data-task-id') });
         } else {
           const project = currentFilter.length === 1 ? currentFilter[0] : '';
-          const date = currentDateFilter || '';
+          const date = newTaskDate();
           vscode.postMessage({ command: 'addNewTask', project, date });
         }
       }
@@ -3114,7 +4231,7 @@ export class TaskTableProvider {
           vscode.postMessage({ command: 'addTaskAfter', taskId: lastRow.getAttribute('data-task-id') });
         } else {
           const project = currentFilter.length === 1 ? currentFilter[0] : '';
-          const date = currentDateFilter || '';
+          const date = newTaskDate();
           vscode.postMessage({ command: 'addNewTask', project, date });
         }
       }
@@ -3180,19 +4297,111 @@ export class TaskTableProvider {
       }
     });
     
+    // Set the filter inputs from the current filter state
+    function restoreFilterControls() {
+      const hideCompletedCheckbox = document.getElementById('hideCompleted');
+      if (hideCompletedCheckbox) {
+        hideCompletedCheckbox.checked = currentHideCompleted;
+      }
+      
+      const searchInput = document.getElementById('searchInput');
+      if (searchInput) {
+        searchInput.value = currentSearchText;
+      }
+      
+      showDateFilter();
+
+      const statusFilter = document.getElementById('statusFilter');
+      if (statusFilter) {
+        statusFilter.value = currentStatusFilter;
+      }
+      const dueFilter = document.getElementById('dueFilter');
+      if (dueFilter) {
+        dueFilter.value = currentDueFilter;
+      }
+      const scheduledFilter = document.getElementById('scheduledFilter');
+      if (scheduledFilter) {
+        scheduledFilter.value = currentScheduledFilter;
+      }
+      const priorityFilter = document.getElementById('priorityFilter');
+      if (priorityFilter) {
+        priorityFilter.value = currentPriorityFilter;
+      }
+      
+      const projectFilterDisplay = document.getElementById('projectFilterDisplay');
+      if (projectFilterDisplay) {
+        if (currentFilter.length === 0) {
+          projectFilterDisplay.value = '';
+          projectFilterDisplay.placeholder = 'All Projects';
+        } else if (currentFilter.length === 1) {
+          projectFilterDisplay.value = currentFilter[0];
+          projectFilterDisplay.placeholder = '';
+        } else {
+          projectFilterDisplay.value = currentFilter.length + ' projects selected';
+          projectFilterDisplay.placeholder = '';
+        }
+      }
+      
+      const fileFilterDisplay = document.getElementById('fileFilterDisplay');
+      if (fileFilterDisplay) {
+        if (currentFileFilter.length === 0) {
+          fileFilterDisplay.value = '';
+          fileFilterDisplay.placeholder = 'All Files';
+        } else if (currentFileFilter.length === 1) {
+          fileFilterDisplay.value = currentFileFilter[0];
+          fileFilterDisplay.placeholder = '';
+        } else {
+          fileFilterDisplay.value = currentFileFilter.length + ' files selected';
+          fileFilterDisplay.placeholder = '';
+        }
+      }
+
+      const groupBySelect = document.getElementById('groupBySelect');
+      if (groupBySelect) {
+        groupBySelect.value = currentGroupBy;
+      }
+    }
+
+    // Show the current sort on the column headers
+    function updateSortIndicator() {
+      document.querySelectorAll('th.sortable').forEach(h => {
+        h.classList.remove('sorted-asc', 'sorted-desc');
+      });
+      const header = document.querySelector('th[data-column="' + currentSort.column + '"]');
+      if (header) {
+        header.classList.add('sorted-' + currentSort.direction);
+      }
+    }
+    
     function rebuildTable(tasks) {
       const tbody = document.querySelector('#tasksTable tbody');
       if (!tbody) return;
+      const today = todayIso();
+
+      // The table replaces the empty message once there are tasks, and the other way round
+      document.getElementById('tasksTable').style.display = tasks.length === 0 ? 'none' : '';
+      const emptyMessage = document.querySelector('.empty-message');
+      if (emptyMessage) {
+        emptyMessage.style.display = tasks.length === 0 ? '' : 'none';
+      }
       
       tbody.innerHTML = tasks.map((task, index) => {
         const tags = extractTags(task.task);
         const tagsHtml = tags.map(tag => '<span class="tag" data-tag="' + escapeHtml(tag) + '">' + escapeHtml(tag) + '<span class="tag-remove">×</span></span>').join('');
         const filename = task.filePath.split('/').pop() || task.filePath.split('\\\\').pop() || task.filePath;
         const isSelected = selectedTaskIds.has(task.id);
-        const completedClass = task.status ? ' task-completed' : '';
+        const status = statusOf(task.status);
+        const completedClass = isClosedStatus(task.status) ? ' task-completed' : '';
+        const subtasksCollapsed = collapsedTasks.has(task.id);
+        const subtaskToggle = task.childIds.length > 0
+          ? '<span class="codicon codicon-chevron-' + (subtasksCollapsed ? 'right' : 'down') + ' subtask-toggle" title="' + (subtasksCollapsed ? 'Expand' : 'Collapse') + ' subtasks"></span>'
+          : '';
+        const subtaskProgress = task.subtasksTotal > 0
+          ? '<span class="subtask-progress' + (task.subtasksDone === task.subtasksTotal ? ' subtasks-complete' : '') + '" title="Subtasks done">' + task.subtasksDone + '/' + task.subtasksTotal + '</span>'
+          : '';
         
         return \`
-        <tr draggable="true" data-task-id="\${task.id}" data-project="\${task.project}" data-file="\${filename}" data-filepath="\${task.filePath}" data-line-number="\${task.lineNumber}" class="\${completedClass.trim()}">
+        <tr draggable="true" data-task-id="\${task.id}" data-project="\${task.project}" data-file="\${filename}" data-filepath="\${task.filePath}" data-line-number="\${task.lineNumber}" data-due="\${task.due || ''}" data-scheduled="\${task.scheduled || ''}" data-start="\${task.start || ''}" data-done="\${task.doneDate || ''}" data-priority="\${task.priority}" data-priority-rank="\${task.priorityRank}" data-spent="\${task.spentMinutes || 0}" data-status="\${escapeHtml(task.status)}" data-parent-id="\${escapeHtml(task.parentId || '')}" data-depth="\${task.depth}" data-heading="\${escapeAttr(task.heading || '')}" class="\${completedClass.trim()}">
           <td class="drag-cell">
             <span class="codicon codicon-gripper drag-handle" title="Drag to reorder"></span>
           </td>
@@ -3200,11 +4409,7 @@ export class TaskTableProvider {
             <input type="checkbox" class="select-checkbox task-select-checkbox" data-task-id="\${task.id}" \${isSelected ? 'checked' : ''} />
           </td>
           <td class="status-cell">
-            <input 
-              type="checkbox" 
-              class="task-status-checkbox"
-              \${task.status ? 'checked' : ''}
-            />
+            <span class="codicon codicon-\${status.icon} task-status-icon status-\${status.type}" title="\${escapeHtml(status.name)} (click to change)"></span>
           </td>
           <td class="open-file-cell">
             <span class="codicon codicon-link-external open-file-icon" title="Open file"></span>
@@ -3212,78 +4417,43 @@ export class TaskTableProvider {
           <td class="date-cell">
             <span class="date-text">\${task.date}</span>
           </td>
+          <td class="due-cell\${!isClosedStatus(task.status) && task.due && task.due < today ? ' overdue' : ''}">\${task.due || ''}</td>
+          <td class="scheduled-cell">\${task.scheduled || ''}</td>
+          <td class="priority-cell" title="\${task.priority === 'none' ? '' : task.priority}">\${PRIORITY_ICONS[task.priority] || ''}\${task.recurrence ? '<span class="recurrence-icon" title="🔁 ' + escapeHtml(task.recurrence) + '">🔁</span>' : ''}</td>
+          <td class="spent-cell"><span class="codicon codicon-play timer-icon" title="Start timer"></span><span class="spent-text">\${task.spentMinutes > 0 ? formatDuration(task.spentMinutes) : ''}</span></td>
           <td class="task-cell">
-            <div class="task-cell-content">
+            <div class="task-cell-content" style="margin-left: \${task.depth * 18}px">
+              \${subtaskToggle}
               <div class="task-edit-wrapper">
                 <div class="task-render"></div>
                 <textarea
                   rows="1"
-                  class="task-input"
-                  style="display:none"
-                >\${escapeHtml(task.task)}</textarea>
-              </div>
-            </div>
-            <div class="task-meta-row">
-              \${task.project ? '<span class="task-project-label" data-project="' + escapeHtml(task.project) + '">' + escapeHtml(task.project) + '</span>' : '<span></span>'}
-              <div class="tags-cell">\${tagsHtml}</div>
-            </div>
-          </td>
-          <td class="move-cell">
-            <span class="codicon codicon-arrow-right move-icon" title="Move task to another file"></span>
-          </td>
-          <td class="insert-cell">
-            <span class="codicon codicon-add add-icon" title="Add task after"></span>
-          </td>
-          <td class="actions-cell">
-            <span class="codicon codicon-trash delete-icon" title="Delete task"></span>
-          </td>
-        </tr>
-        \`;
-      }).join('');
-      
-      // Restore filter input states FIRST
-      const hideCompletedCheckbox = document.getElementById('hideCompleted');
-      if (hideCompletedCheckbox) {
-        hideCompletedCheckbox.checked = currentHideCompleted;
-      }
-      
-      const searchInput = document.getElementById('searchInput');
-      if (searchInput) {
-        searchInput.value = currentSearchText;
-      }
-      
-      const dateFilter = document.getElementById('dateFilter');
-      if (dateFilter) {
-        dateFilter.value = currentDateFilter;
-      }
-      
-      const projectFilterDisplay = document.getElementById('projectFilterDisplay');
-      if (projectFilterDisplay) {
-        if (currentFilter.length === 0) {
-          projectFilterDisplay.value = '';
-          projectFilterDisplay.placeholder = 'All Projects';
-        } else if (currentFilter.length === 1) {
-          projectFilterDisplay.value = currentFilter[0];
-          projectFilterDisplay.placeholder = '';
-        } else {
-          projectFilterDisplay.value = currentFilter.length + ' projects selected';
-          projectFilterDisplay.placeholder = '';
-        }
-      }
+                  class="task-input"
+                  style="display:none"
+                >\${escapeHtml(task.task)}</textarea>
+              </div>
+              \${subtaskProgress}
+            </div>
+            <div class="task-meta-row">
+              \${task.project ? '<span class="task-project-label" data-project="' + escapeHtml(task.project) + '">' + escapeHtml(task.project) + '</span>' : '<span></span>'}
+              <div class="tags-cell">\${tagsHtml}</div>
+            </div>
+          </td>
+          <td class="move-cell">
+            <span class="codicon codicon-arrow-right move-icon" title="Move task to another file"></span>
+          </td>
+          <td class="insert-cell">
+            <span class="codicon codicon-add add-icon" title="Add task after"></span>
+          </td>
+          <td class="actions-cell">
+            <span class="codicon codicon-trash delete-icon" title="Delete task"></span>
+          </td>
+        </tr>
+        \`;
+      }).join('');
       
-      const fileFilterDisplay = document.getElementById('fileFilterDisplay');
-      if (fileFilterDisplay) {
-        if (currentFileFilter.length === 0) {
-          fileFilterDisplay.value = '';
-          fileFilterDisplay.placeholder = 'All Files';
-        } else if (currentFileFilter.length === 1) {
-          fileFilterDisplay.value = currentFileFilter[0];
-          fileFilterDisplay.placeholder = '';
-        } else {
-          fileFilterDisplay.value = currentFileFilter.length + ' files selected';
-          fileFilterDisplay.placeholder = '';
-        }
-      }
+      // Restore filter input states FIRST
+      restoreFilterControls();
       
       // Update selection UI
       updateBulkActionsToolbar();
@@ -3291,14 +4461,7 @@ export class TaskTableProvider {
       
       // Then apply sort
       if (currentSort.column) {
-        // Update UI to show current sort
-        document.querySelectorAll('th.sortable').forEach(h => {
-          h.classList.remove('sorted-asc', 'sorted-desc');
-        });
-        const header = document.querySelector('th[data-column="' + currentSort.column + '"]');
-        if (header) {
-          header.classList.add('sorted-' + currentSort.direction);
-        }
+        updateSortIndicator();
         applySorting();
       }
       
@@ -3312,19 +4475,28 @@ export class TaskTableProvider {
     function applyFilter() {
       const rows = document.querySelectorAll('#tasksTable tbody tr:not(.group-header-row)');
       const searchLower = currentSearchText.toLowerCase();
+      const dateRange = currentDateFilter ? datePeriodRange(currentDateFilter) : undefined;
       let visibleCount = 0;
       
       rows.forEach(row => {
         const matchesProject = currentFilter.length === 0 || currentFilter.includes(row.getAttribute('data-project'));
-        const isCompleted = row.querySelector('.task-status-checkbox').checked;
+        const rowStatus = row.getAttribute('data-status') || ' ';
+        const isCompleted = isClosedStatus(rowStatus);
+        const matchesStatus = !currentStatusFilter ||
+          (currentStatusFilter === 'open' ? !isCompleted : rowStatus === currentStatusFilter);
         
         // Date filter
         const date = (row.querySelector('.date-text') || row.querySelector('.date-cell'))?.textContent?.trim() || '';
-        const matchesDate = !currentDateFilter || date === currentDateFilter;
+        const matchesDate = !currentDateFilter || (dateRange ? date >= dateRange[0] && date <= dateRange[1] : date === currentDateFilter);
         
         // File filter (matches if no filter or file is in selected files array)
         const rowFile = row.getAttribute('data-file');
         const matchesFile = currentFileFilter.length === 0 || currentFileFilter.includes(rowFile);
+
+        // Tasks plugin fields
+        const matchesDue = matchesDateRange(row.getAttribute('data-due') || '', currentDueFilter);
+        const matchesScheduled = matchesDateRange(row.getAttribute('data-scheduled') || '', currentScheduledFilter);
+        const matchesPriority = !currentPriorityFilter || row.getAttribute('data-priority') === currentPriorityFilter;
         
         // Search in task text, project, and date
         let matchesSearch = true;
@@ -3346,7 +4518,10 @@ export class TaskTableProvider {
           }
         }
         
-        const shouldShow = matchesProject && matchesDate && matchesFile && matchesSearch && (!currentHideCompleted || !isCompleted);
+        // Typed query
+        const matchesQuery = currentParsedQuery.terms.length === 0 || matchesTaskFilter(currentParsedQuery, rowFilterFields(row));
+        
+        const shouldShow = matchesProject && matchesStatus && matchesDate && matchesFile && matchesDue && matchesScheduled && matchesPriority && matchesSearch && matchesQuery && (!currentHideCompleted || !isCompleted);
         
         if (shouldShow) {
           row.removeAttribute('data-filter-hidden');
@@ -3364,15 +4539,18 @@ export class TaskTableProvider {
       
       // Update "Select All" checkbox state after filtering
       updateSelectAllCheckbox();
+      syncViewSelect();
 
       // Apply grouping after filter
       applyGrouping();
+      renderLayout();
     }
 
     function getGroupKey(row) {
       if (currentGroupBy === 'project') return row.getAttribute('data-project') || '';
       if (currentGroupBy === 'date') return row.querySelector('.date-cell')?.textContent?.trim() || '';
       if (currentGroupBy === 'file') return row.getAttribute('data-file') || '';
+      if (currentGroupBy === 'priority') return row.getAttribute('data-priority-rank') + ' ' + (row.getAttribute('data-priority') || 'none');
       if (currentGroupBy === 'tag') {
         const taskText = row.querySelector('.task-input')?.value || '';
         const tags = extractTags(taskText).map(t => t.toLowerCase()).sort();
@@ -3381,6 +4559,17 @@ export class TaskTableProvider {
       return '';
     }
 
+    // True when one of the row's ancestor tasks has its subtasks collapsed
+    function isSubtaskCollapsed(row) {
+      let parentId = row.getAttribute('data-parent-id');
+      while (parentId) {
+        if (collapsedTasks.has(parentId)) return true;
+        const parentRow = document.querySelector('#tasksTable tr[data-task-id="' + CSS.escape(parentId) + '"]');
+        parentId = parentRow ? parentRow.getAttribute('data-parent-id') : '';
+      }
+      return false;
+    }
+
     function applyGrouping() {
       // Remove existing group header rows
       document.querySelectorAll('#tasksTable tbody tr.group-header-row').forEach(r => r.remove());
@@ -3392,7 +4581,7 @@ export class TaskTableProvider {
 
       if (currentGroupBy === 'none') {
         // No grouping: just show/hide based on filter attribute
-        allRows.forEach(r => { r.style.display = r.hasAttribute('data-filter-hidden') ? 'none' : ''; });
+        allRows.forEach(r => { r.style.display = r.hasAttribute('data-filter-hidden') || isSubtaskCollapsed(r) ? 'none' : ''; });
         return;
       }
       // "visible" = not hidden by filter (may still be collapsed)
@@ -3436,13 +4625,13 @@ export class TaskTableProvider {
 
         // Apply collapsed state to rows (only those not filter-hidden)
         groupMap.get(key).forEach(r => {
-          r.style.display = isCollapsed ? 'none' : '';
+          r.style.display = isCollapsed || isSubtaskCollapsed(r) ? 'none' : '';
         });
 
         const headerRow = document.createElement('tr');
         headerRow.className = 'group-header-row';
         const td = document.createElement('td');
-        td.colSpan = 9;
+        td.colSpan = 13;
         td.className = 'group-header-cell';
         td.setAttribute('data-group-key', key);
         td.setAttribute('data-group-type', currentGroupBy);
@@ -3453,7 +4642,13 @@ export class TaskTableProvider {
 
         const label = document.createElement('span');
         label.className = 'group-header-label';
-        label.textContent = key || '(none)';
+        if (currentGroupBy === 'priority') {
+          // Keys are "<rank> <priority>" so groups sort in priority order
+          const priority = key.split(' ')[1] || 'none';
+          label.textContent = ((PRIORITY_ICONS[priority] || '') + ' ' + priority).trim();
+        } else {
+          label.textContent = key || '(none)';
+        }
         label.title = 'Click to filter by this group';
 
         const arrow = document.createElement('span');
@@ -3464,6 +4659,15 @@ export class TaskTableProvider {
 
         inner.appendChild(arrow);
         inner.appendChild(label);
+
+        const spent = groupMap.get(key).reduce((sum, r) => sum + parseInt(r.getAttribute('data-spent') || '0', 10), 0);
+        if (spent > 0) {
+          const total = document.createElement('span');
+          total.className = 'group-spent';
+          total.textContent = '⏱ ' + formatDuration(spent);
+          total.title = 'Time spent on the tasks of this group';
+          inner.appendChild(total);
+        }
         td.appendChild(inner);
         headerRow.appendChild(td);
         tbody.insertBefore(headerRow, firstRow);
@@ -3492,8 +4696,7 @@ export class TaskTableProvider {
         } else if (groupType === 'date') {
           const alreadyFiltered = currentDateFilter === groupKey;
           currentDateFilter = alreadyFiltered ? '' : groupKey;
-          const dateInput = document.getElementById('dateFilter');
-          if (dateInput) { dateInput.value = currentDateFilter; }
+          showDateFilter();
         } else if (groupType === 'file') {
           const alreadyFiltered = currentFileFilter.length === 1 && currentFileFilter[0] === groupKey;
           currentFileFilter = alreadyFiltered ? [] : (groupKey ? [groupKey] : []);
@@ -3502,6 +4705,11 @@ export class TaskTableProvider {
             fileFilterDisplay.value = currentFileFilter[0] || '';
             fileFilterDisplay.placeholder = currentFileFilter.length ? '' : 'All Files';
           }
+        } else if (groupType === 'priority') {
+          const priority = groupKey.split(' ')[1] || 'none';
+          currentPriorityFilter = currentPriorityFilter === priority ? '' : priority;
+          const priorityFilter = document.getElementById('priorityFilter');
+          if (priorityFilter) { priorityFilter.value = currentPriorityFilter; }
         }
         applyFilter();
         return;
@@ -3526,14 +4734,25 @@ export class TaskTableProvider {
         let aVal, bVal;
         
         if (currentSort.column === 'status') {
-          aVal = a.querySelector('.task-status-checkbox').checked ? 1 : 0;
-          bVal = b.querySelector('.task-status-checkbox').checked ? 1 : 0;
+          // Order of the configured statuses
+          aVal = TASK_STATUSES.indexOf(statusOf(a.getAttribute('data-status')));
+          bVal = TASK_STATUSES.indexOf(statusOf(b.getAttribute('data-status')));
         } else if (currentSort.column === 'date') {
           aVal = (a.querySelector('.date-text') || a.querySelector('.date-cell'))?.textContent?.trim() || '';
           bVal = (b.querySelector('.date-text') || b.querySelector('.date-cell'))?.textContent?.trim() || '';
         } else if (currentSort.column === 'project') {
           aVal = a.getAttribute('data-project') || '';
           bVal = b.getAttribute('data-project') || '';
+        } else if (currentSort.column === 'due' || currentSort.column === 'scheduled') {
+          // Tasks without a date sort after dated ones in ascending order
+          aVal = a.getAttribute('data-' + currentSort.column) || '9999-99-99';
+          bVal = b.getAttribute('data-' + currentSort.column) || '9999-99-99';
+        } else if (currentSort.column === 'priority') {
+          aVal = parseInt(a.getAttribute('data-priority-rank') || '3');
+          bVal = parseInt(b.getAttribute('data-priority-rank') || '3');
+        } else if (currentSort.column === 'spent') {
+          aVal = parseInt(a.getAttribute('data-spent') || '0');
+          bVal = parseInt(b.getAttribute('data-spent') || '0');
         }
         
         let result;
@@ -3561,7 +4780,24 @@ export class TaskTableProvider {
         return result;
       });
       
-      rows.forEach(row => tbody.appendChild(row));
+      // Subtasks stay below their parent, sorted among their siblings
+      const rowIds = new Set(rows.map(r => r.getAttribute('data-task-id')));
+      const childRows = new Map();
+      const rootRows = [];
+      rows.forEach(row => {
+        const parentId = row.getAttribute('data-parent-id');
+        if (parentId && rowIds.has(parentId)) {
+          if (!childRows.has(parentId)) childRows.set(parentId, []);
+          childRows.get(parentId).push(row);
+        } else {
+          rootRows.push(row);
+        }
+      });
+      const appendWithSubtasks = row => {
+        tbody.appendChild(row);
+        (childRows.get(row.getAttribute('data-task-id')) || []).forEach(appendWithSubtasks);
+      };
+      rootRows.forEach(appendWithSubtasks);
 
       // Re-apply grouping if active
       applyGrouping();
@@ -3572,6 +4808,7 @@ export class TaskTableProvider {
       currentGroupBy = this.value;
       collapsedGroups.clear(); // reset collapsed state on groupBy change
       applyGrouping();
+      syncViewSelect();
     });
     
     // Drag-and-drop row reordering
@@ -3590,6 +4827,8 @@ export class TaskTableProvider {
     }
 
     document.addEventListener('dragstart', function(e) {
+      // Board cards have their own drag and drop
+      if (e.target.closest && e.target.closest('.board-card')) return;
       // Only allow drag when starting from the drag handle
       if (!dragFromHandle) {
         e.preventDefault();
@@ -3700,6 +4939,13 @@ export class TaskTableProvider {
           return;
         }
 
+        if (message.statuses) {
+          TASK_STATUSES = message.statuses;
+        }
+        if (message.kanbanLanes) {
+          KANBAN_LANES = message.kanbanLanes;
+        }
+
         // Clean up selectedTaskIds - remove any that no longer exist in the task list
         const taskIds = new Set(message.tasks.map(t => t.id));
         const idsToRemove = [];
@@ -3714,10 +4960,7 @@ export class TaskTableProvider {
         // Apply date filter if provided
         if (message.filterDate) {
           currentDateFilter = message.filterDate;
-          const dateInput = document.getElementById('dateFilter');
-          if (dateInput) {
-            dateInput.value = message.filterDate;
-          }
+          showDateFilter();
         }
         
         // Apply project filter if provided
@@ -3739,6 +4982,11 @@ export class TaskTableProvider {
           }
         }
         
+        // Apply query if provided
+        if (typeof message.filterQuery === 'string') {
+          setQuery(message.filterQuery);
+        }
+        
         // Apply file filter if provided
         if (message.filterFile) {
           currentFileFilter = [message.filterFile];
@@ -3750,7 +4998,9 @@ export class TaskTableProvider {
         }
         
         // Now rebuild table - this will call applyFilter() at the end with correct filter state
+        timedTaskId = message.timedTaskId || null;
         rebuildTable(message.tasks);
+        applyTimerState();
         
         // Focus on new task input if specified
         if (message.focusTaskId) {
@@ -3861,10 +5111,25 @@ export class TaskTableProvider {
         collapsedGroups.clear();
         applyGrouping();
       } else if (message.command === 'setDateFilter') {
-        const dateInput = document.getElementById('dateFilter');
-        if (dateInput) { dateInput.value = message.date; }
         currentDateFilter = message.date;
+        showDateFilter();
         applyFilter();
+      } else if (message.command === 'setLayout') {
+        setLayout(message.layout, message.boardColumns, message.timelineZoom);
+        syncViewSelect();
+      } else if (message.command === 'timerState') {
+        timedTaskId = message.timedTaskId || null;
+        applyTimerState();
+      } else if (message.command === 'requestExport') {
+        exportVisibleTasks();
+      } else if (message.command === 'setViews') {
+        taskViews = message.views || [];
+        renderViewOptions();
+        const view = message.applyView && taskViews.find(v => v.name === message.applyView);
+        if (view) {
+          lastViewName = view.name;
+          applyView(view);
+        }
       }
     });
     
@@ -3884,12 +5149,199 @@ export class TaskTableProvider {
       }
     });
     
-    // Date filter
-    document.getElementById('dateFilter')?.addEventListener('change', function(e) {
-      currentDateFilter = e.target.value;
+    // Query filter: parsed on every change, errors underlined, query kept in the panel state
+    function setQuery(query) {
+      currentQuery = query;
+      currentParsedQuery = parseTaskFilterQuery(query, todayIso());
+      const queryInput = document.getElementById('queryInput');
+      if (queryInput && queryInput.value !== query) {
+        queryInput.value = query;
+      }
+      renderQueryErrors();
+      vscode.setState({ ...(vscode.getState() || {}), query: query });
+    }
+
+    function renderQueryErrors() {
+      const errors = currentParsedQuery.errors;
+      const highlight = document.getElementById('queryHighlight');
+      if (highlight) {
+        let html = '';
+        let last = 0;
+        errors.forEach(err => {
+          html += escapeHtml(currentQuery.slice(last, err.start)) + '<mark>' + escapeHtml(currentQuery.slice(err.start, err.end)) + '</mark>';
+          last = err.end;
+        });
+        highlight.innerHTML = html + escapeHtml(currentQuery.slice(last));
+        const queryInput = document.getElementById('queryInput');
+        if (queryInput) {
+          highlight.scrollLeft = queryInput.scrollLeft;
+        }
+      }
+      const errorsEl = document.getElementById('queryErrors');
+      if (errorsEl) {
+        errorsEl.textContent = errors.map(err => err.message).join('; ');
+      }
+      document.querySelector('.query-input-container')?.classList.toggle('has-errors', errors.length > 0);
+    }
+
+    // Term under the caret, from the previous space to the caret
+    function queryTermAtCaret(input) {
+      const caret = input.selectionStart || 0;
+      let start = caret;
+      while (start > 0 && !/\\s/.test(input.value[start - 1])) start--;
+      return { start: start, end: caret, text: input.value.slice(start, caret) };
+    }
+
+    // Completions of a partial term: field names, then the values found in the table
+    function querySuggestionsFor(termText) {
+      const negate = termText.startsWith('-') ? '-' : '';
+      const body = termText.slice(negate.length);
+      const rows = Array.from(document.querySelectorAll('#tasksTable tbody tr[data-task-id]'));
+      const unique = values => Array.from(new Set(values.filter(v => v))).sort();
+      const rowTags = () => unique(rows.flatMap(r => extractTags(r.querySelector('.task-input')?.value || '')));
+      const match = body.match(/^([a-zA-Z]+)(:~|<=|>=|:|<|>)(.*)$/);
+      if (!match) {
+        if (body.startsWith('#')) {
+          return rowTags().filter(tag => tag.toLowerCase().startsWith(body.toLowerCase()) && tag !== body).slice(0, 50).map(tag => negate + tag);
+        }
+        return TASK_FILTER_KEYS.filter(key => key.startsWith(body.toLowerCase())).map(key => negate + key + ':');
+      }
+
+      const key = match[1].toLowerCase();
+      const partial = match[3].replace(/^"/, '').toLowerCase();
+      let values = [];
+      if (key === 'status') {
+        values = ['open', 'closed'].concat(TASK_STATUSES.map(st => st.name.toLowerCase()));
+      } else if (key === 'tag') {
+        values = rowTags();
+      } else if (key === 'project') {
+        values = unique(rows.map(r => r.getAttribute('data-project')));
+      } else if (key === 'file') {
+        values = unique(rows.map(r => r.getAttribute('data-file')));
+      } else if (key === 'priority') {
+        values = Object.keys(PRIORITY_ICONS);
+      } else if (['due', 'scheduled', 'start', 'done', 'date'].includes(key)) {
+        values = ['today', 'tomorrow', 'yesterday', '+7d', '-7d', 'none', 'any'];
+      }
+      return values
+        .filter(v => v.toLowerCase().startsWith(partial) && v.toLowerCase() !== partial)
+        .slice(0, 50)
+        .map(v => negate + match[1] + match[2] + (/\\s/.test(v) ? '"' + v + '"' : v));
+    }
+
+    let querySuggestionIndex = 0;
+
+    function hideQuerySuggestions() {
+      const list = document.getElementById('querySuggestions');
+      if (list) list.style.display = 'none';
+    }
+
+    function updateQuerySuggestions() {
+      const queryInput = document.getElementById('queryInput');
+      const list = document.getElementById('querySuggestions');
+      if (!queryInput || !list) return;
+      const term = queryTermAtCaret(queryInput);
+      const suggestions = querySuggestionsFor(term.text);
+      if (suggestions.length === 0) {
+        hideQuerySuggestions();
+        return;
+      }
+      querySuggestionIndex = Math.min(querySuggestionIndex, suggestions.length - 1);
+      list.innerHTML = '';
+      suggestions.forEach((suggestion, index) => {
+        const item = document.createElement('li');
+        item.textContent = suggestion;
+        item.setAttribute('data-value', suggestion);
+        if (index === querySuggestionIndex) item.classList.add('active');
+        list.appendChild(item);
+      });
+      list.style.display = 'block';
+    }
+
+    function acceptQuerySuggestion(value) {
+      const queryInput = document.getElementById('queryInput');
+      if (!queryInput) return;
+      const term = queryTermAtCaret(queryInput);
+      // Replace the whole term, including what follows the caret
+      let end = term.end;
+      while (end < queryInput.value.length && !/\\s/.test(queryInput.value[end])) end++;
+      const completesValue = !/(:~|<=|>=|:|<|>)$/.test(value);
+      const before = queryInput.value.slice(0, term.start) + value + (completesValue ? ' ' : '');
+      queryInput.value = before + queryInput.value.slice(end).replace(/^\\s+/, '');
+      queryInput.setSelectionRange(before.length, before.length);
+      querySuggestionIndex = 0;
+      setQuery(queryInput.value);
+      applyFilter();
+      if (completesValue) {
+        hideQuerySuggestions();
+      } else {
+        updateQuerySuggestions();
+      }
+    }
+
+    const queryInput = document.getElementById('queryInput');
+    if (queryInput) {
+      queryInput.value = currentQuery;
+      renderQueryErrors();
+
+      queryInput.addEventListener('input', function() {
+        querySuggestionIndex = 0;
+        setQuery(queryInput.value);
+        applyFilter();
+        updateQuerySuggestions();
+      });
+      queryInput.addEventListener('keydown', function(e) {
+        const list = document.getElementById('querySuggestions');
+        const open = list && list.style.display !== 'none' && list.children.length > 0;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          if (!open) {
+            updateQuerySuggestions();
+            e.preventDefault();
+            return;
+          }
+          const count = list.children.length;
+          querySuggestionIndex = (querySuggestionIndex + (e.key === 'ArrowDown' ? 1 : count - 1)) % count;
+          Array.from(list.children).forEach((item, index) => item.classList.toggle('active', index === querySuggestionIndex));
+          list.children[querySuggestionIndex].scrollIntoView({ block: 'nearest' });
+          e.preventDefault();
+        } else if ((e.key === 'Enter' || e.key === 'Tab') && open) {
+          acceptQuerySuggestion(list.children[querySuggestionIndex].getAttribute('data-value'));
+          e.preventDefault();
+        } else if (e.key === 'Escape' && open) {
+          hideQuerySuggestions();
+          e.preventDefault();
+        }
+      });
+      queryInput.addEventListener('scroll', renderQueryErrors);
+      queryInput.addEventListener('blur', function() {
+        setTimeout(hideQuerySuggestions, 150);
+      });
+    }
+
+    // mousedown instead of click so the input keeps the focus
+    document.getElementById('querySuggestions')?.addEventListener('mousedown', function(e) {
+      const item = e.target.closest('li');
+      if (!item) return;
+      e.preventDefault();
+      acceptQuerySuggestion(item.getAttribute('data-value'));
+    });
+
+    document.getElementById('clearQuery')?.addEventListener('click', function() {
+      setQuery('');
+      hideQuerySuggestions();
       applyFilter();
     });
     
+    // Date filter
+    function onDateFilterChange() {
+      const date = document.getElementById('dateFilter')?.value || '';
+      const period = document.getElementById('dateFilterPeriod')?.value || 'day';
+      currentDateFilter = date ? datePeriodKey(date, period) : '';
+      applyFilter();
+    }
+    document.getElementById('dateFilter')?.addEventListener('change', onDateFilterChange);
+    document.getElementById('dateFilterPeriod')?.addEventListener('change', onDateFilterChange);
+    
     // Clear date button
     document.getElementById('clearDate')?.addEventListener('click', function() {
       const dateInput = document.getElementById('dateFilter');
@@ -3986,6 +5438,19 @@ export class TaskTableProvider {
         dateInput.value = '';
         currentDateFilter = '';
       }
+
+      // Clear query
+      setQuery('');
+
+      // Clear status, due, scheduled and priority
+      currentStatusFilter = '';
+      currentDueFilter = '';
+      currentScheduledFilter = '';
+      currentPriorityFilter = '';
+      ['statusFilter', 'dueFilter', 'scheduledFilter', 'priorityFilter'].forEach(id => {
+        const select = document.getElementById(id);
+        if (select) select.value = '';
+      });
       
       // Clear project
       currentFilter = [];
@@ -4013,12 +5478,626 @@ export class TaskTableProvider {
       applyFilter();
     });
     
+    // Status / due / scheduled / priority filters
+    document.getElementById('statusFilter')?.addEventListener('change', function(e) {
+      currentStatusFilter = e.target.value;
+      applyFilter();
+    });
+    document.getElementById('dueFilter')?.addEventListener('change', function(e) {
+      currentDueFilter = e.target.value;
+      applyFilter();
+    });
+    document.getElementById('scheduledFilter')?.addEventListener('change', function(e) {
+      currentScheduledFilter = e.target.value;
+      applyFilter();
+    });
+    document.getElementById('priorityFilter')?.addEventListener('change', function(e) {
+      currentPriorityFilter = e.target.value;
+      applyFilter();
+    });
+
     // Hide completed toggle
     document.getElementById('hideCompleted')?.addEventListener('change', function(e) {
       currentHideCompleted = e.target.checked;
       applyFilter();
     });
     
+    function setLayout(layout, boardColumns, timelineZoom) {
+      currentLayout = layout === 'board' || layout === 'timeline' ? layout : 'table';
+      if (boardColumns) {
+        currentBoardColumns = boardColumns;
+      }
+      if (timelineZoom) {
+        currentTimelineZoom = timelineZoom;
+      }
+      document.body.classList.toggle('board-layout', currentLayout === 'board');
+      document.body.classList.toggle('timeline-layout', currentLayout === 'timeline');
+      const layoutSelect = document.getElementById('layoutSelect');
+      if (layoutSelect) {
+        layoutSelect.value = currentLayout;
+      }
+      const boardColumnsSelect = document.getElementById('boardColumnsSelect');
+      if (boardColumnsSelect) {
+        boardColumnsSelect.value = currentBoardColumns;
+      }
+      const timelineZoomSelect = document.getElementById('timelineZoomSelect');
+      if (timelineZoomSelect) {
+        timelineZoomSelect.value = currentTimelineZoom;
+      }
+      renderLayout();
+    }
+
+    // Redraw the board or timeline after the rows changed
+    function renderLayout() {
+      renderBoard();
+      renderTimeline();
+    }
+
+    // Board layout: the filtered top-level tasks as cards, in columns by status, project, tag or heading
+
+    // Column of a card; '' collects the cards without tag or heading
+    function boardColumnKey(row) {
+      if (currentBoardColumns === 'status') return row.getAttribute('data-status') || ' ';
+      if (currentBoardColumns === 'project') return row.getAttribute('data-project') || '';
+      if (currentBoardColumns === 'heading') return row.getAttribute('data-heading') || '';
+      const tags = extractTags(row.querySelector('.task-input')?.value || '');
+      return tags.length > 0 ? tags[0].toLowerCase() : '';
+    }
+
+    // Columns shown even when empty: every status, every project, or the lanes of the Kanban notes on the board
+    function boardColumnsFor(allRows, rows) {
+      if (currentBoardColumns === 'status') {
+        return TASK_STATUSES.map(s => ({ key: s.symbol, title: s.name, icon: s.icon }));
+      }
+      if (currentBoardColumns === 'project') {
+        return [...new Set(allRows.map(r => r.getAttribute('data-project') || ''))].sort().map(p => ({ key: p, title: p }));
+      }
+      if (currentBoardColumns === 'tag') {
+        return [{ key: '', title: 'No tag' }];
+      }
+      const files = [...new Set(rows.map(r => r.getAttribute('data-filepath') || ''))];
+      if (files.length === 0 && currentFileFilter.length === 1) {
+        // Empty board of a single note
+        const name = currentFileFilter[0];
+        files.push(...Object.keys(KANBAN_LANES).filter(f => f === name || f.endsWith('/' + name) || f.endsWith('\\\\' + name)));
+      }
+      const columns = [];
+      files.forEach(filePath => {
+        (KANBAN_LANES[filePath] || []).forEach(lane => {
+          if (!columns.some(c => c.key === lane.title)) {
+            columns.push({ key: lane.title, title: lane.title, complete: lane.complete, filePath: filePath });
+          }
+        });
+      });
+      return columns;
+    }
+
+    function boardCardHtml(row) {
+      const status = statusOf(row.getAttribute('data-status') || ' ');
+      const closed = isClosedStatus(status.symbol);
+      const text = row.querySelector('.task-input')?.value || '';
+      const due = row.getAttribute('data-due') || '';
+      const priority = row.getAttribute('data-priority') || 'none';
+      const file = row.getAttribute('data-file') || '';
+      const progress = row.querySelector('.subtask-progress');
+      const meta = [
+        priority !== 'none' ? '<span title="Priority: ' + priority + '">' + PRIORITY_ICONS[priority] + '</span>' : '',
+        due ? '<span class="board-card-due' + (!closed && due < todayIso() ? ' overdue' : '') + '">📅 ' + due + '</span>' : '',
+        progress ? progress.outerHTML : '',
+        '<span class="board-card-file" title="Open ' + escapeAttr(file) + '">' + escapeHtml(file) + '</span>'
+      ].join('');
+      return '<div class="board-card' + (closed ? ' task-completed' : '') + '" draggable="true" data-task-id="' + escapeAttr(row.getAttribute('data-task-id') || '') + '">' +
+        '<div class="board-card-title">' +
+          '<span class="codicon codicon-' + status.icon + ' task-status-icon status-' + status.type + '" title="' + escapeAttr(status.name) + ' (click to change)"></span>' +
+          '<span class="board-card-text">' + renderMarkdown(text) + '</span>' +
+        '</div>' +
+        '<div class="board-card-meta">' + meta + '</div>' +
+      '</div>';
+    }
+
+    function renderBoard() {
+      const board = document.getElementById('board');
+      if (!board || currentLayout !== 'board') return;
+      const allRows = Array.from(document.querySelectorAll('#tasksTable tbody tr[data-task-id]'));
+      let rows = allRows.filter(r => !r.hasAttribute('data-filter-hidden') && r.getAttribute('data-depth') === '0');
+      if (currentBoardColumns === 'heading') {
+        // Cards keep the order of the note, like the lanes of a Kanban board
+        rows = rows.slice().sort((a, b) =>
+          (a.getAttribute('data-filepath') || '').localeCompare(b.getAttribute('data-filepath') || '') ||
+          parseInt(a.getAttribute('data-line-number') || '0', 10) - parseInt(b.getAttribute('data-line-number') || '0', 10));
+      }
+
+      const columns = boardColumnsFor(allRows, rows);
+      const cards = new Map(columns.map(c => [c.key, []]));
+      rows.forEach(row => {
+        const key = boardColumnKey(row);
+        if (!cards.has(key)) {
+          columns.push({ key: key, title: key || 'No heading', filePath: row.getAttribute('data-filepath') || '' });
+          cards.set(key, []);
+        }
+        cards.get(key).push(row);
+      });
+      if (currentBoardColumns === 'tag') {
+        columns.sort((a, b) => a.key.localeCompare(b.key));
+      }
+
+      board.innerHTML = columns.map(column => {
+        const columnCards = cards.get(column.key);
+        // Cards can't be moved out of the sections of their note, so "No heading" takes no drops
+        const droppable = currentBoardColumns !== 'heading' || column.key !== '';
+        const addTo = currentBoardColumns === 'heading' && column.key !== '' ? column.filePath : '';
+        return '<div class="board-column" data-column-key="' + escapeAttr(column.key) + '"' + (droppable ? '' : ' data-no-drop="1"') + '>' +
+          '<div class="board-column-header">' +
+            (column.icon ? '<span class="codicon codicon-' + column.icon + '"></span>' : '') +
+            '<span>' + escapeHtml(column.title) + '</span>' +
+            (column.complete ? '<span class="codicon codicon-check" title="Cards moved here are checked"></span>' : '') +
+            '<span class="board-column-count">' + columnCards.length + '</span>' +
+          '</div>' +
+          '<div class="board-cards">' + columnCards.map(boardCardHtml).join('') + '</div>' +
+          (addTo ? '<button class="add-row-btn board-add-card" data-filepath="' + escapeAttr(addTo) + '">+ add card</button>' : '') +
+        '</div>';
+      }).join('');
+    }
+
+    function rowOfTask(taskId) {
+      return Array.from(document.querySelectorAll('#tasksTable tbody tr[data-task-id]')).find(r => r.getAttribute('data-task-id') === taskId);
+    }
+
+    document.getElementById('layoutSelect')?.addEventListener('change', function() {
+      setLayout(this.value);
+      syncViewSelect();
+    });
+
+    document.getElementById('boardColumnsSelect')?.addEventListener('change', function() {
+      setLayout(currentLayout, this.value);
+      syncViewSelect();
+    });
+
+    document.getElementById('board')?.addEventListener('click', function(e) {
+      const addButton = e.target.closest('.board-add-card');
+      if (addButton) {
+        vscode.postMessage({
+          command: 'addCard',
+          filePath: addButton.getAttribute('data-filepath'),
+          heading: addButton.closest('.board-column').getAttribute('data-column-key')
+        });
+        return;
+      }
+      const card = e.target.closest('.board-card');
+      const row = card && rowOfTask(card.getAttribute('data-task-id'));
+      if (!row) return;
+      if (e.target.closest('.task-status-icon')) {
+        vscode.postMessage({ command: 'cycleStatus', taskId: row.getAttribute('data-task-id') });
+      } else if (e.target.closest('.board-card-file')) {
+        vscode.postMessage({
+          command: 'openFile',
+          filePath: row.getAttribute('data-filepath'),
+          lineNumber: parseInt(row.getAttribute('data-line-number') || '0', 10)
+        });
+      }
+    });
+
+    // Dragging a card to another column rewrites its checkbox, file, tag or section
+    let boardDragCard = null;
+
+    function clearBoardDragIndicators() {
+      document.querySelectorAll('.board-column.drag-over, .board-card.drag-over-before').forEach(el => {
+        el.classList.remove('drag-over', 'drag-over-before');
+      });
+    }
+
+    document.getElementById('board')?.addEventListener('dragstart', function(e) {
+      const card = e.target.closest('.board-card');
+      if (!card) return;
+      boardDragCard = card;
+      card.classList.add('dragging');
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', ''); // required for Firefox
+    });
+
+    document.getElementById('board')?.addEventListener('dragover', function(e) {
+      const column = e.target.closest('.board-column');
+      if (!column || !boardDragCard || column.hasAttribute('data-no-drop')) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      clearBoardDragIndicators();
+      column.classList.add('drag-over');
+      // Within the sections of a note the position matters: the card goes before the one it is dropped on
+      const card = e.target.closest('.board-card');
+      if (currentBoardColumns === 'heading' && card && card !== boardDragCard) {
+        card.classList.add('drag-over-before');
+      }
+    });
+
+    document.getElementById('board')?.addEventListener('dragend', function() {
+      clearBoardDragIndicators();
+      if (boardDragCard) { boardDragCard.classList.remove('dragging'); }
+      boardDragCard = null;
+    });
+
+    document.getElementById('board')?.addEventListener('drop', function(e) {
+      const column = e.target.closest('.board-column');
+      const card = boardDragCard;
+      clearBoardDragIndicators();
+      if (!column || !card || column.hasAttribute('data-no-drop')) return;
+      e.preventDefault();
+      card.classList.remove('dragging');
+      boardDragCard = null;
+
+      const row = rowOfTask(card.getAttribute('data-task-id'));
+      if (!row) return;
+      const from = boardColumnKey(row);
+      const to = column.getAttribute('data-column-key') || '';
+      const beforeCard = currentBoardColumns === 'heading' ? e.target.closest('.board-card') : null;
+      if (from === to && (!beforeCard || beforeCard === card)) return;
+
+      // Move the card right away; the reload that follows confirms it
+      const cardsEl = column.querySelector('.board-cards');
+      if (cardsEl) {
+        cardsEl.insertBefore(card, beforeCard && beforeCard !== card ? beforeCard : null);
+      }
+
+      vscode.postMessage({
+        command: 'moveCard',
+        taskId: row.getAttribute('data-task-id'),
+        columns: currentBoardColumns,
+        from: from,
+        to: to,
+        beforeTaskId: beforeCard && beforeCard !== card ? beforeCard.getAttribute('data-task-id') : undefined
+      });
+    });
+
+    // Timeline layout: the filtered tasks as bars from their start (🛫 start, ⏳ scheduled or note
+    // date) to their 📅 due date, grouped by project. Days are counted from 1970-01-01 (UTC).
+    const TIMELINE_DAY_WIDTH = { day: 36, week: 14, month: 4 };
+    let timelineDrag = null; // bar being moved or stretched
+    let timelineScrolled = false; // scrolled to today on the first render
+
+    function isoToDay(iso) {
+      const parts = iso.split('-').map(n => parseInt(n, 10));
+      return Math.round(Date.UTC(parts[0], parts[1] - 1, parts[2]) / 86400000);
+    }
+
+    function dayToIso(day) {
+      return new Date(day * 86400000).toISOString().slice(0, 10);
+    }
+
+    // First and last day of a task's bar, or null when it has no date at all
+    function timelineSpan(row) {
+      const noteDate = (row.querySelector('.date-text') || row.querySelector('.date-cell'))?.textContent?.trim() || '';
+      const due = row.getAttribute('data-due') || '';
+      const start = row.getAttribute('data-start') || row.getAttribute('data-scheduled') || noteDate || due;
+      if (!/^\\d{4}-\\d{2}-\\d{2}$/.test(start)) return null;
+      const startDay = isoToDay(start);
+      return { start: startDay, end: due ? Math.max(isoToDay(due), startDay) : startDay };
+    }
+
+    // Labels above the bars: every day, every Monday or every first of the month
+    function timelineScaleHtml(first, days, dayWidth) {
+      let html = '';
+      for (let day = first; day < first + days; day++) {
+        const date = new Date(day * 86400000);
+        let label = '';
+        if (currentTimelineZoom === 'day') {
+          label = String(date.getUTCDate());
+        } else if (currentTimelineZoom === 'week' && date.getUTCDay() === 1) {
+          label = date.getUTCDate() + ' ' + date.toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' });
+        } else if (currentTimelineZoom === 'month' && date.getUTCDate() === 1) {
+          label = date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+        }
+        if (label) {
+          const weekend = currentTimelineZoom === 'day' && (date.getUTCDay() === 0 || date.getUTCDay() === 6);
+          html += '<span class="timeline-tick' + (weekend ? ' weekend' : '') + '" style="left: ' + (day - first) * dayWidth + 'px">' + label + '</span>';
+        }
+      }
+      return html;
+    }
+
+    function timelineRowHtml(bar, first, dayWidth, width, today) {
+      const row = bar.row;
+      const status = statusOf(row.getAttribute('data-status') || ' ');
+      const closed = isClosedStatus(status.symbol);
+      const due = row.getAttribute('data-due') || '';
+      const overdue = !closed && due !== '' && isoToDay(due) < today;
+      const text = row.querySelector('.task-input')?.value || '';
+      const depth = parseInt(row.getAttribute('data-depth') || '0', 10);
+      const range = dayToIso(bar.span.start) + (bar.span.end > bar.span.start ? ' → ' + dayToIso(bar.span.end) : '');
+      return '<div class="timeline-row" data-task-id="' + escapeAttr(row.getAttribute('data-task-id') || '') + '">' +
+        '<div class="timeline-label" style="padding-left: ' + (8 + depth * 14) + 'px" title="' + escapeAttr(text) + '">' +
+          '<span class="codicon codicon-' + status.icon + ' status-' + status.type + '"></span>' +
+          '<span class="timeline-label-text">' + renderMarkdown(text) + '</span>' +
+        '</div>' +
+        '<div class="timeline-track" style="width: ' + width + 'px">' +
+          '<div class="timeline-bar' + (closed ? ' task-completed' : '') + (overdue ? ' overdue' : '') + '"' +
+            ' style="left: ' + (bar.span.start - first) * dayWidth + 'px; width: ' + (bar.span.end - bar.span.start + 1) * dayWidth + 'px"' +
+            ' title="' + escapeAttr(range + (overdue ? ' (overdue)' : '')) + '"' +
+            ' data-start-day="' + bar.span.start + '" data-end-day="' + bar.span.end + '">' +
+            '<span class="timeline-handle timeline-handle-start" title="Drag to change the start"></span>' +
+            '<span class="timeline-handle timeline-handle-end" title="Drag to change the due date"></span>' +
+          '</div>' +
+        '</div>' +
+      '</div>';
+    }
+
+    function renderTimeline() {
+      const timeline = document.getElementById('timeline');
+      if (!timeline || currentLayout !== 'timeline' || timelineDrag) return;
+      const dayWidth = TIMELINE_DAY_WIDTH[currentTimelineZoom] || TIMELINE_DAY_WIDTH.week;
+      const today = isoToDay(todayIso());
+      const rows = Array.from(document.querySelectorAll('#tasksTable tbody tr[data-task-id]')).filter(r => !r.hasAttribute('data-filter-hidden'));
+
+      const bars = [];
+      let undated = 0;
+      rows.forEach(row => {
+        const span = timelineSpan(row);
+        if (span) {
+          bars.push({ row: row, span: span });
+        } else {
+          undated++;
+        }
+      });
+
+      // Room around the bars and today, starting on a Monday (day 0 was a Thursday)
+      const padding = currentTimelineZoom === 'month' ? 31 : currentTimelineZoom === 'week' ? 14 : 3;
+      let first = Math.min(today, ...bars.map(b => b.span.start)) - padding;
+      first -= (first + 3) % 7;
+      const last = Math.max(today, ...bars.map(b => b.span.end)) + padding;
+      const days = last - first + 1;
+      const width = days * dayWidth;
+
+      const groups = new Map();
+      bars.sort((a, b) => a.span.start - b.span.start || a.span.end - b.span.end).forEach(bar => {
+        const project = bar.row.getAttribute('data-project') || '';
+        if (!groups.has(project)) groups.set(project, []);
+        groups.get(project).push(bar);
+      });
+
+      let html = '<div class="timeline-header"><div class="timeline-label"></div>' +
+        '<div class="timeline-track" style="width: ' + width + 'px">' + timelineScaleHtml(first, days, dayWidth) + '</div></div>';
+      [...groups.keys()].sort().forEach(project => {
+        const projectBars = groups.get(project);
+        html += '<div class="timeline-group"><div class="timeline-label">' + escapeHtml(project || 'No project') +
+          ' <span class="timeline-group-count">' + projectBars.length + '</span></div>' +
+          '<div class="timeline-track" style="width: ' + width + 'px"></div></div>';
+        projectBars.forEach(bar => { html += timelineRowHtml(bar, first, dayWidth, width, today); });
+      });
+      html += '<div class="timeline-today" title="Today" style="left: ' + (${TIMELINE_LABEL_WIDTH} + (today - first) * dayWidth + dayWidth / 2 - 1) + 'px"></div>';
+
+      const scrollLeft = timeline.scrollLeft;
+      timeline.style.setProperty('--timeline-grid', (currentTimelineZoom === 'day' ? dayWidth : dayWidth * 7) + 'px');
+      timeline.innerHTML = '<div class="timeline-inner" style="width: ' + (${TIMELINE_LABEL_WIDTH} + width) + 'px">' + html + '</div>' +
+        (undated > 0 ? '<div class="timeline-undated">' + undated + (undated === 1 ? ' task has' : ' tasks have') + ' no date and ' + (undated === 1 ? 'is' : 'are') + ' not shown.</div>' : '');
+      if (timelineScrolled) {
+        timeline.scrollLeft = scrollLeft;
+      } else {
+        timeline.scrollLeft = Math.max(0, (today - first - 7) * dayWidth);
+        timelineScrolled = true;
+      }
+    }
+
+    document.getElementById('timelineZoomSelect')?.addEventListener('change', function() {
+      timelineScrolled = false;
+      setLayout(currentLayout, undefined, this.value);
+      syncViewSelect();
+    });
+
+    document.getElementById('timeline')?.addEventListener('click', function(e) {
+      const label = e.target.closest('.timeline-row .timeline-label');
+      const row = label && rowOfTask(label.closest('.timeline-row').getAttribute('data-task-id'));
+      if (!row) return;
+      vscode.postMessage({
+        command: 'openFile',
+        filePath: row.getAttribute('data-filepath'),
+        lineNumber: parseInt(row.getAttribute('data-line-number') || '0', 10)
+      });
+    });
+
+    // Dragging a bar moves the task; dragging one of its edges changes the start or due date
+    document.getElementById('timeline')?.addEventListener('mousedown', function(e) {
+      const bar = e.target.closest('.timeline-bar');
+      if (!bar || e.button !== 0) return;
+      e.preventDefault();
+      timelineDrag = {
+        bar: bar,
+        edge: e.target.classList.contains('timeline-handle-start') ? 'start' : e.target.classList.contains('timeline-handle-end') ? 'end' : 'move',
+        x: e.clientX,
+        startDay: parseInt(bar.getAttribute('data-start-day') || '0', 10),
+        endDay: parseInt(bar.getAttribute('data-end-day') || '0', 10),
+        left: parseFloat(bar.style.left),
+        width: parseFloat(bar.style.width),
+        startDays: 0,
+        endDays: 0
+      };
+      bar.classList.add('dragging');
+    });
+
+    document.addEventListener('mousemove', function(e) {
+      const drag = timelineDrag;
+      if (!drag) return;
+      const dayWidth = TIMELINE_DAY_WIDTH[currentTimelineZoom] || TIMELINE_DAY_WIDTH.week;
+      const delta = Math.round((e.clientX - drag.x) / dayWidth);
+      const length = drag.endDay - drag.startDay;
+      // An edge stops at the other one, so the bar keeps at least one day
+      drag.startDays = drag.edge === 'end' ? 0 : drag.edge === 'start' ? Math.min(delta, length) : delta;
+      drag.endDays = drag.edge === 'start' ? 0 : drag.edge === 'end' ? Math.max(delta, -length) : delta;
+      drag.bar.style.left = (drag.left + drag.startDays * dayWidth) + 'px';
+      drag.bar.style.width = (drag.width + (drag.endDays - drag.startDays) * dayWidth) + 'px';
+      drag.bar.title = dayToIso(drag.startDay + drag.startDays) + ' → ' + dayToIso(drag.endDay + drag.endDays);
+    });
+
+    document.addEventListener('mouseup', function() {
+      const drag = timelineDrag;
+      if (!drag) return;
+      timelineDrag = null;
+      drag.bar.classList.remove('dragging');
+      if (drag.startDays === 0 && drag.endDays === 0) return;
+      vscode.postMessage({
+        command: 'shiftTaskDates',
+        taskId: drag.bar.closest('.timeline-row').getAttribute('data-task-id'),
+        startDays: drag.startDays,
+        endDays: drag.endDays
+      });
+    });
+
+    // Saved views: the state they store, and switching between them
+    function currentViewState() {
+      return {
+        query: currentQuery,
+        search: currentSearchText,
+        date: currentDateFilter,
+        projects: currentFilter.slice(),
+        files: currentFileFilter.slice(),
+        status: currentStatusFilter,
+        due: currentDueFilter,
+        scheduled: currentScheduledFilter,
+        priority: currentPriorityFilter,
+        groupBy: currentGroupBy,
+        sort: { column: currentSort.column, direction: currentSort.direction },
+        hideCompleted: currentHideCompleted,
+        hiddenColumns: hiddenColumns.slice(),
+        layout: currentLayout,
+        boardColumns: currentBoardColumns,
+        timelineZoom: currentTimelineZoom
+      };
+    }
+
+    // A view with its missing fields set to the table defaults
+    function normalizeView(view) {
+      return {
+        query: view.query || '',
+        search: view.search || '',
+        date: view.date || '',
+        projects: view.projects || [],
+        files: view.files || [],
+        status: view.status || '',
+        due: view.due || '',
+        scheduled: view.scheduled || '',
+        priority: view.priority || '',
+        groupBy: view.groupBy || 'none',
+        sort: view.sort && view.sort.column
+          ? { column: view.sort.column, direction: view.sort.direction === 'asc' ? 'asc' : 'desc' }
+          : { column: 'date', direction: 'desc' },
+        hideCompleted: typeof view.hideCompleted === 'boolean' ? view.hideCompleted : ${hideCompletedDefault},
+        hiddenColumns: (view.hiddenColumns || []).slice().sort(),
+        layout: view.layout === 'board' || view.layout === 'timeline' ? view.layout : 'table',
+        boardColumns: view.boardColumns || 'status',
+        timelineZoom: view.timelineZoom || 'week'
+      };
+    }
+
+    function applyView(view) {
+      const state = normalizeView(view);
+      currentSearchText = state.search;
+      currentDateFilter = state.date;
+      currentFilter = state.projects.slice();
+      currentFileFilter = state.files.slice();
+      currentStatusFilter = state.status;
+      currentDueFilter = state.due;
+      currentScheduledFilter = state.scheduled;
+      currentPriorityFilter = state.priority;
+      currentHideCompleted = state.hideCompleted;
+      currentGroupBy = state.groupBy;
+      collapsedGroups.clear();
+      currentSort = state.sort;
+      hiddenColumns = state.hiddenColumns;
+      setQuery(state.query);
+      restoreFilterControls();
+      applyHiddenColumns();
+      setLayout(state.layout, state.boardColumns, state.timelineZoom);
+      updateSortIndicator();
+      applySorting();
+      applyFilter();
+    }
+
+    function applyHiddenColumns() {
+      document.querySelectorAll('#columnsMenu input[data-column-key]').forEach(input => {
+        const key = input.getAttribute('data-column-key');
+        input.checked = !hiddenColumns.includes(key);
+        document.body.classList.toggle('hide-col-' + key, hiddenColumns.includes(key));
+      });
+      vscode.setState({ ...(vscode.getState() || {}), hiddenColumns: hiddenColumns });
+    }
+
+    function renderViewOptions() {
+      const select = document.getElementById('viewSelect');
+      if (!select) return;
+      select.innerHTML = '<option value="">Custom</option>' + taskViews.map((view, index) =>
+        '<option value="' + index + '">' + escapeHtml(view.name) + (view.location === 'vault' ? ' (vault)' : '') + '</option>'
+      ).join('');
+      syncViewSelect();
+    }
+
+    // Select the saved view matching the current state, or "Custom"
+    function syncViewSelect() {
+      const select = document.getElementById('viewSelect');
+      if (!select) return;
+      const state = JSON.stringify(normalizeView(currentViewState()));
+      const index = taskViews.findIndex(view => JSON.stringify(normalizeView(view)) === state);
+      select.value = index === -1 ? '' : String(index);
+      const deleteBtn = document.getElementById('deleteViewBtn');
+      if (deleteBtn) {
+        deleteBtn.disabled = index === -1;
+      }
+    }
+
+    function selectedView() {
+      const select = document.getElementById('viewSelect');
+      return select && select.value !== '' ? taskViews[parseInt(select.value, 10)] : undefined;
+    }
+
+    document.getElementById('viewSelect')?.addEventListener('change', function() {
+      const view = selectedView();
+      if (view) {
+        lastViewName = view.name;
+        applyView(view);
+      }
+    });
+
+    document.getElementById('saveViewBtn')?.addEventListener('click', function() {
+      const view = selectedView();
+      vscode.postMessage({ command: 'saveView', view: currentViewState(), name: view ? view.name : lastViewName });
+    });
+
+    document.getElementById('deleteViewBtn')?.addEventListener('click', function() {
+      const view = selectedView();
+      if (view) {
+        vscode.postMessage({ command: 'deleteView', name: view.name, location: view.location });
+      }
+    });
+
+    // Export of the rows left by the filters, in table order
+    function exportVisibleTasks() {
+      const taskIds = Array.from(document.querySelectorAll('#tasksTable tbody tr[data-task-id]'))
+        .filter(r => !r.hasAttribute('data-filter-hidden'))
+        .map(r => r.getAttribute('data-task-id'));
+      vscode.postMessage({ command: 'exportTasks', taskIds: taskIds });
+    }
+
+    document.getElementById('exportBtn')?.addEventListener('click', exportVisibleTasks);
+
+    // Column picker
+    document.getElementById('columnsBtn')?.addEventListener('click', function(e) {
+      e.stopPropagation();
+      document.getElementById('columnsMenu')?.classList.toggle('open');
+    });
+
+    document.getElementById('columnsMenu')?.addEventListener('change', function(e) {
+      const key = e.target.getAttribute('data-column-key');
+      if (!key) return;
+      hiddenColumns = e.target.checked ? hiddenColumns.filter(k => k !== key) : hiddenColumns.concat(key);
+      applyHiddenColumns();
+      syncViewSelect();
+    });
+
+    document.addEventListener('click', function(e) {
+      const menu = document.getElementById('columnsMenu');
+      if (menu && !e.target.closest('#columnsMenu, #columnsBtn')) {
+        menu.classList.remove('open');
+      }
+    });
+
+    applyHiddenColumns();
+    
     // Sorting
     document.querySelectorAll('th.sortable').forEach(th => {
       th.addEventListener('click', function() {
@@ -4040,6 +6119,8 @@ export class TaskTableProvider {
         
         // Apply sorting
         applySorting();
+        renderLayout();
+        syncViewSelect();
       });
     });
     
@@ -4052,6 +6133,7 @@ export class TaskTableProvider {
     
     // Initialize task count
     applyFilter();
+    applyTimerState();
 
     // Initialize render divs on first load
     document.querySelectorAll('.task-input').forEach(function(ta) { switchToViewMode(ta); });
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+/**
+ * Named task table views: the filters, grouping, sorting, hide-completed state, hidden columns
+ * and layout (table, board or timeline) of the table. They are stored either in the
+ * `obsidianManager.taskTableViews` setting (workspace settings when a folder is open) or in
+ * `.vscode/obsidian-task-views.json` inside the vault, which can be committed and shared with the team.
+ * Missing fields mean "no filter" / the table default.
+ */
+export interface TaskView {
+  name: string;
+  query?: string;
+  search?: string;
+  date?: string; // YYYY-MM-DD, or a period: 2026-W42, 2026-10, 2026-Q4, 2026
+  projects?: string[];
+  files?: string[];
+  status?: string; // '' | 'open' | a status symbol
+  due?: string; // '' | 'overdue' | 'today' | 'week' | 'set' | 'none'
+  scheduled?: string;
+  priority?: string;
+  groupBy?: string;
+  sort?: { column: string; direction: 'asc' | 'desc' };
+  hideCompleted?: boolean;
+  hiddenColumns?: string[]; // 'date' | 'due' | 'scheduled' | 'priority' | 'spent' | 'open-file' | 'move' | 'insert'
+  layout?: 'table' | 'board' | 'timeline';
+  boardColumns?: string; // 'status' | 'project' | 'tag' | 'heading'
+  timelineZoom?: string; // 'day' | 'week' | 'month'
+}
+
+export type TaskViewLocation = 'settings' | 'vault';
+
+export interface StoredTaskView extends TaskView {
+  location: TaskViewLocation;
+}
+
+export const TASK_VIEWS_FILE = path.join('.vscode', 'obsidian-task-views.json');
+
+interface TaskViewsFile {
+  views: TaskView[];
+}
+
+function isTaskView(value: unknown): value is TaskView {
+  return !!value && typeof (value as TaskView).name === 'string' && (value as TaskView).name.trim() !== '';
+}
+
+async function readViewsFile(vaultPath: string): Promise<TaskView[]> {
+  try {
+    const raw = await fs.readFile(path.join(vaultPath, TASK_VIEWS_FILE), 'utf8');
+    const data = JSON.parse(raw) as TaskViewsFile;
+    return Array.isArray(data.views) ? data.views.filter(isTaskView) : [];
+  } catch {
+    // No shared views yet
+    return [];
+  }
+}
+
+async function writeViewsFile(vaultPath: string, views: TaskView[]): Promise<void> {
+  const target = path.join(vaultPath, TASK_VIEWS_FILE);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const data: TaskViewsFile = { views };
+  await fs.writeFile(target, JSON.stringify(data, null, 2) + '\n', 'utf8');
+}
+
+function readSettingsViews(): TaskView[] {
+  const views = vscode.workspace.getConfiguration('obsidianManager').get<TaskView[]>('taskTableViews', []);
+  return Array.isArray(views) ? views.filter(isTaskView) : [];
+}
+
+async function writeSettingsViews(views: TaskView[]): Promise<void> {
+  // Workspace settings when a folder is open, so each workspace keeps its own views
+  const target = vscode.workspace.workspaceFolders?.length
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+  await vscode.workspace.getConfiguration('obsidianManager').update('taskTableViews', views, target);
+}
+
+/**
+ * Views from the settings followed by the vault's shared views.
+ */
+export async function loadTaskViews(vaultPath: string): Promise<StoredTaskView[]> {
+  const settingsViews = readSettingsViews().map(view => ({ ...view, location: 'settings' as const }));
+  const vaultViews = vaultPath
+    ? (await readViewsFile(vaultPath)).map(view => ({ ...view, location: 'vault' as const }))
+    : [];
+  return [...settingsViews, ...vaultViews];
+}
+
+/**
+ * Save a view, replacing the view of the same name at that location.
+ */
+export async function saveTaskView(view: TaskView, location: TaskViewLocation, vaultPath: string): Promise<void> {
+  const replace = (views: TaskView[]) => {
+    const index = views.findIndex(v => v.name === view.name);
+    return index === -1 ? [...views, view] : views.map((v, i) => i === index ? view : v);
+  };
+  if (location === 'vault') {
+    await writeViewsFile(vaultPath, replace(await readViewsFile(vaultPath)));
+  } else {
+    await writeSettingsViews(replace(readSettingsViews()));
+  }
+}
+
+export async function deleteTaskView(name: string, location: TaskViewLocation, vaultPath: string): Promise<void> {
+  if (location === 'vault') {
+    await writeViewsFile(vaultPath, (await readViewsFile(vaultPath)).filter(v => v.name !== name));
+  } else {
+    await writeSettingsViews(readSettingsViews().filter(v => v.name !== name));
+  }
+}
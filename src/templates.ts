@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { VaultIndex } from './vaultIndex';
+import { formatDate } from './dateFormat';
+import { getTemplateSettings } from './obsidianConfig';
+
+/**
+ * Templates of new notes: the notes of the templates folder (`obsidianManager.templatesFolder`,
+ * else the folder of Obsidian's Templates plugin), with the tokens of
+ * Obsidian's core Templates plugin and a few more:
+ *   {{title}}                      name of the new note
+ *   {{date}} {{time}}              `templateDateFormat` / `templateTimeFormat`, or Obsidian's
+ *   {{date:FORMAT}} {{time:FORMAT}} moment.js format, e.g. {{date:dddd D MMMM}}
+ *   {{date+1d}} {{date-2w:FORMAT}}  date arithmetic: h hours, d days, w weeks, m months, y years
+ *   {{selection}} {{clipboard}}    selected text of the active editor, clipboard text
+ *   {{prompt:Question}}            asked when the note is created, {{prompt:Question|default}}
+ * `obsidianManager.folderTemplates` picks the template of new notes per folder.
+ */
+
+export interface TemplateContext {
+  title: string;
+  date: Date; // base of {{date}} and {{time}}: now, or the day picked in the calendar
+  vaultPath?: string; // whose Obsidian settings give the default formats
+}
+
+const TOKEN_REGEX = /\{\{\s*(title|date|time|selection|clipboard|prompt)\s*([+-]\s*\d+\s*[hdwmy])?\s*(?::((?:[^}]|\}(?!\}))*))?\}\}/gi;
+
+function shiftDate(date: Date, offset: string): Date {
+  const match = offset.replace(/\s/g, '').match(/^([+-]\d+)([hdwmy])$/);
+  if (!match) return date;
+  const amount = parseInt(match[1], 10);
+  const result = new Date(date);
+  switch (match[2]) {
+    case 'h': result.setHours(result.getHours() + amount); break;
+    case 'd': result.setDate(result.getDate() + amount); break;
+    case 'w': result.setDate(result.getDate() + amount * 7); break;
+    case 'm':
+    case 'y': {
+      // Jan 31 + 1 month is the last day of February, as with moment.js
+      const months = match[2] === 'm' ? amount : amount * 12;
+      const target = new Date(result.getFullYear(), result.getMonth() + months + 1, 0);
+      result.setFullYear(target.getFullYear(), target.getMonth(), Math.min(result.getDate(), target.getDate()));
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Fill in the tokens of a template; undefined when a prompt was cancelled.
+ */
+export async function renderTemplate(template: string, context: TemplateContext): Promise<string | undefined> {
+  const { dateFormat, timeFormat } = getTemplateSettings(context.vaultPath);
+
+  // Ask every question once, in the order of the template
+  const answers = new Map<string, string>();
+  let clipboard: string | undefined;
+  for (const match of template.matchAll(TOKEN_REGEX)) {
+    const kind = match[1].toLowerCase();
+    if (kind === 'clipboard' && clipboard === undefined) {
+      clipboard = await vscode.env.clipboard.readText();
+    }
+    if (kind !== 'prompt') continue;
+    const [question, defaultValue] = (match[3] || 'Value').split('|').map(part => part.trim());
+    if (answers.has(question)) continue;
+    const answer = await vscode.window.showInputBox({ prompt: `${context.title}: ${question}`, value: defaultValue || '' });
+    if (answer === undefined) {
+      return undefined;
+    }
+    answers.set(question, answer);
+  }
+
+  const editor = vscode.window.activeTextEditor;
+  const selection = editor ? editor.selections.map(s => editor.document.getText(s)).filter(text => text).join('\n') : '';
+
+  return template.replace(TOKEN_REGEX, (_token, kind: string, offset: string | undefined, argument: string | undefined) => {
+    switch (kind.toLowerCase()) {
+      case 'title': return context.title;
+      case 'selection': return selection;
+      case 'clipboard': return clipboard || '';
+      case 'prompt': return answers.get((argument || 'Value').split('|')[0].trim()) || '';
+      default: {
+        const date = offset ? shiftDate(context.date, offset) : context.date;
+        const format = argument?.trim() || (kind.toLowerCase() === 'time' ? timeFormat : dateFormat);
+        return formatDate(date, format);
+      }
+    }
+  });
+}
+
+/**
+ * Folder of the templates, undefined when not set.
+ */
+export function templatesFolder(vaultPath: string): string | undefined {
+  const folder = getTemplateSettings(vaultPath).folder;
+  return folder ? path.join(vaultPath, folder) : undefined;
+}
+
+/**
+ * Path of a template given by name: relative to the templates folder or to the vault, `.md`
+ * optional; undefined when it does not exist.
+ */
+export async function resolveTemplatePath(vaultPath: string, name: string): Promise<string | undefined> {
+  const fileName = name.endsWith('.md') ? name : `${name}.md`;
+  const folder = templatesFolder(vaultPath);
+  for (const candidate of [...(folder ? [path.join(folder, fileName)] : []), path.join(vaultPath, fileName)]) {
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Try the next one
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Template set for new notes in `folder` by `obsidianManager.folderTemplates`: the entry of the
+ * folder or of its closest parent, "" applying to the whole vault.
+ */
+function folderTemplate(vaultPath: string, folder: string): string | undefined {
+  const defaults = vscode.workspace.getConfiguration('obsidianManager').get<Record<string, string>>('folderTemplates', {}) || {};
+  let relative = path.relative(vaultPath, folder).split(path.sep).join('/');
+  if (relative.startsWith('..')) return undefined;
+  const normalized = new Map(Object.entries(defaults).map(([key, value]) => [key.trim().replace(/^\/+|\/+$/g, ''), value]));
+  while (true) {
+    const template = normalized.get(relative);
+    if (template) return template;
+    if (!relative) return undefined;
+    relative = relative.includes('/') ? relative.slice(0, relative.lastIndexOf('/')) : '';
+  }
+}
+
+/**
+ * Template of a new note in `folder`: the folder's default template, else the one picked among
+ * the templates folder's notes. null for a note without template, undefined when cancelled.
+ */
+export async function pickTemplate(vaultIndex: VaultIndex, folder: string): Promise<string | null | undefined> {
+  const vaultPath = vaultIndex.vaultPath;
+  if (!vaultPath) return null;
+
+  const byFolder = folderTemplate(vaultPath, folder);
+  if (byFolder) {
+    const templatePath = await resolveTemplatePath(vaultPath, byFolder);
+    if (templatePath) return templatePath;
+    vscode.window.showWarningMessage(`Template "${byFolder}" of obsidianManager.folderTemplates not found.`);
+  }
+
+  const templates = templatesFolder(vaultPath);
+  if (!templates) return null;
+  await vaultIndex.ready();
+  const notes = vaultIndex.getNotes()
+    .map(note => note.filePath)
+    .filter(filePath => filePath.startsWith(templates + path.sep))
+    .sort((a, b) => a.localeCompare(b));
+  if (notes.length === 0) return null;
+
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: '$(file) Blank note', templatePath: null as string | null },
+      ...notes.map(filePath => ({
+        label: path.basename(filePath, '.md'),
+        description: path.relative(templates, path.dirname(filePath)) || undefined,
+        templatePath: filePath as string | null
+      }))
+    ],
+    { placeHolder: 'Template of the new note' }
+  );
+  return picked ? picked.templatePath : undefined;
+}
+
+/**
+ * Content of a new note at `filePath`: its template (see pickTemplate) filled in, else a
+ * `# title` line when `obsidianManager.addTitleToNewFiles` is on. Undefined when cancelled.
+ * @param templatePath template to use instead of asking, null for none
+ */
+export async function newNoteContent(vaultIndex: VaultIndex, filePath: string, date: Date = new Date(), templatePath?: string | null): Promise<string | undefined> {
+  const title = path.basename(filePath, '.md');
+  const template = templatePath !== undefined ? templatePath : await pickTemplate(vaultIndex, path.dirname(filePath));
+  if (template === undefined) return undefined;
+  if (template) {
+    try {
+      return await renderTemplate(await fs.readFile(template, 'utf8'), { title, date, vaultPath: vaultIndex.vaultPath });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error reading template: ${error}`);
+      return undefined;
+    }
+  }
+  const addTitle = vscode.workspace.getConfiguration('obsidianManager').get<boolean>('addTitleToNewFiles', true);
+  return addTitle ? `# ${title}\n\n` : '';
+}
@@ -0,0 +1,309 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { VaultIndex } from './vaultIndex';
+import { stripTaskMetadata } from './taskMetadata';
+import { getTaskStatuses, findTaskStatus, isClosedStatus } from './taskStatus';
+
+/**
+ * Time tracking on tasks: one timer runs at a time, started from the task table or from the
+ * CodeLens above a checkbox. Stopping it logs the time on the task, depending on
+ * `obsidianManager.timeTrackingLogFormat`, either as a Dataview field added to the task line
+ *   - [ ] Call the client [spent:: 1h25m]
+ * or as a nested interval line, read as a continuation line of the task
+ *   - [ ] Call the client
+ *   	- 09:10–10:35
+ * The time spent on a task is the sum of both.
+ */
+
+export interface RunningTimer {
+  filePath: string;
+  lineNumber: number; // line of the task when the timer started
+  line: string; // the task line, to find it again when lines above were added or removed
+  startedAt: number; // ms since epoch
+}
+
+export type TimeLogFormat = 'field' | 'interval';
+
+const TIMER_STATE_KEY = 'obsidianManager.runningTimer';
+const TASK_LINE_REGEX = /^(\s*)[-*+] \[(.)\]\s?/;
+const SPENT_FIELD_REGEX = /\[spent::\s*([^\]]*?)\s*\]/i;
+const INTERVAL_LINE_REGEX = /^\s*[-*+]\s+(\d{1,2}):(\d{2})\s*[–-]\s*(\d{1,2}):(\d{2})\b/;
+
+/**
+ * Minutes of a duration like `1h25m`, `2h`, `45m` or `45`; undefined when it is not one.
+ */
+export function parseDuration(text: string): number | undefined {
+  const match = text.trim().match(/^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/i);
+  if (match && (match[1] || match[2])) {
+    return parseInt(match[1] || '0', 10) * 60 + parseInt(match[2] || '0', 10);
+  }
+  return /^\d+$/.test(text.trim()) ? parseInt(text.trim(), 10) : undefined;
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h${rest > 0 ? `${rest}m` : ''}` : `${rest}m`;
+}
+
+/**
+ * Minutes logged on a task: its `[spent:: ...]` field plus its `- HH:MM–HH:MM` lines.
+ * @param text task text, continuation lines included
+ */
+export function timeSpent(text: string): number {
+  const lines = text.split('\n');
+  const field = lines[0].match(SPENT_FIELD_REGEX);
+  let minutes = field ? parseDuration(field[1]) || 0 : 0;
+  for (const line of lines.slice(1)) {
+    const interval = line.match(INTERVAL_LINE_REGEX);
+    if (interval) {
+      const start = parseInt(interval[1], 10) * 60 + parseInt(interval[2], 10);
+      const end = parseInt(interval[3], 10) * 60 + parseInt(interval[4], 10);
+      // An interval ending before it starts ran past midnight
+      minutes += end >= start ? end - start : end + 24 * 60 - start;
+    }
+  }
+  return minutes;
+}
+
+/**
+ * Add `minutes` to the `[spent:: ...]` field of a task line, or add the field at the end of the
+ * line, before the ✅ done date and a trailing ^block-id.
+ */
+export function addSpentTime(line: string, minutes: number): string {
+  const field = line.match(SPENT_FIELD_REGEX);
+  if (field) {
+    return line.replace(SPENT_FIELD_REGEX, `[spent:: ${formatDuration((parseDuration(field[1]) || 0) + minutes)}]`);
+  }
+  const tail = line.match(/(\s*✅\uFE0F?\s*\d{4}-\d{2}-\d{2})?(\s\^[A-Za-z0-9-]+)?\s*$/u)!;
+  const body = line.slice(0, tail.index).replace(/\s+$/, '');
+  return `${body} [spent:: ${formatDuration(minutes)}]${tail[0].replace(/\s+$/, '')}`;
+}
+
+function clockTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function taskTitle(line: string): string {
+  return stripTaskMetadata(line.replace(TASK_LINE_REGEX, '')) || line.trim();
+}
+
+/**
+ * The running timer, its status bar item and the logging of the time when it stops.
+ */
+export class TaskTimeTracker implements vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<RunningTimer | undefined>();
+  readonly onDidChange: vscode.Event<RunningTimer | undefined> = this._onDidChange.event;
+  private statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+  private ticker: NodeJS.Timeout | undefined;
+  private timer: RunningTimer | undefined;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.statusBarItem.command = 'obsidianManager.stopTaskTimer';
+    // A timer keeps running across window reloads
+    this.timer = context.workspaceState.get<RunningTimer>(TIMER_STATE_KEY);
+    this.updateStatusBar();
+  }
+
+  public get running(): RunningTimer | undefined {
+    return this.timer;
+  }
+
+  /**
+   * Line of `document` the running timer is on: the task it started on, found like when it is
+   * logged, else the line it started at when that task is no longer there.
+   */
+  public timedLineIn(document: vscode.TextDocument): number | undefined {
+    const timer = this.timer;
+    if (!timer || timer.filePath !== document.uri.fsPath) return undefined;
+    const lineNumber = this.findTaskLine(document, timer);
+    if (lineNumber !== undefined) return lineNumber;
+    return timer.lineNumber < document.lineCount ? timer.lineNumber : undefined;
+  }
+
+  /**
+   * Whether the running timer is on line `lineNumber` of `document`.
+   */
+  public isRunningOn(document: vscode.TextDocument, lineNumber: number): boolean {
+    return this.timedLineIn(document) === lineNumber;
+  }
+
+  /**
+   * Start timing the task on line `lineNumber` of `filePath`, stopping (and logging) the
+   * running timer first.
+   */
+  public async start(filePath: string, lineNumber: number): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    if (lineNumber >= document.lineCount || !TASK_LINE_REGEX.test(document.lineAt(lineNumber).text)) {
+      vscode.window.showErrorMessage('Time tracking: not a task line');
+      return;
+    }
+    const line = document.lineAt(lineNumber).text;
+    if (this.isRunningOn(document, lineNumber)) {
+      return;
+    }
+    if (this.timer) {
+      await this.stop();
+    }
+    await this.setTimer({ filePath, lineNumber, line, startedAt: Date.now() });
+  }
+
+  /**
+   * Stop the running timer and log its time on the task.
+   */
+  public async stop(): Promise<void> {
+    const timer = this.timer;
+    if (!timer) return;
+    await this.setTimer(undefined);
+    const end = new Date();
+    const minutes = Math.max(1, Math.round((end.getTime() - timer.startedAt) / 60000));
+
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(timer.filePath));
+      const lineNumber = this.findTaskLine(document, timer);
+      if (lineNumber === undefined) {
+        vscode.window.showWarningMessage(
+          `Time tracking: the task "${taskTitle(timer.line)}" is no longer in ${path.basename(timer.filePath)}; ${formatDuration(minutes)} were not logged.`
+        );
+        return;
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      const line = document.lineAt(lineNumber);
+      const format = vscode.workspace.getConfiguration('obsidianManager').get<TimeLogFormat>('timeTrackingLogFormat', 'field');
+      if (format === 'interval') {
+        // Right after the task's continuation lines, so the interval stays part of the task
+        let after = lineNumber + 1;
+        while (after < document.lineCount && document.lineAt(after).text.startsWith('\t') && !TASK_LINE_REGEX.test(document.lineAt(after).text)) {
+          after++;
+        }
+        const indent = '\t' + (line.text.match(TASK_LINE_REGEX)?.[1] || '');
+        const entry = `${indent}- ${clockTime(new Date(timer.startedAt))}–${clockTime(end)}`;
+        if (after < document.lineCount) {
+          edit.insert(document.uri, new vscode.Position(after, 0), entry + '\n');
+        } else {
+          edit.insert(document.uri, document.lineAt(after - 1).range.end, '\n' + entry);
+        }
+      } else {
+        edit.replace(document.uri, line.range, addSpentTime(line.text, minutes));
+      }
+
+      const wasDirty = document.isDirty;
+      await vscode.workspace.applyEdit(edit);
+      if (!wasDirty) {
+        await document.save();
+      }
+      vscode.window.setStatusBarMessage(`Logged ${formatDuration(minutes)} on "${taskTitle(timer.line)}"`, 5000);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error logging time: ${error}`);
+    }
+  }
+
+  private findTaskLine(document: vscode.TextDocument, timer: RunningTimer): number | undefined {
+    if (timer.lineNumber < document.lineCount && document.lineAt(timer.lineNumber).text === timer.line) {
+      return timer.lineNumber;
+    }
+    // Lines were added or removed above it, or its checkbox changed since
+    const withoutCheckbox = (text: string) => text.replace(TASK_LINE_REGEX, '$1');
+    for (let i = 0; i < document.lineCount; i++) {
+      const text = document.lineAt(i).text;
+      if (TASK_LINE_REGEX.test(text) && withoutCheckbox(text) === withoutCheckbox(timer.line)) {
+        return i;
+      }
+    }
+    return undefined;
+  }
+
+  private async setTimer(timer: RunningTimer | undefined): Promise<void> {
+    this.timer = timer;
+    await this.context.workspaceState.update(TIMER_STATE_KEY, timer);
+    this.updateStatusBar();
+    this._onDidChange.fire(timer);
+  }
+
+  private updateStatusBar(): void {
+    if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = undefined;
+    }
+    const timer = this.timer;
+    if (!timer) {
+      this.statusBarItem.hide();
+      return;
+    }
+    const title = taskTitle(timer.line);
+    const render = () => {
+      const seconds = Math.floor((Date.now() - timer.startedAt) / 1000);
+      const elapsed = `${Math.floor(seconds / 3600)}:${String(Math.floor(seconds / 60) % 60).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+      this.statusBarItem.text = `$(watch) ${elapsed} ${title.length > 30 ? title.slice(0, 29) + '…' : title}`;
+    };
+    this.statusBarItem.tooltip = `Timing "${title}" (${path.basename(timer.filePath)}) since ${clockTime(new Date(timer.startedAt))}. Click to stop and log the time.`;
+    render();
+    this.ticker = setInterval(render, 1000);
+    this.statusBarItem.show();
+  }
+
+  dispose(): void {
+    if (this.ticker) {
+      clearInterval(this.ticker);
+    }
+    this.statusBarItem.dispose();
+    this._onDidChange.dispose();
+  }
+}
+
+/**
+ * "Start timer" above the open tasks of the vault's notes, "Stop timer" above the timed one.
+ */
+export class TaskTimerCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private tracker: TaskTimeTracker, private vaultIndex: VaultIndex) {
+    this.disposables.push(
+      this._onDidChangeCodeLenses,
+      tracker.onDidChange(() => this._onDidChangeCodeLenses.fire()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('obsidianManager.timeTrackingCodeLens')) this._onDidChangeCodeLenses.fire();
+      })
+    );
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const enabled = vscode.workspace.getConfiguration('obsidianManager').get<boolean>('timeTrackingCodeLens', true);
+    const root = this.vaultIndex.vaultPath;
+    if (!enabled || !root || !document.uri.fsPath.startsWith(root)) return [];
+
+    const statuses = getTaskStatuses();
+    const lenses: vscode.CodeLens[] = [];
+    const timedLine = this.tracker.timedLineIn(document);
+    let inFence = false;
+    for (let i = 0; i < document.lineCount; i++) {
+      const line = document.lineAt(i);
+      if (/^\s*(```|~~~)/.test(line.text)) {
+        inFence = !inFence;
+        continue;
+      }
+      const match = line.text.match(TASK_LINE_REGEX);
+      if (inFence || !match) continue;
+      if (i === timedLine) {
+        lenses.push(new vscode.CodeLens(line.range, {
+          title: '$(debug-stop) Stop timer',
+          command: 'obsidianManager.stopTaskTimer'
+        }));
+      } else if (!isClosedStatus(findTaskStatus(match[2], statuses))) {
+        lenses.push(new vscode.CodeLens(line.range, {
+          title: '$(play) Start timer',
+          command: 'obsidianManager.startTaskTimer',
+          arguments: [document.uri, i]
+        }));
+      }
+    }
+    return lenses;
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
@@ -0,0 +1,703 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { loadVaultIndexCache, saveVaultIndexCache } from './vaultIndexCache';
+import { DailyNoteSettings, getDailyNoteSettings, excludedPathMatcher, isObsidianConfigFile, clearObsidianConfigCache } from './obsidianConfig';
+import { formatDate, parseDate } from './dateFormat';
+
+export interface IndexedTask {
+  line: number; // line of the checkbox (0-indexed)
+  indent: string; // leading whitespace before the bullet
+  bullet: string; // '-', '*' or '+'
+  status: string; // character between the brackets
+  text: string; // task text, including tab-indented continuation lines
+  continuationLines: number; // number of continuation lines glued onto the text
+  tags: string[]; // hashtags found in the task text
+  originalLine: string; // the checkbox line as written
+}
+
+export interface IndexedLink {
+  kind: 'wiki' | 'markdown';
+  target: string; // link target without alias (may include a #fragment)
+  alias?: string; // text after '|' for wiki links, link text for markdown links
+  embed: boolean; // true for ![[...]] and ![...](...)
+  line: number;
+  column: number;
+  length: number;
+}
+
+export interface IndexedHeading {
+  text: string;
+  level: number;
+  line: number;
+}
+
+export interface IndexedBlock {
+  id: string; // block id without the leading '^'
+  line: number;
+}
+
+export interface NoteMetadata {
+  filePath: string;
+  mtime: number;
+  size: number;
+  datePrefix: string; // YYYY-MM-DD from the filename or the daily note format, '' if none
+  frontmatter: Record<string, unknown>;
+  tags: string[]; // inline and frontmatter tags, with leading '#'
+  headings: IndexedHeading[];
+  blocks: IndexedBlock[]; // "^block-id" markers at the end of a line
+  links: IndexedLink[];
+  tasks: IndexedTask[];
+  words: number; // words of the body, fenced code excluded
+}
+
+export interface VaultIndexChange {
+  changed: string[]; // notes added or re-parsed, new attachments
+  removed: string[]; // notes, attachments or folders removed
+  full: boolean; // true after a full (re)build
+}
+
+export type VaultEntry = {
+  fsPath: string;
+  isDirectory: boolean;
+};
+
+const TASK_REGEX = /^(\s*)([-*+])\s+\[(.)\]\s*(.*)$/;
+const CONTINUATION_TASK_REGEX = /^\t*- \[.\]/;
+const HASHTAG_REGEX = /#[a-zA-Z0-9_]+/g;
+const DATE_PREFIX_REGEX = /^(\d{4}-\d{2}-\d{2})/;
+export const BLOCK_ID_REGEX = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+
+/**
+ * Parse the content of a markdown note into the metadata kept by the index.
+ * Links, headings and inline tags inside fenced code blocks are ignored.
+ */
+export function parseNote(filePath: string, content: string, mtime: number, size: number): NoteMetadata {
+  const lines = content.split('\n');
+  const dateMatch = path.basename(filePath).match(DATE_PREFIX_REGEX);
+
+  const { frontmatter, bodyStart } = parseFrontmatter(lines);
+  const tags = new Set<string>(frontmatterList(frontmatter.tags).map(t => t.startsWith('#') ? t : `#${t}`));
+  const headings: IndexedHeading[] = [];
+  const blocks: IndexedBlock[] = [];
+  const links: IndexedLink[] = [];
+  const tasks: IndexedTask[] = [];
+  let words = 0;
+
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+
+    // Tasks are collected everywhere, matching what the task table always did
+    const taskMatch = line.match(TASK_REGEX);
+    if (taskMatch) {
+      const textParts = [taskMatch[4]];
+      let j = i + 1;
+      while (j < lines.length && lines[j].startsWith('\t') && !CONTINUATION_TASK_REGEX.test(lines[j])) {
+        textParts.push(lines[j].replace(/\r$/, '').replace(/^\t/, ''));
+        j++;
+      }
+      const text = textParts.join('\n').trim();
+      tasks.push({
+        line: i,
+        indent: taskMatch[1],
+        bullet: taskMatch[2],
+        status: taskMatch[3],
+        text,
+        continuationLines: j - i - 1,
+        tags: text.match(HASHTAG_REGEX) || [],
+        originalLine: lines[i]
+      });
+    }
+
+    if (i < bodyStart) continue;
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    // Checkboxes and markup alone are not words
+    words += line.replace(/^\s*[-*+]\s+\[.\]/, '').split(/\s+/).filter(w => /[\p{L}\p{N}]/u.test(w)).length;
+
+    const headingMatch = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (headingMatch) {
+      headings.push({ level: headingMatch[1].length, text: headingMatch[2], line: i });
+    }
+
+    const blockMatch = line.match(BLOCK_ID_REGEX);
+    if (blockMatch) {
+      blocks.push({ id: blockMatch[1], line: i });
+    }
+
+    collectLinks(line, i, links);
+
+    for (const tag of line.replace(/`[^`]*`/g, '').match(/(^|\s)#[a-zA-Z0-9_\/-]+/g) || []) {
+      const clean = tag.trim();
+      if (!/^#\d+$/.test(clean)) tags.add(clean);
+    }
+  }
+
+  return {
+    filePath,
+    mtime,
+    size,
+    datePrefix: dateMatch ? dateMatch[1] : '',
+    frontmatter,
+    tags: Array.from(tags),
+    headings,
+    blocks,
+    links,
+    tasks,
+    words
+  };
+}
+
+function collectLinks(line: string, lineNumber: number, links: IndexedLink[]): void {
+  const wikiRegex = /(!?)\[\[([^\]]+)\]\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = wikiRegex.exec(line)) !== null) {
+    const [target, ...aliasParts] = match[2].split('|');
+    links.push({
+      kind: 'wiki',
+      target: target.trim(),
+      alias: aliasParts.length ? aliasParts.join('|').trim() : undefined,
+      embed: match[1] === '!',
+      line: lineNumber,
+      column: match.index,
+      length: match[0].length
+    });
+  }
+
+  const mdRegex = /(!?)\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+  while ((match = mdRegex.exec(line)) !== null) {
+    const rawTarget = match[3].replace(/^<|>$/g, '');
+    // Only vault-relative links are interesting, skip URLs and mail links
+    if (/^[a-z][a-z0-9+.-]*:/i.test(rawTarget) || rawTarget.startsWith('#')) continue;
+    let target = rawTarget;
+    try { target = decodeURIComponent(rawTarget); } catch (e) { /* keep raw target */ }
+    links.push({
+      kind: 'markdown',
+      target,
+      alias: match[2],
+      embed: match[1] === '!',
+      line: lineNumber,
+      column: match.index,
+      length: match[0].length
+    });
+  }
+}
+
+/**
+ * Minimal YAML frontmatter reader: scalars, inline [a, b] lists and "- item" lists.
+ */
+function parseFrontmatter(lines: string[]): { frontmatter: Record<string, unknown>; bodyStart: number } {
+  const frontmatter: Record<string, unknown> = {};
+  if (lines.length === 0 || lines[0].trim() !== '---') {
+    return { frontmatter, bodyStart: 0 };
+  }
+
+  let currentKey: string | undefined;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+    if (line.trim() === '---' || line.trim() === '...') {
+      return { frontmatter, bodyStart: i + 1 };
+    }
+
+    const listItem = line.match(/^\s+-\s+(.*)$/);
+    if (listItem && currentKey) {
+      const existing = frontmatter[currentKey];
+      const list = Array.isArray(existing) ? existing : [];
+      list.push(unquote(listItem[1]));
+      frontmatter[currentKey] = list;
+      continue;
+    }
+
+    const keyValue = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (keyValue) {
+      currentKey = keyValue[1];
+      const value = keyValue[2].trim();
+      if (value.startsWith('[') && value.endsWith(']')) {
+        frontmatter[currentKey] = value.slice(1, -1).split(',').map(v => unquote(v.trim())).filter(Boolean);
+      } else {
+        frontmatter[currentKey] = value === '' ? [] : unquote(value);
+      }
+    }
+  }
+
+  // Unterminated frontmatter: treat the whole file as body
+  return { frontmatter: {}, bodyStart: 0 };
+}
+
+function unquote(value: string): string {
+  return value.replace(/^["'](.*)["']$/, '$1');
+}
+
+/**
+ * Normalise a frontmatter value that may be a string, a comma separated string or a list.
+ */
+export function frontmatterList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(v => String(v)).filter(Boolean);
+  if (typeof value === 'string' && value) return value.split(',').map(v => v.trim()).filter(Boolean);
+  return [];
+}
+
+/**
+ * Single in-memory index of the vault shared by the tree, task table, calendar and hashtag views.
+ * Every note is parsed once and kept up to date from one FileSystemWatcher.
+ */
+export class VaultIndex implements vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<VaultIndexChange>();
+  readonly onDidChange: vscode.Event<VaultIndexChange> = this._onDidChange.event;
+
+  private root: string | undefined;
+  private notes: Map<string, NoteMetadata> = new Map();
+  private folders: Set<string> = new Set();
+  private attachments: Set<string> = new Set();
+  private buildPromise: Promise<void> | undefined;
+  private watcher: vscode.FileSystemWatcher | undefined;
+  private pendingPaths: Set<string> = new Set();
+  private flushTimeout: NodeJS.Timeout | undefined;
+  private cacheSaveTimeout: NodeJS.Timeout | undefined;
+  private configReloadTimeout: NodeJS.Timeout | undefined;
+  // Bumped when the vault changes: walks of an earlier vault stop writing to the maps
+  private generation = 0;
+  private disposables: vscode.Disposable[] = [];
+  // From obsidianConfig: excluded files are left out, daily notes are dated by their format
+  private isExcluded: (relativePath: string) => boolean = () => false;
+  private dailyNotes: DailyNoteSettings = getDailyNoteSettings(undefined);
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('obsidianManager.vault')) {
+          this.rebuild();
+        } else if (
+          e.affectsConfiguration('obsidianManager.excludedFiles') ||
+          e.affectsConfiguration('obsidianManager.dailyNotesFolder') ||
+          e.affectsConfiguration('obsidianManager.dailyNoteFormat')
+        ) {
+          this.scheduleConfigReload();
+        }
+      })
+    );
+    this.rebuild();
+  }
+
+  get vaultPath(): string | undefined {
+    return this.root;
+  }
+
+  /**
+   * Resolve when the initial (or latest full) build has completed.
+   */
+  public ready(): Promise<void> {
+    return this.buildPromise || Promise.resolve();
+  }
+
+  public getNote(filePath: string): NoteMetadata | undefined {
+    return this.notes.get(filePath);
+  }
+
+  public getNotes(): NoteMetadata[] {
+    return Array.from(this.notes.values());
+  }
+
+  public getFolders(): string[] {
+    return Array.from(this.folders);
+  }
+
+  public getAttachments(): string[] {
+    return Array.from(this.attachments);
+  }
+
+  /**
+   * Folders and markdown notes directly inside a folder, folders first.
+   */
+  public getChildren(dir: string): VaultEntry[] {
+    const entries: VaultEntry[] = [];
+    for (const folder of this.folders) {
+      if (path.dirname(folder) === dir) entries.push({ fsPath: folder, isDirectory: true });
+    }
+    for (const filePath of this.notes.keys()) {
+      if (path.dirname(filePath) === dir) entries.push({ fsPath: filePath, isDirectory: false });
+    }
+    entries.sort((a, b) => {
+      if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1;
+      return a.fsPath < b.fsPath ? -1 : a.fsPath > b.fsPath ? 1 : 0;
+    });
+    return entries;
+  }
+
+  /**
+   * Walk the vault again, re-parsing only files whose mtime or size changed.
+   */
+  public async rescan(): Promise<void> {
+    await this.ready();
+    if (!this.root) return;
+    this.buildPromise = this.walkVault(this.root);
+    await this.buildPromise;
+  }
+
+  /**
+   * Re-index specific paths right away (e.g. after the extension wrote them) instead of
+   * waiting for the file watcher to report the change.
+   */
+  public async refreshPaths(paths: string[]): Promise<void> {
+    await this.ready();
+    const change: VaultIndexChange = { changed: [], removed: [], full: false };
+    for (const p of paths) {
+      await this.updatePath(p, change);
+    }
+    this.fireChange(change);
+  }
+
+  private rebuild(): void {
+    const cfg = vscode.workspace.getConfiguration('obsidianManager');
+    const configuredVault = ((cfg.get<string>('vault') || '')).trim();
+    if (this.cacheSaveTimeout) {
+      // Persist the previous vault before its notes are dropped
+      clearTimeout(this.cacheSaveTimeout);
+      this.cacheSaveTimeout = undefined;
+      this.saveCache();
+    }
+    // Changes queued for the previous vault
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = undefined;
+    }
+    this.pendingPaths.clear();
+    this.root = normalizeToFsPath(configuredVault);
+    this.generation++;
+    this.notes.clear();
+    this.folders.clear();
+    this.attachments.clear();
+    clearObsidianConfigCache(this.root);
+    this.loadSettings();
+    this.setupWatcher();
+
+    if (!this.root) {
+      this.buildPromise = Promise.resolve();
+      this.fireChange({ changed: [], removed: [], full: true });
+      return;
+    }
+    this.buildPromise = this.buildFromCache(this.root);
+  }
+
+  /**
+   * Seed the index with the notes persisted by the previous session, then walk the vault:
+   * only files whose mtime or size changed since then are read and parsed again.
+   */
+  private async buildFromCache(root: string): Promise<void> {
+    const generation = this.generation;
+    const cached = await loadVaultIndexCache(this.context.globalStorageUri.fsPath, root);
+    // The vault setting may have changed while the cache was loading
+    if (this.generation !== generation) return;
+    for (const note of cached) {
+      // The daily note format may have changed since then
+      this.notes.set(note.filePath, { ...note, datePrefix: this.noteDate(note.filePath) });
+    }
+    await this.walkVault(root);
+  }
+
+  private loadSettings(): void {
+    this.isExcluded = excludedPathMatcher(this.root);
+    this.dailyNotes = getDailyNoteSettings(this.root);
+  }
+
+  /**
+   * The .obsidian settings or their overrides changed: date the notes again, then walk the vault
+   * so newly excluded files are dropped and no longer excluded ones indexed.
+   */
+  private scheduleConfigReload(): void {
+    if (this.configReloadTimeout) {
+      clearTimeout(this.configReloadTimeout);
+    }
+    this.configReloadTimeout = setTimeout(() => {
+      this.configReloadTimeout = undefined;
+      if (this.root) clearObsidianConfigCache(this.root);
+      this.loadSettings();
+      for (const note of this.notes.values()) {
+        note.datePrefix = this.noteDate(note.filePath);
+      }
+      this.rescan().catch(err => console.error('VaultIndex: error applying Obsidian settings:', err));
+    }, 200);
+  }
+
+  /**
+   * YYYY-MM-DD prefix of the filename, else the date of a daily note named after the daily note
+   * format in the daily notes folder (e.g. `Journal/2026/10/19.md` with `YYYY/MM/DD`).
+   */
+  private noteDate(filePath: string): string {
+    const prefix = path.basename(filePath).match(DATE_PREFIX_REGEX);
+    if (prefix) return prefix[1];
+    if (!this.root) return '';
+    const relative = path.relative(path.join(this.root, this.dailyNotes.folder), filePath).split(path.sep).join('/');
+    if (relative.startsWith('..')) return '';
+    const date = parseDate(relative.replace(/\.md$/i, ''), this.dailyNotes.format);
+    return date ? formatDate(date, 'YYYY-MM-DD') : '';
+  }
+
+  private async walkVault(root: string): Promise<void> {
+    const generation = this.generation;
+    const seenNotes = new Set<string>();
+    const seenFolders = new Set<string>();
+    const seenAttachments = new Set<string>();
+    const changed: string[] = [];
+
+    await this.walkDir(root, 0, seenNotes, seenFolders, seenAttachments, changed, generation);
+    // Another vault was opened meanwhile: its entries are not "disappeared" ones
+    if (this.generation !== generation) return;
+
+    // Drop everything that disappeared since the last walk
+    const removed: string[] = [];
+    for (const p of Array.from(this.notes.keys())) {
+      if (!seenNotes.has(p)) { this.notes.delete(p); removed.push(p); }
+    }
+    for (const p of Array.from(this.folders)) {
+      if (!seenFolders.has(p)) { this.folders.delete(p); removed.push(p); }
+    }
+    for (const p of Array.from(this.attachments)) {
+      if (!seenAttachments.has(p)) { this.attachments.delete(p); removed.push(p); }
+    }
+
+    this.fireChange({ changed, removed, full: true });
+  }
+
+  private async walkDir(
+    dir: string,
+    depth: number,
+    seenNotes: Set<string>,
+    seenFolders: Set<string>,
+    seenAttachments: Set<string>,
+    changed: string[],
+    generation: number
+  ): Promise<void> {
+    // Safety check: prevent infinite recursion
+    if (depth > 50) return;
+
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (err) {
+      return;
+    }
+    if (this.generation !== generation) return;
+
+    const subdirs: string[] = [];
+    const noteFiles: string[] = [];
+    for (const entry of entries) {
+      if (this.isIgnoredName(entry.name)) continue;
+      const full = path.join(dir, entry.name);
+      if (this.isExcludedPath(full, entry.isDirectory())) continue;
+      if (entry.isDirectory()) {
+        seenFolders.add(full);
+        this.folders.add(full);
+        subdirs.push(full);
+      } else if (entry.isFile()) {
+        if (isMarkdownPath(full)) {
+          seenNotes.add(full);
+          noteFiles.push(full);
+        } else {
+          seenAttachments.add(full);
+          this.attachments.add(full);
+        }
+      }
+    }
+
+    // Parse notes in small parallel batches, skipping unchanged files
+    const batchSize = 20;
+    for (let i = 0; i < noteFiles.length; i += batchSize) {
+      await Promise.all(noteFiles.slice(i, i + batchSize).map(async filePath => {
+        if (await this.indexNote(filePath, generation)) changed.push(filePath);
+      }));
+      if (this.generation !== generation) return;
+    }
+
+    const dirBatchSize = 5;
+    for (let i = 0; i < subdirs.length; i += dirBatchSize) {
+      await Promise.all(subdirs.slice(i, i + dirBatchSize).map(sub =>
+        this.walkDir(sub, depth + 1, seenNotes, seenFolders, seenAttachments, changed, generation)
+      ));
+    }
+  }
+
+  /**
+   * (Re)parse a note if it is new or its mtime/size changed. Returns true when parsed.
+   */
+  private async indexNote(filePath: string, generation: number): Promise<boolean> {
+    try {
+      const stat = await fs.stat(filePath);
+      const mtime = stat.mtime.getTime();
+      const existing = this.notes.get(filePath);
+      if (existing && existing.mtime === mtime && existing.size === stat.size) {
+        return false;
+      }
+      const content = await fs.readFile(filePath, 'utf8');
+      if (this.generation !== generation) return false;
+      this.notes.set(filePath, { ...parseNote(filePath, content, mtime, stat.size), datePrefix: this.noteDate(filePath) });
+      return true;
+    } catch (err) {
+      if (this.generation === generation) this.notes.delete(filePath);
+      return false;
+    }
+  }
+
+  private setupWatcher(): void {
+    if (this.watcher) {
+      this.watcher.dispose();
+      this.watcher = undefined;
+    }
+    if (!this.root) return;
+
+    this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.root, '**/*'));
+    const queue = (uri: vscode.Uri) => this.queuePath(uri.fsPath);
+    this.watcher.onDidCreate(queue);
+    this.watcher.onDidChange(queue);
+    this.watcher.onDidDelete(queue);
+  }
+
+  private queuePath(fsPath: string): void {
+    if (this.root && isObsidianConfigFile(this.root, fsPath)) {
+      this.scheduleConfigReload();
+      return;
+    }
+    if (!this.root || this.isIgnoredPath(fsPath)) return;
+    this.pendingPaths.add(fsPath);
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+    }
+    // Batch bursts of watcher events (e.g. a folder move) into one change notification
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = undefined;
+      this.flushPending().catch(err => console.error('VaultIndex: error applying file changes:', err));
+    }, 200);
+  }
+
+  private async flushPending(): Promise<void> {
+    await this.ready();
+    const paths = Array.from(this.pendingPaths);
+    this.pendingPaths.clear();
+    const change: VaultIndexChange = { changed: [], removed: [], full: false };
+    for (const p of paths) {
+      await this.updatePath(p, change);
+    }
+    this.fireChange(change);
+  }
+
+  private async updatePath(fsPath: string, change: VaultIndexChange): Promise<void> {
+    // Also for refreshPaths: hidden folders and files outside the vault stay out of the index
+    if (this.isIgnoredPath(fsPath)) return;
+    const generation = this.generation;
+    let stat;
+    try {
+      stat = await fs.stat(fsPath);
+    } catch (err) {
+      if (this.generation === generation) this.removePath(fsPath, change);
+      return;
+    }
+    if (this.generation !== generation) return;
+
+    if (this.isExcludedPath(fsPath, stat.isDirectory())) {
+      this.removePath(fsPath, change);
+      return;
+    }
+
+    if (stat.isDirectory()) {
+      const seenNotes = new Set<string>();
+      this.folders.add(fsPath);
+      await this.walkDir(fsPath, 0, seenNotes, new Set(), new Set(), change.changed, generation);
+    } else if (isMarkdownPath(fsPath)) {
+      if (await this.indexNote(fsPath, generation)) change.changed.push(fsPath);
+    } else if (!this.attachments.has(fsPath)) {
+      this.attachments.add(fsPath);
+      change.changed.push(fsPath);
+    }
+  }
+
+  private removePath(fsPath: string, change: VaultIndexChange): void {
+    const prefix = fsPath + path.sep;
+    const isAffected = (p: string) => p === fsPath || p.startsWith(prefix);
+    for (const p of Array.from(this.notes.keys())) {
+      if (isAffected(p)) { this.notes.delete(p); change.removed.push(p); }
+    }
+    for (const p of Array.from(this.folders)) {
+      if (isAffected(p)) { this.folders.delete(p); change.removed.push(p); }
+    }
+    for (const p of Array.from(this.attachments)) {
+      if (isAffected(p)) { this.attachments.delete(p); change.removed.push(p); }
+    }
+  }
+
+  private fireChange(change: VaultIndexChange): void {
+    if (!change.full && change.changed.length === 0 && change.removed.length === 0) return;
+    if (change.changed.length > 0 || change.removed.length > 0) {
+      this.scheduleCacheSave();
+    }
+    this._onDidChange.fire(change);
+  }
+
+  private scheduleCacheSave(): void {
+    if (this.cacheSaveTimeout) {
+      clearTimeout(this.cacheSaveTimeout);
+    }
+    // Saving serializes the whole index, so wait for edits to settle
+    this.cacheSaveTimeout = setTimeout(() => {
+      this.cacheSaveTimeout = undefined;
+      this.saveCache();
+    }, 5000);
+  }
+
+  private saveCache(): void {
+    const root = this.root;
+    if (!root) return;
+    saveVaultIndexCache(this.context.globalStorageUri.fsPath, root, this.getNotes())
+      .catch(err => console.error('VaultIndex: error saving index cache:', err));
+  }
+
+  private isIgnoredName(name: string): boolean {
+    // Skip hidden files/folders and special folders
+    return name.startsWith('.') || name === '@eaDir';
+  }
+
+  private isIgnoredPath(fsPath: string): boolean {
+    if (!this.root) return true;
+    const relative = path.relative(this.root, fsPath);
+    if (!relative || relative.startsWith('..')) return true;
+    return relative.split(path.sep).some(part => this.isIgnoredName(part));
+  }
+
+  private isExcludedPath(fsPath: string, isDirectory: boolean): boolean {
+    if (!this.root) return false;
+    const relative = path.relative(this.root, fsPath).split(path.sep).join('/');
+    return this.isExcluded(isDirectory ? `${relative}/` : relative);
+  }
+
+  dispose(): void {
+    if (this.flushTimeout) clearTimeout(this.flushTimeout);
+    if (this.configReloadTimeout) clearTimeout(this.configReloadTimeout);
+    if (this.cacheSaveTimeout) {
+      // Flush a pending save so the next start does not re-parse recent edits
+      clearTimeout(this.cacheSaveTimeout);
+      this.saveCache();
+    }
+    if (this.watcher) this.watcher.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this._onDidChange.dispose();
+  }
+}
+
+export function isMarkdownPath(fsPath: string): boolean {
+  return fsPath.toLowerCase().endsWith('.md');
+}
+
+export function normalizeToFsPath(input: string): string | undefined {
+  try {
+    if (!input) return undefined;
+    if (input.startsWith('file://')) return vscode.Uri.parse(input).fsPath;
+    if (input.startsWith('~')) return path.join(process.env.HOME || '', input.slice(1));
+    return input;
+  } catch (e) {
+    return undefined;
+  }
+}
@@ -0,0 +1,60 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import type { NoteMetadata } from './vaultIndex';
+
+// Bump whenever the shape or content of NoteMetadata produced by parseNote changes,
+// so stale caches from older versions are ignored instead of served.
+const CACHE_VERSION = 4;
+
+interface VaultIndexCacheFile {
+  version: number;
+  vaultPath: string;
+  notes: NoteMetadata[];
+}
+
+/**
+ * One cache file per vault, stored in the extension's global storage folder.
+ */
+function getCacheFilePath(storageDir: string, vaultPath: string): string {
+  const hash = crypto.createHash('sha1').update(vaultPath).digest('hex').slice(0, 16);
+  return path.join(storageDir, `vault-index-${hash}.json`);
+}
+
+/**
+ * Load the parsed notes saved for a vault. Returns an empty list if there is no
+ * usable cache (missing, corrupted, other version or other vault).
+ */
+export async function loadVaultIndexCache(storageDir: string, vaultPath: string): Promise<NoteMetadata[]> {
+  try {
+    const raw = await fs.readFile(getCacheFilePath(storageDir, vaultPath), 'utf8');
+    const data = JSON.parse(raw) as VaultIndexCacheFile;
+    if (data.version !== CACHE_VERSION || data.vaultPath !== vaultPath || !Array.isArray(data.notes)) {
+      return [];
+    }
+    return data.notes;
+  } catch (err) {
+    // No cache yet or unreadable: start from scratch
+    return [];
+  }
+}
+
+/**
+ * Persist the parsed notes of a vault. Entries are reused on the next start only
+ * when both mtime and size of the file still match.
+ */
+export async function saveVaultIndexCache(storageDir: string, vaultPath: string, notes: NoteMetadata[]): Promise<void> {
+  const data: VaultIndexCacheFile = { version: CACHE_VERSION, vaultPath, notes };
+  const target = getCacheFilePath(storageDir, vaultPath);
+  await fs.mkdir(storageDir, { recursive: true });
+  // Write to a temp file first so a crash mid-write never leaves a truncated cache; one per
+  // save, as saves of two windows on the same vault may overlap
+  const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.writeFile(tmp, JSON.stringify(data), 'utf8');
+    await fs.rename(tmp, target);
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { VaultIndex, NoteMetadata } from './vaultIndex';
+import { TaskPriority, PRIORITY_ORDER, parseTaskMetadata } from './taskMetadata';
+import { getTaskStatuses, findTaskStatus, isClosedStatus, taskStatusCharClass } from './taskStatus';
+import { isKanbanNote } from './kanban';
+import { timeSpent } from './timeTracking';
+
+/**
+ * Tasks of the vault as shown by the task table and the task query blocks of the preview.
+ */
+export interface Task {
+  id: string; // unique identifier: filePath:lineNumber
+  status: string; // checkbox symbol (' ', 'x', '/', ...), see taskStatus.ts
+  date: string; // YYYY-MM-DD extracted from filename
+  project: string; // root folder name
+  task: string; // task text
+  tags: string[]; // hashtags in the task text
+  filePath: string; // full path to the markdown file
+  lineNumber: number; // line number in the file (0-indexed)
+  originalLine: string; // original line content
+  heading: string; // text of the closest heading above the task, '' if none
+  due?: string; // 📅 YYYY-MM-DD
+  scheduled?: string; // ⏳ YYYY-MM-DD
+  start?: string; // 🛫 YYYY-MM-DD
+  doneDate?: string; // ✅ YYYY-MM-DD
+  priority: TaskPriority; // 🔺 ⏫ 🔼 🔽 ⏬, 'none' when absent
+  priorityRank: number; // index in PRIORITY_ORDER, used for sorting
+  recurrence?: string; // 🔁 rule text
+  spentMinutes: number; // time logged with [spent:: ...] and - HH:MM–HH:MM lines, see timeTracking.ts
+  parentId?: string; // id of the enclosing task when this is a subtask
+  childIds: string[]; // ids of the direct subtasks
+  depth: number; // 0 for top-level tasks
+  subtasksTotal: number; // all descendants
+  subtasksDone: number; // closed descendants
+}
+
+/**
+ * Tasks of every indexed note; only date-prefixed notes and Kanban boards unless
+ * `obsidianManager.taskTableIncludeNonDateFiles` is set.
+ */
+export function loadVaultTasks(vaultIndex: VaultIndex): Task[] {
+  const vaultPath = vaultIndex.vaultPath || '';
+  const cfg = vscode.workspace.getConfiguration('obsidianManager');
+  const includeNonDateFiles = cfg.get<boolean>('taskTableIncludeNonDateFiles', false);
+  const tasks: Task[] = [];
+  for (const note of vaultIndex.getNotes()) {
+    if (includeNonDateFiles || note.datePrefix || isKanbanNote(note)) {
+      tasks.push(...extractTasksFromNote(note, vaultPath));
+    }
+  }
+  return tasks;
+}
+
+export function extractTasksFromNote(note: NoteMetadata, vaultPath: string): Task[] {
+  // Extract project name (root folder)
+  const relativePath = path.relative(vaultPath, note.filePath);
+  const parts = relativePath.split(path.sep);
+  const project = parts.length > 1 ? parts[0] : 'root';
+
+  // Only "- [?]" tasks with one of the configured statuses are editable from the table
+  const statuses = getTaskStatuses();
+  const taskRegex = new RegExp(`^\\s*- \\[${taskStatusCharClass(statuses)}\\]`);
+  const tasks: Task[] = note.tasks
+    .filter(t => taskRegex.test(t.originalLine))
+    .map(t => {
+      const metadata = parseTaskMetadata(t.text);
+      const heading = note.headings.filter(h => h.line < t.line).pop();
+      return {
+        id: `${note.filePath}:${t.line}`,
+        status: t.status === 'X' ? 'x' : t.status,
+        date: note.datePrefix,
+        project,
+        task: t.text,
+        tags: t.tags,
+        filePath: note.filePath,
+        lineNumber: t.line,
+        originalLine: t.originalLine,
+        heading: heading ? heading.text : '',
+        due: metadata.due,
+        scheduled: metadata.scheduled,
+        start: metadata.start,
+        doneDate: metadata.done,
+        priority: metadata.priority,
+        priorityRank: PRIORITY_ORDER.indexOf(metadata.priority),
+        recurrence: metadata.recurrence,
+        spentMinutes: timeSpent(t.text),
+        childIds: [],
+        depth: 0,
+        subtasksTotal: 0,
+        subtasksDone: 0,
+      };
+    });
+
+  // A task is the subtask of the closest task above it with a smaller indent
+  const indentWidth = (line: string) => (line.match(/^\s*/)?.[0] || '').replace(/\t/g, '    ').length;
+  const ancestors: { task: Task; width: number }[] = [];
+  for (const task of tasks) {
+    const width = indentWidth(task.originalLine);
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1].width >= width) {
+      ancestors.pop();
+    }
+    const parent = ancestors[ancestors.length - 1];
+    if (parent) {
+      task.parentId = parent.task.id;
+      task.depth = ancestors.length;
+      parent.task.childIds.push(task.id);
+    }
+    const closed = isClosedStatus(findTaskStatus(task.status, statuses));
+    for (const ancestor of ancestors) {
+      ancestor.task.subtasksTotal++;
+      if (closed) ancestor.task.subtasksDone++;
+    }
+    ancestors.push({ task, width });
+  }
+  return tasks;
+}
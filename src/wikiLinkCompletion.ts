@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { VaultIndex, NoteMetadata, frontmatterList } from './vaultIndex';
+import { LinkResolver, parseLinkTarget } from './linkResolver';
+
+/**
+ * Completions inside [[wiki-links]]:
+ *  - [[     note names (most recently edited first) and frontmatter aliases
+ *  - [[Note#    headings of the note
+ *  - [[Note#^   block ids of the note
+ *  - [[Note|    aliases of the note
+ */
+export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider {
+  static readonly triggerCharacters = ['[', '#', '^', '|'];
+
+  constructor(private vaultIndex: VaultIndex, private resolver: LinkResolver) {}
+
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+    const lineText = document.lineAt(position.line).text;
+    const before = lineText.slice(0, position.character);
+    const open = before.lastIndexOf('[[');
+    if (open === -1 || before.indexOf(']]', open) !== -1) {
+      return undefined;
+    }
+
+    const inner = before.slice(open + 2);
+    const after = lineText.slice(position.character);
+    // Editors usually auto-close the brackets; add them only when missing
+    const closing = after.startsWith(']]') ? '' : ']]';
+
+    const pipeIndex = inner.indexOf('|');
+    if (pipeIndex !== -1) {
+      const start = new vscode.Position(position.line, open + 2 + pipeIndex + 1);
+      return this.aliasItems(inner.slice(0, pipeIndex), document, new vscode.Range(start, position), closing);
+    }
+
+    const hashIndex = inner.indexOf('#');
+    if (hashIndex !== -1) {
+      const linkpath = inner.slice(0, hashIndex);
+      const targetPath = this.resolver.resolve(linkpath, document.uri.fsPath);
+      if (!targetPath) return undefined;
+
+      const fragment = inner.slice(hashIndex + 1);
+      if (fragment.startsWith('^')) {
+        const start = new vscode.Position(position.line, open + 2 + hashIndex + 2);
+        return this.blockItems(targetPath, new vscode.Range(start, position), closing);
+      }
+      const start = new vscode.Position(position.line, open + 2 + hashIndex + 1);
+      return this.headingItems(targetPath, new vscode.Range(start, position), closing);
+    }
+
+    const start = new vscode.Position(position.line, open + 2);
+    return this.noteItems(document, new vscode.Range(start, position), closing);
+  }
+
+  private noteItems(document: vscode.TextDocument, range: vscode.Range, closing: string): vscode.CompletionItem[] {
+    const items: vscode.CompletionItem[] = [];
+    const currentPath = document.uri.fsPath;
+    const notes = this.vaultIndex.getNotes().slice().sort((a, b) => b.mtime - a.mtime);
+
+    notes.forEach((note, rank) => {
+      if (note.filePath === currentPath) return;
+      const name = path.basename(note.filePath, '.md');
+      const relative = this.resolver.toVaultRelative(note.filePath);
+      const linkpath = this.resolver.linkpathFor(note.filePath, currentPath);
+      // Most recently edited notes first
+      const sortText = String(rank).padStart(6, '0');
+
+      const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.File);
+      item.detail = relative;
+      item.filterText = `${name} ${relative}`;
+      item.sortText = sortText;
+      item.range = range;
+      item.insertText = `${linkpath}${closing}`;
+      items.push(item);
+
+      for (const alias of frontmatterList(note.frontmatter.aliases)) {
+        const aliasItem = new vscode.CompletionItem(alias, vscode.CompletionItemKind.Reference);
+        aliasItem.detail = `Alias of ${relative}`;
+        aliasItem.filterText = `${alias} ${name}`;
+        aliasItem.sortText = sortText;
+        aliasItem.range = range;
+        aliasItem.insertText = `${linkpath}|${alias}${closing}`;
+        items.push(aliasItem);
+      }
+    });
+
+    // Attachments keep their extension, as in Obsidian
+    for (const attachment of this.vaultIndex.getAttachments()) {
+      const name = path.basename(attachment);
+      const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.File);
+      item.detail = this.resolver.toVaultRelative(attachment);
+      item.filterText = `${name} ${item.detail}`;
+      item.sortText = `z${name}`;
+      item.range = range;
+      item.insertText = `${this.resolver.linkpathFor(attachment, currentPath)}${closing}`;
+      items.push(item);
+    }
+
+    return items;
+  }
+
+  private headingItems(targetPath: string, range: vscode.Range, closing: string): vscode.CompletionItem[] {
+    const note = this.vaultIndex.getNote(targetPath);
+    if (!note) return [];
+    return note.headings.map((heading, index) => {
+      const item = new vscode.CompletionItem(heading.text, vscode.CompletionItemKind.Reference);
+      item.detail = `${'#'.repeat(heading.level)} heading, line ${heading.line + 1}`;
+      item.sortText = String(index).padStart(5, '0');
+      item.range = range;
+      item.insertText = `${heading.text}${closing}`;
+      return item;
+    });
+  }
+
+  private blockItems(targetPath: string, range: vscode.Range, closing: string): vscode.CompletionItem[] {
+    const note = this.vaultIndex.getNote(targetPath);
+    if (!note) return [];
+    // Show the block's text when the note is already open
+    const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === targetPath);
+    return note.blocks.map((block, index) => {
+      const item = new vscode.CompletionItem(`^${block.id}`, vscode.CompletionItemKind.Reference);
+      item.detail = document && block.line < document.lineCount
+        ? document.lineAt(block.line).text.trim()
+        : `line ${block.line + 1}`;
+      item.filterText = block.id;
+      item.sortText = String(index).padStart(5, '0');
+      item.range = range;
+      item.insertText = `${block.id}${closing}`;
+      return item;
+    });
+  }
+
+  private aliasItems(target: string, document: vscode.TextDocument, range: vscode.Range, closing: string): vscode.CompletionItem[] {
+    const { linkpath, subpath } = parseLinkTarget(target);
+    const targetPath = this.resolver.resolve(linkpath, document.uri.fsPath);
+    if (!targetPath) return [];
+    const note: NoteMetadata | undefined = this.vaultIndex.getNote(targetPath);
+
+    const names = [
+      ...frontmatterList(note?.frontmatter.aliases),
+      typeof note?.frontmatter.title === 'string' ? note.frontmatter.title : '',
+      subpath.replace(/^\^/, ''),
+      path.basename(targetPath, '.md')
+    ].filter((name, index, all) => name && all.indexOf(name) === index);
+
+    return names.map((name, index) => {
+      const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Text);
+      item.sortText = String(index).padStart(3, '0');
+      item.range = range;
+      item.insertText = `${name}${closing}`;
+      return item;
+    });
+  }
+}
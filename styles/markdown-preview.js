@@ -482,6 +482,7 @@
                 
                 // Use event delegation - single listener on document for all checkboxes
                 document.addEventListener('change', handleCheckboxChange, true);
+                document.addEventListener('click', handleTaskQuerySourceClick, true);
                 
                 checkboxServerInitialized = true;
             }
@@ -547,6 +548,9 @@
             return;
         }
         
+        // Tasks listed by a query block live in other notes
+        const sourceFile = listItem.getAttribute('data-source') || checkboxSourceFile;
+        
         // If already saving, prevent this change
         if (isSavingCheckbox) {
             e.preventDefault();
@@ -568,7 +572,7 @@
         });
         
         try {
-            const url = `http://localhost:${checkboxServerPort}/checkbox/mark?source=${encodeURIComponent(checkboxSourceFile)}&line=${lineNumber}&checked=${checked}&nonce=${encodeURIComponent(checkboxServerNonce)}`;
+            const url = `http://localhost:${checkboxServerPort}/checkbox/mark?source=${encodeURIComponent(sourceFile)}&line=${lineNumber}&checked=${checked}&nonce=${encodeURIComponent(checkboxServerNonce)}`;
             
             // Use Image to bypass CSP
             const img = new Image();
@@ -602,6 +606,26 @@
         }
     }
 
+    // Note link of a task listed by a query block: open the note at the task's line
+    function handleTaskQuerySourceClick(e) {
+        const link = e.target.closest && e.target.closest('.om-task-query-source');
+        if (!link) {
+            return;
+        }
+        
+        e.preventDefault();
+        e.stopPropagation();
+        
+        try {
+            const url = `http://localhost:${checkboxServerPort}/file/open?path=${encodeURIComponent(link.getAttribute('data-path'))}&line=${link.getAttribute('data-line')}&nonce=${encodeURIComponent(checkboxServerNonce)}`;
+            
+            const img = new Image();
+            img.src = url;
+        } catch (error) {
+            // Silent fail
+        }
+    }
+
     /*================================================================
     // region - ADD COPY TO SHORT-CODE
     ================================================================*/